@@ -5,35 +5,205 @@
  *
  * This file creates and runs an MCP server for accessing documentation
  * and integrating with Guru API. It supports standard JSON-RPC MCP
- * protocol over stdio.
+ * protocol over stdio (default) or Streamable HTTP / SSE (--transport http).
+ *
+ * `ai-knowledge-hub sync-docs <dir>` runs a one-off folder <-> Notion sync instead.
+ * `ai-knowledge-hub round-trip [dir]` checks converter round trips on a fixture folder.
+ * `ai-knowledge-hub config-check` reports what the configuration enables, misses or gets wrong.
  */
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { parseArgs } from 'node:util';
+import { resolve } from 'path';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { SERVER_INFO, configureServer } from './server.js';
-
-// Create the MCP server
-const server = new McpServer({
-  name: SERVER_INFO.name,
-  version: SERVER_INFO.version,
-  description: SERVER_INFO.description,
-  capabilities: {
-    tools: {},
-    resources: {
-      subscribe: true,
-      listChanged: true,
+import { SERVER_INFO, createServer } from './server.js';
+import { DocsSyncService, SyncConflictStrategy, SyncDirection } from './services/docs-sync.js';
+import { NotionDatabaseRegistry } from './services/notion-databases.js';
+import { checkConfig } from './tools/config.js';
+import { formatSyncReport } from './tools/sync.js';
+import { InvalidConfigError, loadKnowledgeHubConfig, setKnowledgeHubConfig } from './utils/config.js';
+import { formatRoundTripReport, runRoundTripFixtures } from './utils/round-trip.js';
+import { startHttpServer } from './transports/http.js';
+
+type TransportMode = 'stdio' | 'http';
+
+const DEFAULT_HTTP_PORT = 3000;
+const DEFAULT_HTTP_HOST = '127.0.0.1';
+const DEFAULT_ROUND_TRIP_FIXTURES = 'test-data/round-trip';
+
+interface CliOptions {
+  transport: TransportMode;
+  port: number;
+  host: string;
+  // Positional arguments, e.g. ['sync-docs', './docs']
+  positionals: string[];
+  direction?: string;
+  conflictStrategy?: string;
+  dryRun: boolean;
+  // Notion database profile alias (NOTION_DATABASES)
+  database?: string;
+  // Config file (default: KNOWLEDGE_HUB_CONFIG, else knowledge-hub.config.* in the working directory)
+  config?: string;
+}
+
+// Parse CLI flags (environment variables act as defaults)
+function parseOptions(): CliOptions {
+  const { values, positionals } = parseArgs({
+    options: {
+      transport: { type: 'string' },
+      port: { type: 'string' },
+      host: { type: 'string' },
+      direction: { type: 'string' },
+      'conflict-strategy': { type: 'string' },
+      'dry-run': { type: 'boolean' },
+      database: { type: 'string' },
+      config: { type: 'string' },
     },
-  },
-});
+    allowPositionals: true,
+  });
+
+  const transport = values.transport ?? process.env.MCP_TRANSPORT ?? 'stdio';
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`Unknown transport "${transport}". Use "stdio" or "http".`);
+  }
+
+  const port = Number(values.port ?? process.env.MCP_HTTP_PORT ?? DEFAULT_HTTP_PORT);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port "${values.port ?? process.env.MCP_HTTP_PORT}"`);
+  }
+
+  return {
+    transport,
+    port,
+    host: values.host ?? process.env.MCP_HTTP_HOST ?? DEFAULT_HTTP_HOST,
+    positionals,
+    direction: values.direction,
+    conflictStrategy: values['conflict-strategy'],
+    dryRun: values['dry-run'] ?? false,
+    database: values.database,
+    config: values.config,
+  };
+}
+
+// sync-docs <dir> [--direction push|pull|both] [--conflict-strategy report|local|remote] [--database <alias>] [--dry-run]
+async function runSyncDocs(options: CliOptions): Promise<number> {
+  const directory = options.positionals[1];
+  if (directory === undefined) {
+    throw new Error('Usage: ai-knowledge-hub sync-docs <dir> [--direction push|pull|both] [--conflict-strategy report|local|remote] [--database <alias>] [--dry-run]');
+  }
+
+  const direction = options.direction ?? 'both';
+  if (direction !== 'push' && direction !== 'pull' && direction !== 'both') {
+    throw new Error(`Unknown direction "${direction}". Use "push", "pull" or "both".`);
+  }
+  const conflictStrategy = options.conflictStrategy ?? 'report';
+  if (conflictStrategy !== 'report' && conflictStrategy !== 'local' && conflictStrategy !== 'remote') {
+    throw new Error(`Unknown conflict strategy "${conflictStrategy}". Use "report", "local" or "remote".`);
+  }
+
+  const { profile, service, databaseId } = NotionDatabaseRegistry.fromConfig().getDatabase(options.database);
+  const defaults = { category: profile.defaultCategory, status: profile.defaultStatus };
+
+  const report = await new DocsSyncService(service, databaseId, defaults).sync(resolve(directory), {
+    direction: direction as SyncDirection,
+    conflictStrategy: conflictStrategy as SyncConflictStrategy,
+    dryRun: options.dryRun,
+  });
+  process.stdout.write(`${formatSyncReport(report)}\n`);
+
+  // Non-zero exit so CI notices conflicts and failures
+  return report.counts.conflict > 0 || report.counts.failed > 0 ? 1 : 0;
+}
+
+// round-trip [dir] - markdown -> Notion -> markdown and Notion -> markdown -> Notion must be stable for every fixture
+async function runRoundTrip(options: CliOptions): Promise<number> {
+  const results = await runRoundTripFixtures(resolve(options.positionals[1] ?? DEFAULT_ROUND_TRIP_FIXTURES));
+  process.stdout.write(`${formatRoundTripReport(results)}\n`);
 
-// Configure the server with tools and resources
-configureServer(server);
+  return results.every(result => result.stable) ? 0 : 1;
+}
+
+// config-check [--config <file>] - exits with status 1 when the configuration is invalid or has problems
+async function runConfigCheck(options: CliOptions): Promise<number> {
+  const result = await checkConfig(options.config);
+  process.stdout.write(`${result.text}\n`);
+
+  return result.ok ? 0 : 1;
+}
+
+// Load the config file once, before any tool reads a setting
+async function loadConfig(options: CliOptions): Promise<void> {
+  const loaded = await loadKnowledgeHubConfig({ path: options.config });
+  setKnowledgeHubConfig(loaded);
+
+  for (const name of loaded.missingVariables) {
+    console.error(`Warning: ${name} is referenced in ${loaded.path ?? 'the config file'} but not set`);
+  }
+  for (const problem of loaded.problems) {
+    console.error(`Warning: ${problem}`);
+  }
+}
+
+// Stop cleanly on Ctrl+C / container shutdown
+function onShutdown(close: () => Promise<void>): void {
+  let shuttingDown = false;
+  const shutdown = (signal: string): void => {
+    if (shuttingDown) {
+      return;
+    }
+    shuttingDown = true;
+    console.error(`Received ${signal}, shutting down...`);
+
+    close()
+      .then(() => process.exit(0))
+      .catch((error) => {
+        console.error('Error during shutdown:', error);
+        process.exit(1);
+      });
+  };
+
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+}
 
 // Main function to connect and start the server
 async function main(): Promise<void> {
+  const options = parseOptions();
+
+  if (options.positionals[0] === 'config-check') {
+    process.exit(await runConfigCheck(options));
+  }
+
+  await loadConfig(options);
+
+  if (options.positionals[0] === 'sync-docs') {
+    process.exit(await runSyncDocs(options));
+  }
+
+  if (options.positionals[0] === 'round-trip') {
+    process.exit(await runRoundTrip(options));
+  }
+
+  if (options.transport === 'http') {
+    const authToken = process.env.MCP_HTTP_TOKEN;
+    const httpServer = await startHttpServer(createServer, {
+      port: options.port,
+      host: options.host,
+      authToken,
+    });
+    onShutdown(() => httpServer.close());
+
+    console.error(`${SERVER_INFO.name} MCP Server v${SERVER_INFO.version} listening on ${httpServer.url}/mcp (SSE: ${httpServer.url}/sse)`);
+    if (authToken === undefined || authToken === '') {
+      console.error('Warning: MCP_HTTP_TOKEN is not set - HTTP endpoints are unauthenticated');
+    }
+    return;
+  }
+
   // Create and connect to the stdio transport
+  const server = createServer();
   const transport = new StdioServerTransport();
   await server.connect(transport);
+  onShutdown(() => server.close());
 
   // Only log minimal info to stderr to avoid cluttering logs
   console.error(`${SERVER_INFO.name} MCP Server v${SERVER_INFO.version} running on stdio`);
@@ -41,6 +211,10 @@ async function main(): Promise<void> {
 
 // Start the server and handle errors
 main().catch((error) => {
+  if (error instanceof InvalidConfigError) {
+    console.error(error.message);
+    process.exit(1);
+  }
   console.error('Fatal error in main():', error);
   process.exit(1);
 });
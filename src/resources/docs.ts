@@ -0,0 +1,160 @@
+/**
+ * Local markdown docs exposed as MCP resources (docs://{category}/{name})
+ */
+
+import { FSWatcher, watch } from 'fs';
+import { extname, join } from 'path';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { DocsService } from '../services/docs.js';
+import { getDocsService } from '../tools/docs.js';
+import { DocumentResource, DocumentSummary } from '../types/index.js';
+import { ResourceSubscriptions } from './subscriptions.js';
+
+export interface DocsChangeEvent {
+    filePath: string;
+    kind: 'changed' | 'renamed';
+}
+
+type DocsChangeListener = (event: DocsChangeEvent) => void;
+
+// Wait for editors to finish writing before notifying
+const DOCS_CHANGE_DEBOUNCE_MS = 200;
+
+// One recursive watcher per docs root, shared by every connected server
+const docsWatchers = new Map<string, { watcher: FSWatcher; listeners: Set<DocsChangeListener> }>();
+
+/**
+ * Watch a docs root for markdown file changes. Returns a function that stops listening.
+ */
+export function watchDocsRoot(rootDir: string, listener: DocsChangeListener): () => void {
+    let entry = docsWatchers.get(rootDir);
+
+    if (!entry) {
+        const listeners = new Set<DocsChangeListener>();
+        const pending = new Map<string, { timer: NodeJS.Timeout; kind: DocsChangeEvent['kind'] }>();
+
+        const watcher = watch(rootDir, { recursive: true }, (eventType, fileName) => {
+            if (fileName === null || fileName === '') {
+                return;
+            }
+
+            const filePath = join(rootDir, fileName.toString());
+            const isMarkdown = ['.md', '.markdown'].includes(extname(filePath).toLowerCase());
+            // Directory renames add or remove whole categories
+            if (!isMarkdown && eventType !== 'rename') {
+                return;
+            }
+
+            const previous = pending.get(filePath);
+            if (previous) {
+                clearTimeout(previous.timer);
+            }
+
+            const kind: DocsChangeEvent['kind'] = eventType === 'rename' || previous?.kind === 'renamed' ? 'renamed' : 'changed';
+            const timer = setTimeout(() => {
+                pending.delete(filePath);
+                for (const notify of listeners) {
+                    notify({ filePath, kind });
+                }
+            }, DOCS_CHANGE_DEBOUNCE_MS);
+            timer.unref();
+            pending.set(filePath, { timer, kind });
+        });
+
+        watcher.on('error', () => {
+            // Docs root removed or unreadable - stop watching, reads will report the error
+            watcher.close();
+            docsWatchers.delete(rootDir);
+        });
+        watcher.unref();
+
+        entry = { watcher, listeners };
+        docsWatchers.set(rootDir, entry);
+    }
+
+    const { listeners } = entry;
+    listeners.add(listener);
+
+    return () => {
+        listeners.delete(listener);
+        const current = docsWatchers.get(rootDir);
+        if (current && current.listeners.size === 0) {
+            current.watcher.close();
+            docsWatchers.delete(rootDir);
+        }
+    };
+}
+
+/**
+ * Build the docs:// URI for a document
+ */
+export function getDocumentUri(document: { category: string; name: string }): string {
+    return `docs://${document.category}/${document.name}`;
+}
+
+/**
+ * Describe a local document as an MCP resource
+ */
+export function toDocumentResource(document: DocumentSummary): DocumentResource {
+    return {
+        uri: getDocumentUri(document),
+        name: document.metadata.title ?? document.name,
+        description: document.metadata.description ?? `Local document ${document.category}/${document.name}`,
+        mimeType: 'text/markdown',
+    };
+}
+
+/**
+ * Register local docs resources and file change notifications
+ */
+export function configureDocsResources(server: McpServer, subscriptions: ResourceSubscriptions): void {
+    const docsService: DocsService | undefined = getDocsService();
+    if (docsService === undefined) {
+        // Note: Local docs resources are only available when DOCS_ROOT is set
+        return;
+    }
+
+    server.resource(
+        'local-docs',
+        // "+" lets the category span nested directories, e.g. docs://code_guidelines/flutter/testing
+        new ResourceTemplate('docs://{+category}/{name}', {
+            list: async () => {
+                const documents = await docsService.listDocuments();
+                return { resources: documents.map(document => ({ ...toDocumentResource(document) })) };
+            },
+        }),
+        {
+            description: 'Local markdown documentation from DOCS_ROOT',
+            mimeType: 'text/markdown',
+        },
+        async (uri, variables) => {
+            const category = String(variables.category);
+            const name = String(variables.name);
+            const document = await docsService.readDocument(category, name);
+
+            return {
+                contents: [{
+                    uri: uri.href,
+                    mimeType: 'text/markdown',
+                    text: document.content,
+                }],
+            };
+        },
+    );
+
+    try {
+        const stopWatching = watchDocsRoot(docsService.getRootDir(), ({ filePath, kind }) => {
+            if (kind === 'renamed') {
+                subscriptions.notifyListChanged();
+            }
+
+            if (['.md', '.markdown'].includes(extname(filePath).toLowerCase())) {
+                subscriptions.notifyUpdated(getDocumentUri(docsService.getDocumentInfo(filePath)));
+            }
+        });
+
+        subscriptions.onClose(stopWatching);
+    } catch {
+        // Docs root missing or not watchable - resources still work, just without change notifications
+    }
+}
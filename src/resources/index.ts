@@ -0,0 +1,22 @@
+/**
+ * Resources barrel exports and registration
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { configureDocsResources } from './docs.js';
+import { configureNotionResources } from './notion.js';
+import { ResourceSubscriptions } from './subscriptions.js';
+
+export * from './docs.js';
+export * from './notion.js';
+export * from './subscriptions.js';
+
+/**
+ * Configure MCP resources (call after tools so services are initialized)
+ */
+export function configureResources(server: McpServer): void {
+    const subscriptions = new ResourceSubscriptions(server);
+
+    configureDocsResources(server, subscriptions);
+    configureNotionResources(server, subscriptions);
+}
@@ -0,0 +1,129 @@
+/**
+ * Notion database pages exposed as MCP resources (notion://page/{id})
+ */
+
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { NotionService } from '../services/notion.js';
+import { getNotionDatabases, getNotionService } from '../tools/notion.js';
+import { getKnowledgeHubConfig } from '../utils/config.js';
+import { extractPageTitle } from '../utils/converters.js';
+import { ResourceSubscriptions } from './subscriptions.js';
+
+const NOTION_PAGE_URI_PREFIX = 'notion://page/';
+
+/**
+ * Build the notion:// URI for a page
+ */
+export function getNotionPageUri(pageId: string): string {
+    return `${NOTION_PAGE_URI_PREFIX}${pageId}`;
+}
+
+/**
+ * Register Notion page resources and poll for last_edited_time changes
+ */
+export function configureNotionResources(server: McpServer, subscriptions: ResourceSubscriptions): void {
+    const notionService: NotionService | undefined = getNotionService();
+    if (notionService === undefined) {
+        // Note: Notion resources are only available when a Notion token is configured
+        return;
+    }
+    // Pages of the default database are listed; any page can be read by ID
+    const databaseId = getNotionDatabases().getProfile().databaseId;
+
+    // Page ID -> last seen last_edited_time
+    const knownEditTimes = new Map<string, string>();
+    let knownPageIds: Set<string> | null = null;
+    let polling = false;
+
+    server.resource(
+        'notion-pages',
+        new ResourceTemplate('notion://page/{id}', {
+            list: async () => {
+                if (databaseId === undefined || databaseId === '') {
+                    return { resources: [] };
+                }
+
+                const response = await notionService.listDatabasePages(databaseId, { limit: 100 });
+                return {
+                    resources: response.results.map(page => ({
+                        uri: getNotionPageUri(page.id),
+                        name: extractPageTitle(page),
+                        description: `Notion page last edited ${page.last_edited_time}`,
+                        mimeType: 'text/markdown',
+                    })),
+                };
+            },
+        }),
+        {
+            description: 'Notion documentation pages rendered as markdown',
+            mimeType: 'text/markdown',
+        },
+        async (uri, variables) => {
+            const pageId = String(variables.id);
+            const { markdown, page } = await notionService.exportPageToMarkdown(pageId);
+            knownEditTimes.set(page.id, page.last_edited_time);
+
+            return {
+                contents: [{
+                    uri: uri.href,
+                    mimeType: 'text/markdown',
+                    text: markdown,
+                }],
+            };
+        },
+    );
+
+    const poll = async (): Promise<void> => {
+        if (polling || !server.isConnected()) {
+            return;
+        }
+        polling = true;
+
+        try {
+            const latestEditTimes = new Map<string, string>();
+
+            // Detect pages added to or removed from the database listing
+            if (databaseId !== undefined && databaseId !== '') {
+                const response = await notionService.listDatabasePages(databaseId, { limit: 100 });
+                const pageIds = new Set(response.results.map(page => page.id));
+                for (const page of response.results) {
+                    latestEditTimes.set(page.id, page.last_edited_time);
+                }
+
+                const listChanged = knownPageIds !== null &&
+                    (pageIds.size !== knownPageIds.size || Array.from(pageIds).some(id => !knownPageIds!.has(id)));
+                knownPageIds = pageIds;
+                if (listChanged) {
+                    subscriptions.notifyListChanged();
+                }
+            }
+
+            // Detect edits to subscribed pages
+            for (const uri of subscriptions.getSubscribedUris(NOTION_PAGE_URI_PREFIX)) {
+                const pageId = uri.slice(NOTION_PAGE_URI_PREFIX.length);
+                let editTime = latestEditTimes.get(pageId);
+                if (editTime === undefined) {
+                    const page = await notionService.getPage(pageId);
+                    editTime = page.last_edited_time;
+                }
+
+                const previous = knownEditTimes.get(pageId);
+                knownEditTimes.set(pageId, editTime);
+                if (previous !== undefined && previous !== editTime) {
+                    subscriptions.notifyUpdated(uri);
+                }
+            }
+        } catch {
+            // Transient Notion errors - try again on the next tick
+        } finally {
+            polling = false;
+        }
+    };
+
+    const timer = setInterval(() => {
+        void poll();
+    }, getKnowledgeHubConfig().sources.notion.resourcePollIntervalMs);
+    timer.unref();
+
+    subscriptions.onClose(() => clearInterval(timer));
+}
@@ -0,0 +1,89 @@
+/**
+ * Resource subscription tracking for a single MCP server instance
+ * Handles resources/subscribe and resources/unsubscribe and sends change notifications
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+
+export class ResourceSubscriptions {
+    private readonly server: McpServer;
+    private readonly subscribedUris = new Set<string>();
+    private readonly closeHandlers: Array<() => void> = [];
+
+    constructor(server: McpServer) {
+        this.server = server;
+
+        this.server.server.setRequestHandler(SubscribeRequestSchema, (request) => {
+            this.subscribedUris.add(request.params.uri);
+            return {};
+        });
+
+        this.server.server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+            this.subscribedUris.delete(request.params.uri);
+            return {};
+        });
+
+        // Release watchers and timers when the client disconnects
+        const previousOnClose = this.server.server.onclose;
+        this.server.server.onclose = (): void => {
+            previousOnClose?.();
+            this.close();
+        };
+    }
+
+    /**
+     * Check whether the client subscribed to a resource URI
+     */
+    isSubscribed(uri: string): boolean {
+        return this.subscribedUris.has(uri);
+    }
+
+    /**
+     * Get all subscribed URIs starting with the given prefix (e.g. "notion://")
+     */
+    getSubscribedUris(prefix = ''): string[] {
+        return Array.from(this.subscribedUris).filter(uri => uri.startsWith(prefix));
+    }
+
+    /**
+     * Send notifications/resources/updated if the client is subscribed to the URI
+     */
+    notifyUpdated(uri: string): void {
+        if (!this.subscribedUris.has(uri) || !this.server.isConnected()) {
+            return;
+        }
+
+        this.server.server.sendResourceUpdated({ uri }).catch(() => {
+            // Client went away between the check and the send - nothing to do
+        });
+    }
+
+    /**
+     * Send notifications/resources/list_changed
+     */
+    notifyListChanged(): void {
+        if (!this.server.isConnected()) {
+            return;
+        }
+
+        this.server.sendResourceListChanged();
+    }
+
+    /**
+     * Register cleanup to run when the server connection closes
+     */
+    onClose(handler: () => void): void {
+        this.closeHandlers.push(handler);
+    }
+
+    /**
+     * Run all cleanup handlers and forget subscriptions
+     */
+    close(): void {
+        for (const handler of this.closeHandlers.splice(0)) {
+            handler();
+        }
+        this.subscribedUris.clear();
+    }
+}
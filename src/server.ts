@@ -1,7 +1,13 @@
 import { z } from 'zod';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { configureResources } from './resources/index.js';
+import { configureConfigTools } from './tools/config.js';
+import { configureDocsTools } from './tools/docs.js';
 import { configureGuruTools } from './tools/guru.js';
 import { configureNotionTools } from './tools/notion.js';
+import { configureSearchTools } from './tools/search.js';
+import { configureSectionTools } from './tools/sections.js';
+import { configureSyncTools } from './tools/sync.js';
 
 // Define server info
 export const SERVER_INFO = {
@@ -10,17 +16,62 @@ export const SERVER_INFO = {
     description: 'MCP server that provides unified access to organizational knowledge across multiple platforms',
 };
 
+/**
+ * Create a fully configured MCP server instance
+ * Each transport connection (stdio, or one HTTP session) needs its own instance
+ */
+export function createServer(): McpServer {
+    const server = new McpServer(
+        {
+            name: SERVER_INFO.name,
+            version: SERVER_INFO.version,
+            description: SERVER_INFO.description,
+        },
+        {
+            capabilities: {
+                tools: {},
+                resources: {
+                    subscribe: true,
+                    listChanged: true,
+                },
+            },
+        },
+    );
+
+    configureServer(server);
+
+    return server;
+}
+
 /**
  * Configure MCP server with all tools and resources
  */
 export function configureServer(server: McpServer): void {
 
+    // Configure local documentation tools
+    configureDocsTools(server);
+
     // Configure Guru API tools
     configureGuruTools(server);
 
     // Configure Notion tools
     configureNotionTools(server);
 
+    // Configure cross-source search (call after the source tools so their services are initialized)
+    configureSearchTools(server);
+
+    // Configure section-level retrieval across all sources
+    configureSectionTools(server);
+
+    // Configure local folder <-> Notion sync
+    configureSyncTools(server);
+
+    // Configure the configuration check
+    configureConfigTools(server);
+
+    // Configure resources (local docs and Notion pages) with change notifications
+    configureResources(server);
+
     // Example hello tool
     server.tool(
         'hello',
@@ -0,0 +1,397 @@
+/**
+ * Two-way sync between a local markdown folder and a Notion database
+ * Page IDs and content hashes from the last sync live in a lock file at the folder root
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs-extra';
+import { basename, join, relative, sep } from 'path';
+import type { NotionService } from './notion.js';
+import { ConversionOptions, ConversionResult } from '../types/markdown.js';
+import { extractFrontmatter, extractTitleFromMarkdown } from '../utils/converters.js';
+import { listMarkdownFiles, readMarkdownFile, writeMarkdownFile } from '../utils/file-system.js';
+
+export const SYNC_LOCK_FILE = '.notion-sync.json';
+
+// Guards against two syncs (e.g. CLI and server) working on the same folder at once
+const SYNC_GUARD_FILE = '.notion-sync.lock';
+const STALE_GUARD_MS = 10 * 60_000;
+
+const LOCK_FORMAT_VERSION = 1;
+
+// Images and attachments of synced files are uploaded - only those inside the file's folder are read
+const SYNC_CONVERSION_OPTIONS: Partial<ConversionOptions> = { imageHandling: 'upload' };
+
+const FRONTMATTER_PATTERN = /^---\s*\n[\s\S]*?\n---\s*\n/;
+
+export type SyncDirection = 'push' | 'pull' | 'both';
+
+// 'report' leaves conflicting files alone; 'local' / 'remote' resolve them in favour of that side
+export type SyncConflictStrategy = 'report' | 'local' | 'remote';
+
+export type SyncAction =
+    | 'created'
+    | 'pushed'
+    | 'pulled'
+    | 'unchanged'
+    | 'conflict'
+    | 'skipped'
+    | 'failed';
+
+export interface SyncLockEntry {
+    pageId: string;
+    // sha256 of the local file body at the last sync
+    localHash: string;
+    // sha256 of the exported page markdown at the last sync
+    remoteHash: string;
+    remoteLastEdited: string;
+    syncedAt: string;
+}
+
+export interface SyncLockFile {
+    version: number;
+    databaseId: string;
+    files: Record<string, SyncLockEntry>;
+}
+
+export interface SyncFileResult {
+    path: string;
+    action: SyncAction;
+    pageId?: string;
+    detail?: string;
+}
+
+export interface SyncReport {
+    directory: string;
+    direction: SyncDirection;
+    dryRun: boolean;
+    files: SyncFileResult[];
+    counts: Record<SyncAction, number>;
+}
+
+export interface SyncOptions {
+    direction?: SyncDirection;
+    conflictStrategy?: SyncConflictStrategy;
+    dryRun?: boolean;
+}
+
+/**
+ * Hash markdown so line endings and trailing whitespace don't count as edits
+ */
+export function hashMarkdown(markdown: string): string {
+    const normalized = markdown.replace(/\r\n?/g, '\n').replace(/[ \t]+$/gm, '').trim();
+    return createHash('sha256').update(normalized).digest('hex');
+}
+
+function splitFrontmatter(markdown: string): { frontmatter: string; body: string } {
+    const match = FRONTMATTER_PATTERN.exec(markdown);
+    return match
+        ? { frontmatter: match[0], body: markdown.slice(match[0].length) }
+        : { frontmatter: '', body: markdown };
+}
+
+/**
+ * Note for pushed files with links to other files that have no page (yet) - they resolve once those files have pages and the file is pushed again
+ */
+function describeUnresolvedLinks(conversionResult: ConversionResult): string | undefined {
+    const links = conversionResult.unresolvedLinks ?? [];
+    return links.length > 0 ? `Unresolved links: ${links.map(link => link.link).join(', ')}` : undefined;
+}
+
+/**
+ * Lock file paths always use forward slashes so the file is portable between machines
+ */
+function toLockPath(rootDir: string, filePath: string): string {
+    return relative(rootDir, filePath).split(sep).join('/');
+}
+
+export class DocsSyncService {
+    private readonly notionService: NotionService;
+    private readonly databaseId: string;
+    // Metadata for new pages whose frontmatter doesn't set it
+    private readonly defaults: { category?: string; status?: string };
+
+    constructor(notionService: NotionService, databaseId: string, defaults: { category?: string; status?: string } = {}) {
+        this.notionService = notionService;
+        this.databaseId = databaseId;
+        this.defaults = defaults;
+    }
+
+    /**
+     * Sync every markdown file under rootDir with the database
+     */
+    async sync(rootDir: string, options: SyncOptions = {}): Promise<SyncReport> {
+        const direction = options.direction ?? 'both';
+        const dryRun = options.dryRun ?? false;
+
+        if (!(await fs.pathExists(rootDir)) || !(await fs.stat(rootDir)).isDirectory()) {
+            throw new Error(`Sync directory not found: ${rootDir}`);
+        }
+
+        const releaseGuard = dryRun ? undefined : await this.acquireGuard(rootDir);
+        try {
+            const lock = await this.readLock(rootDir);
+            const files: SyncFileResult[] = [];
+            // Lock entries as last written, to save entries that changed without a write (e.g. a newer edit time)
+            let savedEntries = JSON.stringify(lock.files);
+
+            const localFiles = await listMarkdownFiles(rootDir);
+            const localPaths = new Set(localFiles.map(filePath => toLockPath(rootDir, filePath)));
+
+            for (const filePath of localFiles) {
+                const lockPath = toLockPath(rootDir, filePath);
+                try {
+                    const result = await this.syncFile(rootDir, lockPath, lock, {
+                        direction,
+                        conflictStrategy: options.conflictStrategy ?? 'report',
+                        dryRun,
+                    });
+                    files.push(result);
+                    // Save after every write so an interrupted sync never loses a page mapping
+                    if (!dryRun && (result.action === 'created' || result.action === 'pushed' || result.action === 'pulled')) {
+                        await this.writeLock(rootDir, lock);
+                        savedEntries = JSON.stringify(lock.files);
+                    }
+                } catch (error) {
+                    files.push({
+                        path: lockPath,
+                        action: 'failed',
+                        pageId: lock.files[lockPath]?.pageId,
+                        detail: error instanceof Error ? error.message : String(error),
+                    });
+                }
+            }
+
+            if (!dryRun && JSON.stringify(lock.files) !== savedEntries) {
+                await this.writeLock(rootDir, lock);
+            }
+
+            // Tracked files deleted locally are reported, never archived automatically
+            for (const [lockPath, entry] of Object.entries(lock.files)) {
+                if (!localPaths.has(lockPath)) {
+                    files.push({
+                        path: lockPath,
+                        action: 'skipped',
+                        pageId: entry.pageId,
+                        detail: 'Deleted locally - archive the page or remove it from the lock file',
+                    });
+                }
+            }
+
+            const counts = { created: 0, pushed: 0, pulled: 0, unchanged: 0, conflict: 0, skipped: 0, failed: 0 };
+            for (const file of files) {
+                counts[file.action]++;
+            }
+
+            return { directory: rootDir, direction, dryRun, files, counts };
+        } finally {
+            await releaseGuard?.();
+        }
+    }
+
+    private async syncFile(
+        rootDir: string,
+        lockPath: string,
+        lock: SyncLockFile,
+        options: Required<SyncOptions>,
+    ): Promise<SyncFileResult> {
+        const filePath = join(rootDir, lockPath);
+        const local = await readMarkdownFile(filePath);
+        const { frontmatter, body } = splitFrontmatter(local);
+        const entry = lock.files[lockPath];
+
+        // Untracked file - create its page
+        if (entry === undefined) {
+            if (options.direction === 'pull') {
+                return { path: lockPath, action: 'skipped', detail: 'Not in Notion yet (pull only)' };
+            }
+            if (options.dryRun) {
+                return { path: lockPath, action: 'created', detail: 'Would create a new page' };
+            }
+
+            const { page, conversionResult } = await this.notionService.createPageFromMarkdown(this.databaseId, {
+                markdown: body,
+                documentPath: filePath,
+                assetRoot: rootDir,
+                conversionOptions: SYNC_CONVERSION_OPTIONS,
+                ...this.pageOptionsFromFrontmatter(local, lockPath, body),
+                // A half-written page isn't in the lock, so the next sync would create another one
+                rollbackOnFailure: true,
+            });
+            lock.files[lockPath] = await this.recordSync(page.id, body, filePath);
+            return { path: lockPath, action: 'created', pageId: page.id, detail: describeUnresolvedLinks(conversionResult) };
+        }
+
+        const page = await this.notionService.getPage(entry.pageId);
+        if (page.archived || page.in_trash) {
+            return { path: lockPath, action: 'skipped', pageId: entry.pageId, detail: 'Page is archived in Notion' };
+        }
+
+        const localChanged = hashMarkdown(body) !== entry.localHash;
+
+        // last_edited_time is a cheap first check; the export hash filters out property-only edits
+        let remoteMarkdown: string | undefined;
+        if (page.last_edited_time !== entry.remoteLastEdited) {
+            ({ markdown: remoteMarkdown } = await this.notionService.exportPageToMarkdown(entry.pageId, { includeMetadata: false }, { markdownPath: filePath }));
+        }
+        const remoteChanged = remoteMarkdown !== undefined && hashMarkdown(remoteMarkdown) !== entry.remoteHash;
+
+        if (!localChanged && !remoteChanged) {
+            if (remoteMarkdown !== undefined && !options.dryRun) {
+                entry.remoteLastEdited = page.last_edited_time;
+            }
+            return { path: lockPath, action: 'unchanged', pageId: entry.pageId };
+        }
+
+        let winner: 'local' | 'remote' = localChanged ? 'local' : 'remote';
+        if (localChanged && remoteChanged) {
+            if (options.conflictStrategy === 'report') {
+                return {
+                    path: lockPath,
+                    action: 'conflict',
+                    pageId: entry.pageId,
+                    detail: `Changed locally and in Notion (edited ${page.last_edited_time}) since the last sync`,
+                };
+            }
+            winner = options.conflictStrategy;
+        }
+
+        if (winner === 'local') {
+            if (options.direction === 'pull') {
+                return { path: lockPath, action: 'skipped', pageId: entry.pageId, detail: 'Local changes not pushed (pull only)' };
+            }
+            if (options.dryRun) {
+                return { path: lockPath, action: 'pushed', pageId: entry.pageId, detail: 'Would push local changes' };
+            }
+
+            const { conversionResult } = await this.notionService.updatePageContent(entry.pageId, {
+                markdown: body,
+                documentPath: filePath,
+                assetRoot: rootDir,
+                conversionOptions: SYNC_CONVERSION_OPTIONS,
+            });
+            lock.files[lockPath] = await this.recordSync(entry.pageId, body, filePath);
+            return { path: lockPath, action: 'pushed', pageId: entry.pageId, detail: describeUnresolvedLinks(conversionResult) };
+        }
+
+        if (options.direction === 'push') {
+            return { path: lockPath, action: 'skipped', pageId: entry.pageId, detail: 'Notion changes not pulled (push only)' };
+        }
+        if (options.dryRun) {
+            return { path: lockPath, action: 'pulled', pageId: entry.pageId, detail: 'Would pull Notion changes' };
+        }
+
+        // Keep the local frontmatter - Notion doesn't store it
+        const pulledBody = `${remoteMarkdown!.trim()}\n`;
+        await writeMarkdownFile(filePath, `${frontmatter}${pulledBody}`);
+        lock.files[lockPath] = {
+            pageId: entry.pageId,
+            localHash: hashMarkdown(pulledBody),
+            remoteHash: hashMarkdown(remoteMarkdown!),
+            remoteLastEdited: page.last_edited_time,
+            syncedAt: new Date().toISOString(),
+        };
+        return { path: lockPath, action: 'pulled', pageId: entry.pageId };
+    }
+
+    /**
+     * Title and metadata for a new page, taken from the file's frontmatter
+     */
+    private pageOptionsFromFrontmatter(
+        local: string,
+        lockPath: string,
+        body: string,
+    ): { pageTitle: string; metadata?: { category?: string; tags?: string[]; description?: string; status?: string } } {
+        const frontmatter = extractFrontmatter(local);
+        const first = (key: string): string | undefined => {
+            const value = frontmatter[key];
+            return Array.isArray(value) ? value[0] : value;
+        };
+
+        const metadata: { category?: string; tags?: string[]; description?: string; status?: string } = {};
+        for (const key of ['category', 'description', 'status'] as const) {
+            const value = first(key) ?? (key !== 'description' ? this.defaults[key] : undefined);
+            if (value !== undefined) {
+                metadata[key] = value;
+            }
+        }
+        if (frontmatter.tags !== undefined) {
+            metadata.tags = Array.isArray(frontmatter.tags) ? frontmatter.tags : [frontmatter.tags];
+        }
+
+        return {
+            pageTitle: first('title') ?? extractTitleFromMarkdown(body) ?? basename(lockPath).replace(/\.(md|markdown)$/, ''),
+            metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+        };
+    }
+
+    /**
+     * Record both sides after a push: Notion's export differs from the source, so it is hashed separately
+     */
+    private async recordSync(pageId: string, body: string, filePath: string): Promise<SyncLockEntry> {
+        const { markdown, page } = await this.notionService.exportPageToMarkdown(pageId, { includeMetadata: false }, { markdownPath: filePath });
+
+        return {
+            pageId,
+            localHash: hashMarkdown(body),
+            remoteHash: hashMarkdown(markdown),
+            remoteLastEdited: page.last_edited_time,
+            syncedAt: new Date().toISOString(),
+        };
+    }
+
+    private async readLock(rootDir: string): Promise<SyncLockFile> {
+        const lockFilePath = join(rootDir, SYNC_LOCK_FILE);
+        if (!(await fs.pathExists(lockFilePath))) {
+            return { version: LOCK_FORMAT_VERSION, databaseId: this.databaseId, files: {} };
+        }
+
+        const lock = await fs.readJson(lockFilePath) as SyncLockFile;
+        if (lock.version !== LOCK_FORMAT_VERSION) {
+            throw new Error(`Unsupported ${SYNC_LOCK_FILE} version ${lock.version}`);
+        }
+        if (lock.databaseId.replace(/-/g, '') !== this.databaseId.replace(/-/g, '')) {
+            throw new Error(`${SYNC_LOCK_FILE} belongs to database ${lock.databaseId}, not ${this.databaseId}`);
+        }
+        return lock;
+    }
+
+    private async writeLock(rootDir: string, lock: SyncLockFile): Promise<void> {
+        const lockFilePath = join(rootDir, SYNC_LOCK_FILE);
+        const sorted: SyncLockFile = {
+            ...lock,
+            files: Object.fromEntries(Object.entries(lock.files).sort(([a], [b]) => a.localeCompare(b))),
+        };
+        // Atomic write - a crash mid-sync must not lose the page mapping
+        const tempPath = `${lockFilePath}.tmp`;
+        await fs.writeJson(tempPath, sorted, { spaces: 2 });
+        await fs.move(tempPath, lockFilePath, { overwrite: true });
+    }
+
+    /**
+     * Take the folder's sync guard. Returns the release function.
+     */
+    private async acquireGuard(rootDir: string): Promise<() => Promise<void>> {
+        const guardPath = join(rootDir, SYNC_GUARD_FILE);
+
+        try {
+            const stats = await fs.stat(guardPath);
+            if (Date.now() - stats.mtimeMs > STALE_GUARD_MS) {
+                // Left behind by a crashed sync
+                await fs.remove(guardPath);
+            }
+        } catch {
+            // No guard file
+        }
+
+        try {
+            await fs.writeFile(guardPath, String(process.pid), { flag: 'wx' });
+        } catch {
+            throw new Error(`Another sync is already running for ${rootDir} (remove ${SYNC_GUARD_FILE} if it is stale)`);
+        }
+
+        return async () => {
+            await fs.remove(guardPath);
+        };
+    }
+}
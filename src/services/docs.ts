@@ -0,0 +1,229 @@
+import { isAbsolute, relative, resolve, sep } from 'path';
+import { DocumentInfo, DocumentSearchResult, DocumentSummary, MarkdownDocument } from '../types/index.js';
+import { removeFrontmatter } from '../utils/converters.js';
+import { getMarkdownMetadata, listMarkdownFiles, readMarkdownFile } from '../utils/file-system.js';
+import { MarkdownParser } from '../utils/markdown-parser.js';
+
+/**
+ * Local documentation service for markdown files under a docs root directory
+ */
+export class DocsService {
+    private readonly rootDir: string;
+    private readonly parser: MarkdownParser;
+
+    constructor(rootDir: string) {
+        this.rootDir = resolve(rootDir);
+        this.parser = new MarkdownParser({
+            extractMetadata: true,
+            validateSyntax: false,
+        });
+    }
+
+    getRootDir(): string {
+        return this.rootDir;
+    }
+
+    /**
+     * Convert an absolute file path to a docs-root relative path with forward slashes
+     */
+    getRelativePath(filePath: string): string {
+        return relative(this.rootDir, filePath).split(sep).join('/');
+    }
+
+    /**
+     * Derive category (directory) and name (file name) for a markdown file under the docs root
+     */
+    getDocumentInfo(filePath: string): DocumentInfo {
+        const { category, name } = this.parser.parseDocument('', this.getRelativePath(filePath));
+        return { category, name, path: filePath };
+    }
+
+    /**
+     * List all documents, optionally restricted to a category (and its sub-categories)
+     */
+    async listDocuments(category?: string): Promise<DocumentSummary[]> {
+        const files = await listMarkdownFiles(this.rootDir);
+        const documents: DocumentSummary[] = [];
+
+        for (const filePath of files) {
+            const info = this.getDocumentInfo(filePath);
+
+            if (category !== undefined && category !== '' &&
+                info.category !== category && !info.category.startsWith(`${category}/`)) {
+                continue;
+            }
+
+            const metadata = await getMarkdownMetadata(filePath);
+            documents.push({ ...info, metadata });
+        }
+
+        return documents;
+    }
+
+    /**
+     * List the distinct categories (directories containing markdown files)
+     */
+    async listCategories(): Promise<Array<{ category: string; count: number }>> {
+        const files = await listMarkdownFiles(this.rootDir);
+        const counts = new Map<string, number>();
+
+        for (const filePath of files) {
+            const { category } = this.getDocumentInfo(filePath);
+            counts.set(category, (counts.get(category) ?? 0) + 1);
+        }
+
+        return Array.from(counts.entries())
+            .map(([category, count]) => ({ category, count }))
+            .sort((a, b) => a.category.localeCompare(b.category));
+    }
+
+    /**
+     * Read a document by category and name
+     */
+    async readDocument(category: string, name: string): Promise<MarkdownDocument> {
+        const filePath = await this.resolveDocumentPath(category, name);
+        return this.readDocumentAtPath(filePath);
+    }
+
+    /**
+     * Read a document by its absolute path (must live under the docs root)
+     */
+    async readDocumentAtPath(filePath: string): Promise<MarkdownDocument> {
+        if (!this.isInsideRoot(filePath)) {
+            throw new Error(`Document path is outside the docs root: ${filePath}`);
+        }
+
+        const content = await readMarkdownFile(filePath);
+        const parsed = this.parser.parseDocument(content, this.getRelativePath(filePath));
+        const metadata = await getMarkdownMetadata(filePath);
+
+        return {
+            ...parsed,
+            path: filePath,
+            metadata: {
+                ...parsed.metadata,
+                ...metadata,
+            },
+            lastModified: metadata.lastModified !== undefined ? new Date(metadata.lastModified) : parsed.lastModified,
+        };
+    }
+
+    /**
+     * Search documents by title, tags, headings and body text
+     */
+    async searchDocuments(
+        query: string,
+        options: { category?: string; limit?: number } = {},
+    ): Promise<DocumentSearchResult[]> {
+        const terms = query
+            .toLowerCase()
+            .split(/\s+/)
+            .filter(term => term.length > 0);
+
+        if (terms.length === 0) {
+            return [];
+        }
+
+        const documents = await this.listDocuments(options.category);
+        const results: DocumentSearchResult[] = [];
+
+        for (const document of documents) {
+            const body = removeFrontmatter(await readMarkdownFile(document.path));
+            const content = body.toLowerCase();
+            const title = (document.metadata.title ?? document.name).toLowerCase();
+            const tags = (document.metadata.tags ?? []).map(tag => tag.toLowerCase());
+            const headings = (document.metadata.headings ?? []).map(heading => heading.text.toLowerCase());
+
+            let score = 0;
+            let matchLocation: DocumentSearchResult['matchLocation'] | null = null;
+            const matchedTerms: string[] = [];
+
+            for (const term of terms) {
+                let termMatched = false;
+
+                if (title.includes(term)) {
+                    score += 5;
+                    matchLocation ??= 'title';
+                    termMatched = true;
+                }
+                if (tags.some(tag => tag.includes(term))) {
+                    score += 3;
+                    matchLocation ??= 'tags';
+                    termMatched = true;
+                }
+                if (headings.some(heading => heading.includes(term))) {
+                    score += 2;
+                    matchLocation ??= 'headings';
+                    termMatched = true;
+                }
+
+                const occurrences = content.split(term).length - 1;
+                if (occurrences > 0) {
+                    score += Math.min(occurrences, 10) * 0.5;
+                    matchLocation ??= 'content';
+                    termMatched = true;
+                }
+
+                if (termMatched) {
+                    matchedTerms.push(term);
+                }
+            }
+
+            if (matchLocation === null) {
+                continue;
+            }
+
+            results.push({
+                document,
+                score,
+                matchLocation,
+                matchedTerms,
+                snippet: this.buildSnippet(body, matchedTerms),
+            });
+        }
+
+        results.sort((a, b) => b.score - a.score);
+        return results.slice(0, options.limit ?? 10);
+    }
+
+    /**
+     * Resolve category/name to an existing markdown file inside the docs root
+     */
+    private async resolveDocumentPath(category: string, name: string): Promise<string> {
+        const documents = await this.listDocuments(category);
+        const normalizedName = name.replace(/\.(md|markdown)$/, '');
+        const match = documents.find(doc => doc.category === category && doc.name === normalizedName);
+
+        if (!match) {
+            throw new Error(`Document not found: ${category}/${normalizedName}`);
+        }
+
+        return match.path;
+    }
+
+    private isInsideRoot(filePath: string): boolean {
+        const relativePath = relative(this.rootDir, resolve(filePath));
+        return relativePath !== '' && !relativePath.startsWith('..') && !isAbsolute(relativePath);
+    }
+
+    /**
+     * Build a short snippet around the first matched term in the body text
+     */
+    private buildSnippet(content: string, terms: string[]): string | undefined {
+        const lowerContent = content.toLowerCase();
+
+        for (const term of terms) {
+            const index = lowerContent.indexOf(term);
+            if (index === -1) {
+                continue;
+            }
+
+            const start = Math.max(0, index - 80);
+            const end = Math.min(content.length, index + term.length + 80);
+            const snippet = content.slice(start, end).replace(/\s+/g, ' ').trim();
+            return `${start > 0 ? '...' : ''}${snippet}${end < content.length ? '...' : ''}`;
+        }
+
+        return undefined;
+    }
+}
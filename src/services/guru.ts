@@ -1,5 +1,13 @@
-import fetch, { RequestInit, Response } from 'node-fetch';
 import { GuruAttachment, GuruCard, GuruCredentials, GuruSearchParams, GuruSearchResponse } from '../types/index.js';
+import { getKnowledgeHubConfig } from '../utils/config.js';
+import { NotConfiguredError } from '../utils/errors.js';
+import { HttpClient } from '../utils/http-client.js';
+import { RequestScheduler, getSharedScheduler } from '../utils/request-scheduler.js';
+
+const GURU_SERVICE_NAME = 'Guru API';
+
+// Guru doesn't document a fixed rate; stay well below its burst limits
+const GURU_SCHEDULER_OPTIONS = { requestsPerSecond: 5 };
 
 /**
  * Guru API Service for interacting with Guru's REST API
@@ -7,58 +15,59 @@ import { GuruAttachment, GuruCard, GuruCredentials, GuruSearchParams, GuruSearch
 export class GuruService {
     private readonly baseUrl = 'https://api.getguru.com/api/v1';
     private readonly fileBaseUrl = 'https://content.api.getguru.com';
+    private readonly client: HttpClient;
+
+    constructor(scheduler: RequestScheduler = getSharedScheduler('guru', GURU_SCHEDULER_OPTIONS)) {
+        this.client = new HttpClient({
+            service: GURU_SERVICE_NAME,
+            scheduler,
+            getHeaders: () => this.getAuthHeaders(),
+            authHint: 'Check that GURU_TOKEN ("username:token") holds a current API token with access to this content.',
+            notFoundHint: 'Check the ID - cards in collections the token can\'t see are reported as not found.',
+        });
+    }
 
     /**
- * Get Guru API credentials from environment variables
- * Expects GURU_TOKEN in format "username:token" or "collection_id:token"
+ * Get Guru API credentials from the configuration (sources.guru.token or GURU_TOKEN)
+ * Expects the token in format "username:token" or "collection_id:token"
  */
     private getCredentials(): GuruCredentials | null {
-        const guruToken = process.env.GURU_TOKEN;
+        const { enabled, token: guruToken } = getKnowledgeHubConfig().sources.guru;
+        if (!enabled) {
+            throw new NotConfiguredError(GURU_SERVICE_NAME, 'disabled in the configuration file.', 'Set sources.guru.enabled to true in knowledge-hub.config to use Guru.');
+        }
 
         if (guruToken === null || guruToken === undefined || guruToken.length === 0) {
             return null;
         }
 
         if (!guruToken.includes(':')) {
-            throw new Error('GURU_TOKEN must be in format "username:token" or "collection_id:token"');
+            throw new NotConfiguredError(GURU_SERVICE_NAME, 'GURU_TOKEN must be in format "username:token" or "collection_id:token".');
         }
 
         const [username, token] = guruToken.split(':', 2);
 
         if (!username || !token) {
-            throw new Error('Invalid GURU_TOKEN format. Expected "username:token" or "collection_id:token"');
+            throw new NotConfiguredError(GURU_SERVICE_NAME, 'invalid GURU_TOKEN format. Expected "username:token" or "collection_id:token".');
         }
 
         return { username, token };
     }
 
     /**
-     * Make authenticated request to Guru API
+     * Basic auth header from GURU_TOKEN
      */
-    private async makeRequest<T = unknown>(url: string, options: RequestInit = {}): Promise<T> {
+    private getAuthHeaders(): Record<string, string> {
         const credentials = this.getCredentials();
         if (!credentials) {
-            throw new Error('GURU_TOKEN environment variable is required');
+            throw new NotConfiguredError(
+                GURU_SERVICE_NAME,
+                'GURU_TOKEN environment variable is required.',
+                'To use Guru tools, set GURU_TOKEN in format "username:token" in your MCP configuration.',
+            );
         }
         const { username, token } = credentials;
-        const auth = Buffer.from(`${username}:${token}`).toString('base64');
-
-        const response: Response = await fetch(url, {
-            ...options,
-            headers: {
-                'Authorization': `Basic ${auth}`,
-                'Content-Type': 'application/json',
-                ...(options.headers ?? {}),
-            },
-        });
-
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`Guru API error (${response.status}): ${errorText}`);
-        }
-
-        const jsonResponse = await response.json() as T;
-        return jsonResponse;
+        return { 'Authorization': `Basic ${Buffer.from(`${username}:${token}`).toString('base64')}` };
     }
 
     /**
@@ -87,7 +96,7 @@ export class GuruService {
         }
 
         const url = `${this.baseUrl}/search/query?${queryParams.toString()}`;
-        return this.makeRequest<GuruSearchResponse>(url);
+        return this.client.requestJson<GuruSearchResponse>(url);
     }
 
     /**
@@ -95,7 +104,7 @@ export class GuruService {
      */
     async getCard(cardId: string): Promise<GuruCard> {
         const url = `${this.baseUrl}/cards/${cardId}`;
-        return this.makeRequest<GuruCard>(url);
+        return this.client.requestJson<GuruCard>(url);
     }
 
     /**
@@ -120,26 +129,7 @@ export class GuruService {
      * Download attachment by file ID
      */
     async downloadAttachment(fileId: string): Promise<Buffer> {
-        const credentials = this.getCredentials();
-        if (!credentials) {
-            throw new Error('GURU_TOKEN environment variable is required');
-        }
-        const { username, token } = credentials;
-        const auth = Buffer.from(`${username}:${token}`).toString('base64');
-
-        const url = `${this.fileBaseUrl}/files/view/${fileId}`;
-        const response = await fetch(url, {
-            headers: {
-                'Authorization': `Basic ${auth}`,
-            },
-        });
-
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`Failed to download attachment (${response.status}): ${errorText}`);
-        }
-
-        return Buffer.from(await response.arrayBuffer());
+        return this.client.requestBuffer(`${this.fileBaseUrl}/files/view/${fileId}`);
     }
 
     /**
@@ -2,5 +2,14 @@
  * Services barrel exports
  */
 
+export * from './docs.js';
 export * from './guru.js';
 export * from './notion.js';
+export * from './knowledge-search.js';
+export * from './notion-index.js';
+export * from './docs-sync.js';
+export * from './notion-uploads.js';
+export * from './notion-assets.js';
+export * from './notion-link-map.js';
+export * from './notion-write-journal.js';
+export * from './notion-databases.js';
@@ -0,0 +1,317 @@
+import { DocsService } from './docs.js';
+import { GuruService } from './guru.js';
+import { NotionService } from './notion.js';
+import { GuruCard } from '../types/index.js';
+import {
+    EnhancedSearchResult,
+    KnowledgeSearchHit,
+    KnowledgeSearchResponse,
+    KnowledgeSource,
+    KnowledgeSourceStatus,
+    KnowledgeTrustState,
+} from '../types/search.js';
+import { extractPageTitle } from '../utils/converters.js';
+
+// Reciprocal rank fusion constant - scores from different sources are not comparable, ranks are
+const RRF_K = 60;
+
+// Titles sharing at least this fraction of words are treated as the same document
+const DUPLICATE_TITLE_SIMILARITY = 0.8;
+
+const SNIPPET_LENGTH = 200;
+
+export interface KnowledgeSearchSources {
+    guru?: GuruService;
+    // One entry per Notion database, by profile alias
+    notion?: Array<{ alias: string; service: NotionService; databaseId: string }>;
+    // Requested Notion databases that couldn't be used, reported in the Notion status
+    notionProblems?: string[];
+    docs?: DocsService;
+}
+
+type SourceHit = Omit<KnowledgeSearchHit, 'score' | 'duplicates'>;
+
+/**
+ * Fans a query out to Guru, Notion and local docs and merges the hits into one ranked list
+ */
+export class KnowledgeSearchService {
+    private readonly sources: KnowledgeSearchSources;
+
+    constructor(sources: KnowledgeSearchSources) {
+        this.sources = sources;
+    }
+
+    /**
+     * Search every configured source in parallel. A failing source is reported, not thrown.
+     */
+    async search(
+        query: string,
+        options: { limit?: number; sources?: KnowledgeSource[] } = {},
+    ): Promise<KnowledgeSearchResponse> {
+        const limit = options.limit ?? 10;
+        const requested = options.sources ?? ['guru', 'notion', 'docs'];
+        // Failures of single Notion databases while others answered
+        const notionFailures: string[] = [...this.sources.notionProblems ?? []];
+
+        const searches: Record<KnowledgeSource, (() => Promise<SourceHit[]>) | undefined> = {
+            guru: this.sources.guru ? (): Promise<SourceHit[]> => this.searchGuru(query, limit) : undefined,
+            notion: (this.sources.notion?.length ?? 0) > 0 || notionFailures.length > 0 ? (): Promise<SourceHit[]> => this.searchNotion(query, limit, notionFailures) : undefined,
+            docs: this.sources.docs ? (): Promise<SourceHit[]> => this.searchDocs(query, limit) : undefined,
+        };
+
+        const outcomes = await Promise.all(requested.map(async (source): Promise<{ status: KnowledgeSourceStatus; hits: SourceHit[] }> => {
+            const run = searches[source];
+            if (run === undefined) {
+                return { status: { source, status: 'skipped', resultCount: 0 }, hits: [] };
+            }
+
+            const startTime = Date.now();
+            try {
+                const hits = await run();
+                const partialError = source === 'notion' && notionFailures.length > 0 ? notionFailures.join('; ') : undefined;
+                return {
+                    status: { source, status: 'ok', resultCount: hits.length, executionTime: Date.now() - startTime, error: partialError },
+                    hits,
+                };
+            } catch (error) {
+                return {
+                    status: {
+                        source,
+                        status: 'error',
+                        resultCount: 0,
+                        error: error instanceof Error ? error.message : String(error),
+                        executionTime: Date.now() - startTime,
+                    },
+                    hits: [],
+                };
+            }
+        }));
+
+        const scored = outcomes.flatMap(outcome =>
+            outcome.hits.map((hit, rank) => ({ ...hit, score: this.scoreHit(hit, rank, query), duplicates: [] })),
+        );
+        const { results, duplicatesMerged } = this.mergeDuplicates(scored);
+
+        return {
+            query,
+            results: results.sort((a, b) => b.score - a.score).slice(0, limit),
+            sources: outcomes.map(outcome => outcome.status),
+            duplicatesMerged,
+        };
+    }
+
+    private async searchGuru(query: string, limit: number): Promise<SourceHit[]> {
+        const response: unknown = await this.sources.guru!.searchCards({ searchTerms: query, maxResults: Math.min(limit, 50) });
+
+        // Guru returns a bare array from /search/query, older responses wrap it in { results }
+        const cards = (Array.isArray(response) ? response : (response as { results?: unknown[] }).results ?? []) as Array<GuruCard & { preferredPhrase?: string }>;
+
+        return cards.map(card => ({
+            source: 'guru' as const,
+            id: card.id,
+            title: card.preferredPhrase ?? card.title ?? 'Untitled',
+            snippet: this.truncate((card.content ?? '').replace(/<[^>]*>/g, ' ')),
+            lastModified: card.lastModified,
+            trust: this.mapGuruTrust(card.verificationState),
+        }));
+    }
+
+    /**
+     * Search every Notion database; hits are tagged with their database and interleaved by rank,
+     * so each database's best matches rank alike. Fails only when every database fails or none could
+     * be used; otherwise the failed databases are added to failures.
+     */
+    private async searchNotion(query: string, limit: number, failures: string[]): Promise<SourceHit[]> {
+        const databases = this.sources.notion ?? [];
+        if (databases.length === 0) {
+            throw new Error(failures.join('; '));
+        }
+        const outcomes = await Promise.allSettled(databases.map(database => this.searchNotionDatabase(database, query, limit)));
+
+        const failed = outcomes.filter((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+        if (failed.length === outcomes.length) {
+            throw failed[0].reason;
+        }
+        outcomes.forEach((outcome, index) => {
+            if (outcome.status === 'rejected') {
+                const reason: unknown = outcome.reason;
+                failures.push(`${databases[index].alias}: ${reason instanceof Error ? reason.message : String(reason)}`);
+            }
+        });
+
+        const hitLists = outcomes.map(outcome => outcome.status === 'fulfilled' ? outcome.value : []);
+        const hits: SourceHit[] = [];
+        for (let rank = 0; rank < Math.max(...hitLists.map(list => list.length)); rank++) {
+            for (const list of hitLists) {
+                if (rank < list.length) {
+                    hits.push(list[rank]);
+                }
+            }
+        }
+        return hits;
+    }
+
+    private async searchNotionDatabase(
+        database: { alias: string; service: NotionService; databaseId: string },
+        query: string,
+        limit: number,
+    ): Promise<SourceHit[]> {
+        const response = await database.service.searchPagesWithMetadata(database.databaseId, {
+            search: query,
+            searchMode: 'combined',
+            // Page bodies as already indexed - syncing every database would stall cross-source searches
+            syncIndex: false,
+            limit,
+        });
+
+        return response.results.map((result: EnhancedSearchResult) => {
+            const { page, metadata } = result;
+            const description = this.getNotionText(page.properties.Description, 'rich_text');
+            const status = this.getNotionText(page.properties.Status, 'select');
+
+            return {
+                source: 'notion' as const,
+                id: page.id,
+                title: extractPageTitle(page),
+                snippet: description !== ''
+                    ? this.truncate(description)
+                    : `Matched in ${metadata.matchLocation}${metadata.matchedTerms.length > 0 ? ` (${metadata.matchedTerms.join(', ')})` : ''}`,
+                lastModified: page.last_edited_time,
+                trust: this.mapNotionTrust(status),
+                url: page.url,
+                database: database.alias,
+            };
+        });
+    }
+
+    private async searchDocs(query: string, limit: number): Promise<SourceHit[]> {
+        const results = await this.sources.docs!.searchDocuments(query, { limit });
+
+        return results.map(result => ({
+            source: 'docs' as const,
+            id: `${result.document.category}/${result.document.name}`,
+            title: result.document.metadata.title ?? result.document.name,
+            snippet: this.truncate(result.snippet ?? result.document.metadata.description ?? ''),
+            lastModified: result.document.metadata.lastModified,
+            // Local docs are reviewed through version control
+            trust: 'unknown' as const,
+        }));
+    }
+
+    /**
+     * Rank-based score with boosts for title matches and verified content
+     */
+    private scoreHit(hit: SourceHit, rank: number, query: string): number {
+        let score = 100 / (RRF_K + rank + 1);
+
+        if (hit.title.toLowerCase().includes(query.toLowerCase().trim())) {
+            score *= 1.5;
+        }
+
+        if (hit.trust === 'verified') {
+            score *= 1.2;
+        } else if (hit.trust === 'needs-verification') {
+            score *= 0.9;
+        }
+
+        return score;
+    }
+
+    /**
+     * Collapse hits from different sources with near-identical titles, keeping the best-scored one
+     * Being found in several sources counts as a small relevance boost. Hits of one source are
+     * different documents, however similar their titles.
+     */
+    private mergeDuplicates(hits: KnowledgeSearchHit[]): { results: KnowledgeSearchHit[]; duplicatesMerged: number } {
+        const results: KnowledgeSearchHit[] = [];
+        let duplicatesMerged = 0;
+
+        for (const hit of [...hits].sort((a, b) => b.score - a.score)) {
+            const existing = results.find(candidate =>
+                candidate.source !== hit.source &&
+                !candidate.duplicates.some(duplicate => duplicate.source === hit.source) &&
+                this.isSameTitle(candidate.title, hit.title),
+            );
+            if (existing) {
+                existing.duplicates.push({ source: hit.source, id: hit.id });
+                existing.score += hit.score * 0.25;
+                duplicatesMerged++;
+                continue;
+            }
+            results.push(hit);
+        }
+
+        return { results, duplicatesMerged };
+    }
+
+    private isSameTitle(a: string, b: string): boolean {
+        const tokensA = this.titleTokens(a);
+        const tokensB = this.titleTokens(b);
+        if (tokensA.size === 0 || tokensB.size === 0) {
+            return false;
+        }
+
+        const shared = Array.from(tokensA).filter(token => tokensB.has(token)).length;
+        const union = new Set([...tokensA, ...tokensB]).size;
+        return shared / union >= DUPLICATE_TITLE_SIMILARITY;
+    }
+
+    private titleTokens(title: string): Set<string> {
+        return new Set(
+            title
+                .toLowerCase()
+                .replace(/[^a-z0-9\s]/g, ' ')
+                .split(/\s+/)
+                .filter(token => token.length > 0),
+        );
+    }
+
+    private mapGuruTrust(state: string | undefined): KnowledgeTrustState {
+        switch (state) {
+            case 'TRUSTED':
+                return 'verified';
+            case 'NEEDS_VERIFICATION':
+                return 'needs-verification';
+            case 'UNVERIFIED':
+                return 'unverified';
+            default:
+                return 'unknown';
+        }
+    }
+
+    private mapNotionTrust(status: string): KnowledgeTrustState {
+        const normalized = status.toLowerCase();
+        // Negated and pending states first - "Unverified" or "Not approved" mustn't count as verified, "Reviewed" does
+        if (/\b(in|under|pending|ready[\s-]*for)[\s-]*review\b|needs?[\s-]*(verification|review)|outdated|stale|expired/.test(normalized)) {
+            return 'needs-verification';
+        }
+        if (/\b(un|not[\s-]*|non-?)(verified|published|approved|reviewed)\b|draft|rejected/.test(normalized)) {
+            return 'unverified';
+        }
+        if (/\b(verified|published|approved|reviewed)\b/.test(normalized)) {
+            return 'verified';
+        }
+        return 'unknown';
+    }
+
+    private getNotionText(property: unknown, type: 'rich_text' | 'select'): string {
+        if (property === undefined || property === null || typeof property !== 'object' || !(type in property)) {
+            return '';
+        }
+
+        if (type === 'select') {
+            const select = (property as { select?: { name?: string } | null }).select;
+            return select?.name ?? '';
+        }
+
+        const richText = (property as { rich_text?: Array<{ plain_text?: string; text?: { content: string } }> }).rich_text;
+        return Array.isArray(richText)
+            ? richText.map(part => part.plain_text ?? part.text?.content ?? '').join('')
+            : '';
+    }
+
+    private truncate(text: string): string {
+        const collapsed = text.replace(/\s+/g, ' ').trim();
+        return collapsed.length > SNIPPET_LENGTH ? `${collapsed.substring(0, SNIPPET_LENGTH)}...` : collapsed;
+    }
+}
@@ -0,0 +1,198 @@
+/**
+ * Assets of exported pages: Notion-hosted images and files downloaded next to the saved markdown
+ * Notion's file URLs expire after an hour, so saved exports link local copies instead. A manifest
+ * records the block each file came from, so re-importing the markdown can keep those blocks.
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs-extra';
+import { basename, dirname, extname, join } from 'path';
+import { NotionBlock, NotionRichText } from '../types/notion.js';
+
+// Folder next to the saved markdown that holds its assets
+export const ASSETS_DIRECTORY = 'assets';
+
+const MANIFEST_FILE = 'manifest.json';
+
+const MANIFEST_FORMAT_VERSION = 1;
+
+const ASSET_BLOCK_TYPES = new Set(['image', 'file', 'pdf', 'video', 'audio']);
+
+const DOWNLOAD_TIMEOUT_MS = 60000;
+
+export interface AssetManifestEntry {
+    blockId: string;
+    pageId: string;
+    type: string;
+    // Notion file URL without the expiring signature
+    sourceUrl: string;
+    sha256: string;
+    size: number;
+    downloadedAt: string;
+}
+
+interface AssetManifest {
+    version: number;
+    // By file name within the assets folder
+    assets: Record<string, AssetManifestEntry>;
+}
+
+export interface ExportedAsset {
+    blockId: string;
+    type: string;
+    // Link written to the markdown, relative to the markdown file
+    path: string;
+    // false when the file from an earlier export was still current
+    downloaded: boolean;
+}
+
+type AssetBlock = NotionBlock & { children?: AssetBlock[] };
+
+type HostedFileData = { type?: string; file?: { url?: string }; caption?: NotionRichText[]; name?: string };
+
+/**
+ * Download the Notion-hosted files of a page's blocks (nested children included) into the assets folder
+ * next to markdownPath, and point the blocks at the local copies. Files whose source is unchanged since
+ * the last export aren't downloaded again. Blocks that fail to download keep their URL, with a warning.
+ */
+export async function downloadPageAssets(
+    blocks: NotionBlock[],
+    pageId: string,
+    markdownPath: string,
+    warnings: string[],
+): Promise<ExportedAsset[]> {
+    const assetsPath = join(dirname(markdownPath), ASSETS_DIRECTORY);
+    const manifest = await loadManifest(assetsPath);
+    const assets: ExportedAsset[] = [];
+    let manifestChanged = false;
+
+    for (const block of flattenBlocks(blocks as AssetBlock[])) {
+        const data = block[block.type] as HostedFileData | undefined;
+        const url = data?.file?.url;
+        if (!ASSET_BLOCK_TYPES.has(block.type) || data?.type !== 'file' || url === undefined) {
+            continue;
+        }
+
+        const sourceUrl = url.split('?')[0];
+        try {
+            const fileName = await chooseFileName(assetsPath, manifest, block.id, sourceUrl);
+            const previous = manifest.assets[fileName] as AssetManifestEntry | undefined;
+            const current = previous?.blockId === block.id && previous.sourceUrl === sourceUrl && await fs.pathExists(join(assetsPath, fileName));
+
+            if (!current) {
+                const content = await downloadFile(url);
+                await fs.ensureDir(assetsPath);
+                await fs.writeFile(join(assetsPath, fileName), content);
+                manifest.assets[fileName] = {
+                    blockId: block.id,
+                    pageId,
+                    type: block.type,
+                    sourceUrl,
+                    sha256: createHash('sha256').update(content).digest('hex'),
+                    size: content.length,
+                    downloadedAt: new Date().toISOString(),
+                };
+                manifestChanged = true;
+            }
+
+            const path = `${ASSETS_DIRECTORY}/${encodeURIComponent(fileName)}`;
+            block[block.type] = {
+                caption: data.caption ?? [],
+                ...(data.name !== undefined ? { name: data.name } : {}),
+                type: 'local_file',
+                local_file: { path },
+            };
+            assets.push({ blockId: block.id, type: block.type, path, downloaded: !current });
+        } catch (error) {
+            warnings.push(`Could not download ${block.type} block ${block.id}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    // Files of this page's blocks that are gone were left over from an earlier export
+    const exportedIds = new Set(flattenBlocks(blocks as AssetBlock[]).map(block => block.id));
+    for (const [fileName, entry] of Object.entries(manifest.assets)) {
+        if (entry.pageId === pageId && !exportedIds.has(entry.blockId)) {
+            await fs.remove(join(assetsPath, fileName));
+            delete manifest.assets[fileName];
+            manifestChanged = true;
+        }
+    }
+
+    if (manifestChanged) {
+        await saveManifest(assetsPath, manifest);
+    }
+
+    return assets;
+}
+
+/**
+ * The manifest entry of an exported asset, if the file is still the one downloaded from that block
+ */
+export async function findExportedAsset(filePath: string): Promise<AssetManifestEntry | undefined> {
+    const manifest = await loadManifest(dirname(filePath));
+    const entry = manifest.assets[basename(filePath)] as AssetManifestEntry | undefined;
+    if (entry === undefined) {
+        return undefined;
+    }
+
+    const content = await fs.readFile(filePath);
+    return createHash('sha256').update(content).digest('hex') === entry.sha256 ? entry : undefined;
+}
+
+function flattenBlocks(blocks: AssetBlock[]): AssetBlock[] {
+    return blocks.flatMap(block => [block, ...flattenBlocks(block.children ?? [])]);
+}
+
+/**
+ * File name for a block's asset: the one from an earlier export, else the source file name,
+ * suffixed with the block ID when another block's asset (or a file the exporter didn't write) already has it
+ */
+async function chooseFileName(assetsPath: string, manifest: AssetManifest, blockId: string, sourceUrl: string): Promise<string> {
+    const previous = Object.entries(manifest.assets).find(([, entry]) => entry.blockId === blockId);
+    if (previous !== undefined) {
+        return previous[0];
+    }
+
+    const sourceName = decodeURIComponent(sourceUrl.split('/').pop() ?? '').replace(/[^\w.-]+/g, '-').replace(/^[-.]+/, '');
+    const fileName = sourceName !== '' ? sourceName : 'file';
+    if (!(fileName in manifest.assets) && fileName !== MANIFEST_FILE && !await fs.pathExists(join(assetsPath, fileName))) {
+        return fileName;
+    }
+
+    const extension = extname(fileName);
+    return `${fileName.substring(0, fileName.length - extension.length)}-${blockId.replace(/-/g, '').substring(0, 8)}${extension}`;
+}
+
+async function downloadFile(url: string): Promise<Buffer> {
+    const response = await fetch(url, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+    if (!response.ok) {
+        throw new Error(`download failed with HTTP ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+}
+
+async function loadManifest(assetsPath: string): Promise<AssetManifest> {
+    try {
+        const manifestPath = join(assetsPath, MANIFEST_FILE);
+        if (await fs.pathExists(manifestPath)) {
+            const data = await fs.readJson(manifestPath) as AssetManifest;
+            if (data.version === MANIFEST_FORMAT_VERSION) {
+                return data;
+            }
+        }
+    } catch {
+        // Unreadable manifest - assets are downloaded again and the manifest rewritten
+    }
+    return { version: MANIFEST_FORMAT_VERSION, assets: {} };
+}
+
+/**
+ * Write the manifest (atomically, via a temp file)
+ */
+async function saveManifest(assetsPath: string, manifest: AssetManifest): Promise<void> {
+    await fs.ensureDir(assetsPath);
+    const manifestPath = join(assetsPath, MANIFEST_FILE);
+    const tempPath = `${manifestPath}.tmp`;
+    await fs.writeJson(tempPath, manifest, { spaces: 2 });
+    await fs.move(tempPath, manifestPath, { overwrite: true });
+}
@@ -0,0 +1,184 @@
+/**
+ * Named Notion database profiles
+ * Profiles come from sources.notion.databases in the config file (or NOTION_DATABASES, a JSON object by alias);
+ * the Notion token and database ID (NOTION_TOKEN, NOTION_MCP_DATABASE_ID) stay supported as the "default"
+ * profile. Profiles sharing a token share one NotionService, since Notion's rate limit applies per integration.
+ */
+
+import { NotionDatabaseProfile } from '../types/notion.js';
+import { KnowledgeHubConfig, getKnowledgeHubConfig } from '../utils/config.js';
+import { NotConfiguredError } from '../utils/errors.js';
+import { getSharedScheduler } from '../utils/request-scheduler.js';
+import { NotionService } from './notion.js';
+
+export const DEFAULT_DATABASE_ALIAS = 'default';
+
+const ALIAS_PATTERN = /^[\w-]+$/;
+
+export interface NotionDatabaseTarget {
+    profile: NotionDatabaseProfile;
+    service: NotionService;
+    databaseId: string;
+}
+
+export class NotionDatabaseRegistry {
+    private readonly profiles = new Map<string, NotionDatabaseProfile>();
+    private readonly defaultAlias?: string;
+    // Configuration entries that were skipped, with the reason
+    private readonly problems: string[];
+    // Notion is turned off in the config file
+    private readonly disabled: boolean;
+    // By token
+    private readonly services = new Map<string, NotionService>();
+
+    constructor(profiles: NotionDatabaseProfile[], options: { defaultAlias?: string; problems?: string[]; disabled?: boolean } = {}) {
+        for (const profile of profiles) {
+            this.profiles.set(profile.alias, profile);
+        }
+        this.problems = options.problems ?? [];
+        this.disabled = options.disabled ?? false;
+
+        const defaultAlias = options.defaultAlias ?? DEFAULT_DATABASE_ALIAS;
+        this.defaultAlias = this.profiles.has(defaultAlias) ? defaultAlias : profiles[0]?.alias;
+        if (options.defaultAlias !== undefined && !this.profiles.has(options.defaultAlias)) {
+            this.problems.push(`Default database "${options.defaultAlias}" is not a configured profile`);
+        }
+    }
+
+    /**
+     * Profiles of the configured databases, plus the Notion token and database ID as the "default" profile
+     * defaultDatabase (NOTION_DEFAULT_DATABASE) picks the profile used when a tool call names none.
+     */
+    static fromConfig(config: KnowledgeHubConfig = getKnowledgeHubConfig(), env: NodeJS.ProcessEnv = process.env): NotionDatabaseRegistry {
+        const notion = config.sources.notion;
+        if (!notion.enabled) {
+            return new NotionDatabaseRegistry([], { disabled: true });
+        }
+
+        const profiles: NotionDatabaseProfile[] = [];
+        const problems: string[] = [];
+
+        for (const [alias, database] of Object.entries(notion.databases)) {
+            if (!ALIAS_PATTERN.test(alias)) {
+                problems.push(`Database "${alias}": aliases may only contain letters, digits, "-" and "_"`);
+                continue;
+            }
+            const token = database.tokenEnv !== undefined ? nonEmpty(env[database.tokenEnv]) : nonEmpty(database.token) ?? notion.token;
+            if (token === undefined) {
+                problems.push(`Database "${alias}": no token (${database.tokenEnv !== undefined ? `${database.tokenEnv} is not set` : 'set token, tokenEnv or the Notion token'})`);
+                continue;
+            }
+            profiles.push({
+                alias,
+                token,
+                databaseId: nonEmpty(database.databaseId),
+                description: database.description,
+                defaultCategory: database.defaultCategory,
+                defaultStatus: database.defaultStatus,
+            });
+        }
+
+        if (notion.token !== undefined && !profiles.some(profile => profile.alias === DEFAULT_DATABASE_ALIAS)) {
+            profiles.unshift({
+                alias: DEFAULT_DATABASE_ALIAS,
+                token: notion.token,
+                databaseId: notion.databaseId,
+                description: 'Notion token / database ID (NOTION_TOKEN / NOTION_MCP_DATABASE_ID)',
+            });
+        }
+
+        return new NotionDatabaseRegistry(profiles, { defaultAlias: notion.defaultDatabase, problems });
+    }
+
+    list(): NotionDatabaseProfile[] {
+        return [...this.profiles.values()];
+    }
+
+    getDefaultAlias(): string | undefined {
+        return this.defaultAlias;
+    }
+
+    getProblems(): string[] {
+        return [...this.problems];
+    }
+
+    /**
+     * Profile by alias, or the default profile
+     */
+    getProfile(alias?: string): NotionDatabaseProfile {
+        if (this.disabled) {
+            throw new NotConfiguredError('Notion API', 'disabled in the configuration file.', 'Set sources.notion.enabled to true in knowledge-hub.config to use Notion.');
+        }
+        const name = alias ?? this.defaultAlias;
+        if (name === undefined) {
+            throw new NotConfiguredError(
+                'Notion API',
+                'NOTION_TOKEN environment variable is required.',
+                'To use Notion tools, set NOTION_TOKEN and NOTION_MCP_DATABASE_ID (or sources.notion in knowledge-hub.config) in your MCP configuration.',
+            );
+        }
+
+        const profile = this.profiles.get(name);
+        if (profile === undefined) {
+            throw new NotConfiguredError(
+                'Notion API',
+                `no database named "${name}".`,
+                `Configured databases: ${this.list().map(candidate => candidate.alias).join(', ')}. Use list-databases to see them.`,
+            );
+        }
+        return profile;
+    }
+
+    /**
+     * Service for the workspace of a profile (pages are addressed by ID, so no database is needed)
+     */
+    getService(alias?: string): NotionService {
+        return this.serviceFor(this.getProfile(alias));
+    }
+
+    /**
+     * Service and database ID of a profile
+     */
+    getDatabase(alias?: string): NotionDatabaseTarget {
+        const profile = this.getProfile(alias);
+        if (profile.databaseId === undefined) {
+            throw profile.alias === DEFAULT_DATABASE_ALIAS
+                ? new NotConfiguredError(
+                    'Notion database',
+                    'NOTION_MCP_DATABASE_ID environment variable is required.',
+                    'To use Notion tools, set NOTION_MCP_DATABASE_ID in your MCP configuration.',
+                )
+                : new NotConfiguredError('Notion database', `database "${profile.alias}" has no databaseId.`, 'Add a databaseId to its entry in NOTION_DATABASES.');
+        }
+        return { profile, service: this.serviceFor(profile), databaseId: profile.databaseId };
+    }
+
+    /**
+     * The named databases, or every profile with a database
+     */
+    getDatabases(aliases?: string[]): NotionDatabaseTarget[] {
+        if (aliases !== undefined) {
+            return aliases.map(alias => this.getDatabase(alias));
+        }
+        return this.list()
+            .filter(profile => profile.databaseId !== undefined)
+            .map(profile => this.getDatabase(profile.alias));
+    }
+
+    private serviceFor(profile: NotionDatabaseProfile): NotionService {
+        let service = this.services.get(profile.token);
+        if (service === undefined) {
+            // The default token keeps the "notion" scheduler; other workspaces get their own
+            const defaultToken = this.defaultAlias !== undefined ? this.profiles.get(this.defaultAlias)?.token : undefined;
+            service = profile.token === defaultToken
+                ? new NotionService({ token: profile.token })
+                : new NotionService({ token: profile.token }, getSharedScheduler(`notion:${profile.alias}`));
+            this.services.set(profile.token, service);
+        }
+        return service;
+    }
+}
+
+function nonEmpty(value: string | undefined): string | undefined {
+    return value !== undefined && value.trim() !== '' ? value.trim() : undefined;
+}
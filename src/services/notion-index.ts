@@ -0,0 +1,312 @@
+import { join } from 'path';
+import type { NotionService } from './notion.js';
+import { NotionPage } from '../types/notion.js';
+import { getKnowledgeHubConfig } from '../utils/config.js';
+import { extractPageTitle } from '../utils/converters.js';
+import { EmbeddingProvider, createEmbeddingProvider } from '../utils/embeddings.js';
+import { IndexedDocument, SearchIndex, SearchIndexHit, splitMarkdownSections } from '../utils/search-index.js';
+import { SemanticHit, SemanticIndex, chunkMarkdownByHeading } from '../utils/semantic-index.js';
+
+// Don't re-list the database more often than this between searches
+const SYNC_INTERVAL_MS = 60_000;
+
+// Parallel page exports while syncing
+const SYNC_CONCURRENCY = 4;
+
+// Semantic hits below this cosine similarity are noise
+const SEMANTIC_MIN_SCORE = 0.1;
+
+export interface NotionIndexSyncResult {
+    added: number;
+    updated: number;
+    removed: number;
+    unchanged: number;
+    failed: number;
+}
+
+export interface NotionIndexFilters {
+    category?: string;
+    tags?: string[];
+    status?: string;
+}
+
+/**
+ * Directory for persisted search indexes (search.indexDir in the config file, or NOTION_SEARCH_INDEX_DIR)
+ */
+export function getSearchIndexDir(): string {
+    return getKnowledgeHubConfig().search.indexDir;
+}
+
+/**
+ * Full-text (and, once requested, semantic) index over the markdown bodies of one Notion database
+ * Pages are re-exported only when their last_edited_time changes
+ */
+export class NotionSearchIndex {
+    private readonly notionService: NotionService;
+    private readonly databaseId: string;
+    private readonly indexPath: string;
+    private index?: SearchIndex<NotionPage>;
+    private indexLoading?: Promise<SearchIndex<NotionPage>>;
+    private semantic?: { index: SemanticIndex<NotionPage>; provider: EmbeddingProvider };
+    private semanticLoading?: Promise<void>;
+    private lastSyncedAt = 0;
+    private syncInProgress?: Promise<NotionIndexSyncResult>;
+
+    constructor(notionService: NotionService, databaseId: string, indexDir = getSearchIndexDir()) {
+        this.notionService = notionService;
+        this.databaseId = databaseId;
+        this.indexPath = join(indexDir, `notion-index-${databaseId.replace(/-/g, '')}.json`);
+    }
+
+    getIndexPath(): string {
+        return this.indexPath;
+    }
+
+    /**
+     * Bring the index up to date with the database (skipped if synced recently unless forced)
+     */
+    async sync(options: { force?: boolean } = {}): Promise<NotionIndexSyncResult> {
+        if (this.syncInProgress) {
+            return this.syncInProgress;
+        }
+
+        if (options.force !== true && Date.now() - this.lastSyncedAt < SYNC_INTERVAL_MS) {
+            return { added: 0, updated: 0, removed: 0, unchanged: this.index?.size ?? 0, failed: 0 };
+        }
+
+        this.syncInProgress = this.runSync().finally(() => {
+            this.syncInProgress = undefined;
+        });
+        return this.syncInProgress;
+    }
+
+    /**
+     * Search page bodies as indexed so far. A sync runs in the background (unless sync is false), so
+     * recent edits show up in later searches - a fresh index has no body matches until its first sync finishes.
+     */
+    async search(
+        query: string,
+        options: { limit?: number; filters?: NotionIndexFilters; sync?: boolean } = {},
+    ): Promise<Array<{ page: NotionPage; hit: SearchIndexHit }>> {
+        if (options.sync !== false) {
+            this.syncInBackground();
+        }
+        const index = await this.getIndex();
+
+        const hits = index.search(query, {
+            limit: options.limit,
+            filter: (document) => document.metadata === undefined || this.matchesFilters(document.metadata, options.filters),
+        });
+
+        return hits.flatMap(hit => {
+            const page = index.getDocument(hit.id)?.metadata;
+            return page ? [{ page, hit }] : [];
+        });
+    }
+
+    /**
+     * Search page bodies by meaning, as embedded so far. The semantic index is built in the background
+     * from the first use on.
+     */
+    async semanticSearch(
+        query: string,
+        options: { limit?: number; filters?: NotionIndexFilters } = {},
+    ): Promise<Array<{ page: NotionPage; hit: SemanticHit }>> {
+        await this.enableSemantic();
+        this.syncInBackground();
+
+        const { index, provider } = this.semantic!;
+        const [queryVector] = await provider.embed([query]);
+        const hits = index.search(queryVector, {
+            limit: options.limit,
+            minScore: SEMANTIC_MIN_SCORE,
+            filter: (document) => document.metadata === undefined || this.matchesFilters(document.metadata, options.filters),
+        });
+
+        return hits.flatMap(hit => {
+            const page = index.getDocument(hit.id)?.metadata;
+            return page ? [{ page, hit }] : [];
+        });
+    }
+
+    /**
+     * Start a sync without waiting for it - exporting a whole database can take minutes
+     */
+    private syncInBackground(): void {
+        this.sync().catch(() => {
+            // Listing the database failed - retried on the next search
+        });
+    }
+
+    /**
+     * Load the semantic index and make the next sync embed any missing pages
+     */
+    private async enableSemantic(): Promise<void> {
+        if (this.semantic) {
+            return;
+        }
+
+        this.semanticLoading ??= (async (): Promise<void> => {
+            const provider = await createEmbeddingProvider();
+            const index = await SemanticIndex.load<NotionPage>(this.indexPath.replace(/\.json$/, '.vectors.json'), provider.id);
+            this.semantic = { index, provider };
+            this.lastSyncedAt = 0;
+        })().finally(() => {
+            this.semanticLoading = undefined;
+        });
+
+        await this.semanticLoading;
+    }
+
+    private async getIndex(): Promise<SearchIndex<NotionPage>> {
+        if (this.index) {
+            return this.index;
+        }
+
+        // Shared, so a search and the background sync it starts use the same index
+        this.indexLoading ??= SearchIndex.load<NotionPage>(this.indexPath).finally(() => {
+            this.indexLoading = undefined;
+        });
+        this.index ??= await this.indexLoading;
+        return this.index;
+    }
+
+    private async runSync(): Promise<NotionIndexSyncResult> {
+        const index = await this.getIndex();
+        const result: NotionIndexSyncResult = { added: 0, updated: 0, removed: 0, unchanged: 0, failed: 0 };
+
+        // List every page in the database
+        const pages: NotionPage[] = [];
+        let cursor: string | undefined;
+        do {
+            const response = await this.notionService.listDatabasePages(this.databaseId, { limit: 100, startCursor: cursor });
+            pages.push(...response.results);
+            cursor = response.has_more ? response.next_cursor ?? undefined : undefined;
+        } while (cursor !== undefined);
+
+        const semantic = this.semantic;
+        const currentIds = new Set(pages.map(page => page.id));
+        for (const id of index.getDocumentIds()) {
+            if (!currentIds.has(id)) {
+                index.remove(id);
+                result.removed++;
+            }
+        }
+        for (const id of semantic?.index.getDocumentIds() ?? []) {
+            if (!currentIds.has(id)) {
+                semantic!.index.remove(id);
+            }
+        }
+
+        const changed = pages.filter(page => {
+            const keywordCurrent = index.getDocument(page.id)?.lastModified === page.last_edited_time;
+            const semanticCurrent = semantic === undefined || semantic.index.getDocument(page.id)?.lastModified === page.last_edited_time;
+            if (keywordCurrent && semanticCurrent) {
+                result.unchanged++;
+                return false;
+            }
+            return true;
+        });
+
+        const { Sema } = await import('async-sema');
+        const semaphore = new Sema(SYNC_CONCURRENCY);
+
+        await Promise.all(changed.map(async (page) => {
+            await semaphore.acquire();
+            try {
+                const isNew = index.getDocument(page.id) === undefined;
+                const { markdown } = await this.notionService.exportPageToMarkdown(page.id, { includeMetadata: false });
+                index.upsert(this.toIndexedDocument(page, markdown));
+
+                if (semantic) {
+                    await this.embedPage(semantic, page, markdown);
+                }
+
+                if (isNew) {
+                    result.added++;
+                } else {
+                    result.updated++;
+                }
+            } catch {
+                // Keep the previous version (if any) and retry on the next sync
+                result.failed++;
+            } finally {
+                semaphore.release();
+            }
+        }));
+
+        if (result.added + result.updated + result.removed > 0) {
+            await index.save();
+            await semantic?.index.save();
+        }
+        this.lastSyncedAt = Date.now();
+
+        return result;
+    }
+
+    private async embedPage(
+        semantic: { index: SemanticIndex<NotionPage>; provider: EmbeddingProvider },
+        page: NotionPage,
+        markdown: string,
+    ): Promise<void> {
+        const title = extractPageTitle(page);
+        const bodyChunks = chunkMarkdownByHeading(markdown);
+        // Empty pages are still findable by title
+        const chunks = bodyChunks.length > 0 ? bodyChunks : [{ headingPath: [], text: title }];
+
+        // Prefix each chunk with its title and headings so short sections keep their context
+        const vectors = await semantic.provider.embed(
+            chunks.map(chunk => [title, ...chunk.headingPath].join(' › ') + `\n${chunk.text}`),
+        );
+
+        semantic.index.upsert(
+            { id: page.id, title, lastModified: page.last_edited_time, metadata: page },
+            chunks.map((chunk, i) => ({ ...chunk, vector: vectors[i] })),
+        );
+    }
+
+    private toIndexedDocument(page: NotionPage, markdown: string): IndexedDocument<NotionPage> {
+        return {
+            id: page.id,
+            title: extractPageTitle(page),
+            lastModified: page.last_edited_time,
+            sections: splitMarkdownSections(markdown),
+            metadata: page,
+        };
+    }
+
+    /**
+     * Apply the same category/tags/status filters listDatabasePages sends to Notion
+     */
+    private matchesFilters(page: NotionPage, filters: NotionIndexFilters | undefined): boolean {
+        if (!filters) {
+            return true;
+        }
+
+        const selectName = (property: unknown): string | undefined => {
+            if (property === undefined || property === null || typeof property !== 'object' || !('select' in property)) {
+                return undefined;
+            }
+            return (property.select as { name?: string } | null)?.name;
+        };
+
+        if (filters.category !== undefined && selectName(page.properties.Category) !== filters.category) {
+            return false;
+        }
+        if (filters.status !== undefined && selectName(page.properties.Status) !== filters.status) {
+            return false;
+        }
+
+        if (filters.tags && filters.tags.length > 0) {
+            const tagsProperty = page.properties.Tags;
+            const tags = tagsProperty !== undefined && tagsProperty !== null && 'multi_select' in tagsProperty
+                ? (tagsProperty.multi_select as Array<{ name?: string }>).map(tag => tag.name)
+                : [];
+            if (!filters.tags.some(tag => tags.includes(tag))) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+}
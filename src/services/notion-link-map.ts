@@ -0,0 +1,91 @@
+/**
+ * Persisted map between Notion pages and the local markdown files they were created from, updated from
+ * or exported to. Link resolution uses it to turn page links into file links and back.
+ */
+
+import fs from 'fs-extra';
+import { dirname, join, resolve } from 'path';
+import { PageLinkResolver, normalizePageId } from '../utils/notion-links.js';
+import { getSearchIndexDir } from './notion-index.js';
+
+const LINK_MAP_FORMAT_VERSION = 1;
+
+interface PageLinkEntry {
+    // Absolute path of the page's markdown file
+    path: string;
+    recordedAt: string;
+}
+
+interface PageLinkMapFile {
+    version: number;
+    // By page ID without dashes
+    pages: Record<string, PageLinkEntry>;
+}
+
+export class NotionLinkMap {
+    private readonly mapPath: string;
+
+    constructor(cacheDir = getSearchIndexDir()) {
+        this.mapPath = join(cacheDir, 'page-links.json');
+    }
+
+    getMapPath(): string {
+        return this.mapPath;
+    }
+
+    /**
+     * Remember that a page lives in a local file (a file belongs to one page, so older pages of it are dropped)
+     */
+    async record(pageId: string, filePath: string): Promise<void> {
+        const map = await this.load();
+        const path = resolve(filePath);
+        const id = normalizePageId(pageId);
+        if (map.pages[id]?.path === path) {
+            return;
+        }
+
+        for (const [otherId, entry] of Object.entries(map.pages)) {
+            if (entry.path === path) {
+                delete map.pages[otherId];
+            }
+        }
+        map.pages[id] = { path, recordedAt: new Date().toISOString() };
+        await this.save(map);
+    }
+
+    /**
+     * Link resolver for a markdown file, over every page with a known file
+     */
+    async createResolver(documentPath: string): Promise<PageLinkResolver> {
+        const map = await this.load();
+        const pages = Object.fromEntries(Object.entries(map.pages).map(([pageId, entry]) => [pageId, entry.path]));
+        return new PageLinkResolver(documentPath, pages);
+    }
+
+    /**
+     * Read the map from disk each time - the server and the CLI both record into it
+     */
+    private async load(): Promise<PageLinkMapFile> {
+        try {
+            if (await fs.pathExists(this.mapPath)) {
+                const data = await fs.readJson(this.mapPath) as PageLinkMapFile;
+                if (data.version === LINK_MAP_FORMAT_VERSION) {
+                    return data;
+                }
+            }
+        } catch {
+            // Unreadable map - links resolve again as pages are recorded
+        }
+        return { version: LINK_MAP_FORMAT_VERSION, pages: {} };
+    }
+
+    /**
+     * Write the map to disk (atomically, via a temp file)
+     */
+    private async save(map: PageLinkMapFile): Promise<void> {
+        await fs.ensureDir(dirname(this.mapPath));
+        const tempPath = `${this.mapPath}.tmp`;
+        await fs.writeJson(tempPath, map, { spaces: 2 });
+        await fs.move(tempPath, this.mapPath, { overwrite: true });
+    }
+}
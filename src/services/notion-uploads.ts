@@ -0,0 +1,346 @@
+/**
+ * Uploads local images and attachments referenced from markdown through Notion's File Upload API
+ * Uploads are cached by content hash, so unchanged files are attached again instead of re-uploaded
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs-extra';
+import { basename, dirname, extname, isAbsolute, join, relative, resolve, sep } from 'path';
+import type { NotionService } from './notion.js';
+import { NotionBlock, NotionWriteRequest } from '../types/notion.js';
+import { NotionBlockData, buildParagraphBlock } from '../utils/notion-blocks.js';
+import { blockContentSignature } from '../utils/block-diff.js';
+import { getSearchIndexDir } from './notion-index.js';
+import { findExportedAsset } from './notion-assets.js';
+
+// Largest file a single-part upload accepts
+export const MAX_SINGLE_PART_UPLOAD_BYTES = 20 * 1024 * 1024;
+
+const CACHE_FORMAT_VERSION = 1;
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.svg': 'image/svg+xml',
+    '.heic': 'image/heic',
+    '.pdf': 'application/pdf',
+    '.mp4': 'video/mp4',
+    '.mov': 'video/quicktime',
+    '.webm': 'video/webm',
+    '.mp3': 'audio/mpeg',
+    '.wav': 'audio/wav',
+    '.m4a': 'audio/mp4',
+    '.ogg': 'audio/ogg',
+    '.txt': 'text/plain',
+    '.csv': 'text/csv',
+    '.json': 'application/json',
+    '.zip': 'application/zip',
+};
+
+interface FileUploadCacheEntry {
+    fileUploadId: string;
+    fileName: string;
+    size: number;
+    uploadedAt: string;
+}
+
+interface FileUploadCache {
+    version: number;
+    // By sha256 of the file content
+    uploads: Record<string, FileUploadCacheEntry>;
+}
+
+// Where the local files of a markdown file are looked up
+export interface LocalFileLocation {
+    // Folder of the markdown file - relative paths resolve against it
+    baseDirectory: string;
+    // Folder files must be inside: the docs or sync root, else the markdown file's folder
+    rootDirectory: string;
+}
+
+// State of one resolveLocalFiles call
+interface ResolveContext {
+    location: LocalFileLocation | undefined;
+    warnings: string[];
+    // Files already handled in this document, by content hash
+    uploadIds: Map<string, string>;
+    // Blocks of the page being updated, by ID
+    existingBlocks: Map<string, NotionBlock>;
+    previewRequests?: NotionWriteRequest[];
+}
+
+/**
+ * Resolves the local_file placeholders the converter builds for local images and attachments
+ */
+export class NotionFileUploader {
+    private readonly notionService: NotionService;
+    private readonly cachePath: string;
+    private cache?: FileUploadCache;
+    private cacheChanged = false;
+
+    // Cached uploads confirmed to still be attachable in this process
+    private readonly verified = new Set<string>();
+
+    constructor(notionService: NotionService, cacheDir = getSearchIndexDir()) {
+        this.notionService = notionService;
+        this.cachePath = join(cacheDir, 'file-uploads.json');
+    }
+
+    getCachePath(): string {
+        return this.cachePath;
+    }
+
+    /**
+     * Replace local_file placeholders in blocks (nested children included) with file_upload references
+     * Only relative paths to files inside the location's root directory are uploaded. Placeholders
+     * with a fallback (links) become that block otherwise; other files that can't be read or uploaded
+     * become a gray paragraph with their path, and a warning.
+     * With previewRequests nothing is uploaded: the upload requests are recorded there and placeholder IDs used.
+     * Assets downloaded by an export of the page being updated (existingBlocks) are matched back to
+     * their original blocks while unchanged, so those blocks are kept rather than uploaded again.
+     */
+    async resolveLocalFiles(
+        blocks: NotionBlockData[],
+        location: LocalFileLocation | undefined,
+        warnings: string[],
+        previewRequests?: NotionWriteRequest[],
+        existingBlocks: NotionBlock[] = [],
+    ): Promise<NotionBlockData[]> {
+        const resolved = await this.resolveBlocks(blocks, {
+            location,
+            warnings,
+            uploadIds: new Map(),
+            existingBlocks: new Map(existingBlocks.map(block => [block.id, block])),
+            previewRequests,
+        });
+
+        if (this.cacheChanged) {
+            await this.saveCache();
+        }
+
+        return resolved;
+    }
+
+    private async resolveBlocks(blocks: NotionBlockData[], context: ResolveContext): Promise<NotionBlockData[]> {
+        const resolved: NotionBlockData[] = [];
+
+        for (const block of blocks) {
+            const data = block[block.type] as Record<string, unknown> | undefined;
+            if (data === undefined) {
+                resolved.push(block);
+                continue;
+            }
+
+            if (Array.isArray(data.children)) {
+                const children = await this.resolveBlocks(data.children as NotionBlockData[], context);
+                resolved.push({ ...block, [block.type]: { ...data, children } });
+                continue;
+            }
+
+            if (data.type !== 'local_file') {
+                resolved.push(block);
+                continue;
+            }
+
+            const { local_file: localFile, ...rest } = data;
+            const { path: reference, fallback } = localFile as { path: string; fallback?: NotionBlockData };
+            let filePath: string;
+            try {
+                filePath = await resolveLocalPath(reference, context.location);
+            } catch (error) {
+                if (fallback !== undefined) {
+                    resolved.push(fallback);
+                } else {
+                    context.warnings.push(`Could not upload ${reference}: ${error instanceof Error ? error.message : String(error)}`);
+                    resolved.push(buildParagraphBlock(reference, { color: 'gray' }));
+                }
+                continue;
+            }
+
+            try {
+                const original = await findOriginalBlock(block, filePath, context.existingBlocks);
+                if (original !== undefined) {
+                    resolved.push(original);
+                    continue;
+                }
+
+                const fileUploadId = await this.upload(filePath, context.uploadIds, context.previewRequests);
+                resolved.push({
+                    ...block,
+                    [block.type]: {
+                        ...rest,
+                        type: 'file_upload',
+                        file_upload: { id: fileUploadId },
+                        ...(block.type === 'file' ? { name: basename(filePath) } : {}),
+                    },
+                });
+            } catch (error) {
+                context.warnings.push(`Could not upload ${reference}: ${error instanceof Error ? error.message : String(error)}`);
+                resolved.push(buildParagraphBlock(reference, { color: 'gray' }));
+            }
+        }
+
+        return resolved;
+    }
+
+    /**
+     * Upload a file unless an upload of the same content can be attached again. Returns the file upload ID.
+     * uploadIds holds the files already handled for the current document, by content hash.
+     */
+    private async upload(filePath: string, uploadIds: Map<string, string>, previewRequests?: NotionWriteRequest[]): Promise<string> {
+        const content = await fs.readFile(filePath).catch(() => {
+            throw new Error(`file not found: ${filePath}`);
+        });
+        if (content.length > MAX_SINGLE_PART_UPLOAD_BYTES) {
+            throw new Error(`${basename(filePath)} is larger than the ${MAX_SINGLE_PART_UPLOAD_BYTES / 1024 / 1024} MB upload limit`);
+        }
+
+        const hash = createHash('sha256').update(content).digest('hex');
+        const handled = uploadIds.get(hash);
+        if (handled !== undefined) {
+            return handled;
+        }
+
+        const fileUploadId = await this.uploadContent(filePath, content, hash, previewRequests);
+        uploadIds.set(hash, fileUploadId);
+        return fileUploadId;
+    }
+
+    private async uploadContent(filePath: string, content: Buffer, hash: string, previewRequests?: NotionWriteRequest[]): Promise<string> {
+        const cache = await this.loadCache();
+        const cached = cache.uploads[hash];
+        const fileName = basename(filePath);
+        const contentType = CONTENT_TYPES[extname(filePath).toLowerCase()] ?? 'application/octet-stream';
+
+        if (previewRequests !== undefined) {
+            if (cached !== undefined) {
+                return cached.fileUploadId;
+            }
+            const placeholder = `{file-upload:${fileName}}`;
+            previewRequests.push(
+                { method: 'POST', endpoint: '/file_uploads', body: { mode: 'single_part', filename: fileName, content_type: contentType } },
+                { method: 'POST', endpoint: `/file_uploads/${placeholder}/send`, body: { file: `${filePath} (${content.length} bytes)` } },
+            );
+            return placeholder;
+        }
+
+        if (cached !== undefined && (this.verified.has(hash) || await this.isAttachable(cached.fileUploadId))) {
+            this.verified.add(hash);
+            return cached.fileUploadId;
+        }
+
+        const fileUpload = await this.notionService.createFileUpload({ mode: 'single_part', filename: fileName, content_type: contentType });
+        const sent = await this.notionService.sendFileUpload(fileUpload.id, content, fileName, contentType);
+        if (sent.status !== 'uploaded') {
+            throw new Error(`upload of ${fileName} ended with status ${sent.status}`);
+        }
+
+        cache.uploads[hash] = { fileUploadId: fileUpload.id, fileName, size: content.length, uploadedAt: new Date().toISOString() };
+        this.cacheChanged = true;
+        this.verified.add(hash);
+        return fileUpload.id;
+    }
+
+    /**
+     * Whether a cached upload can still be attached (uploads that were never attached expire)
+     */
+    private async isAttachable(fileUploadId: string): Promise<boolean> {
+        try {
+            return (await this.notionService.getFileUpload(fileUploadId)).status === 'uploaded';
+        } catch {
+            return false;
+        }
+    }
+
+    private async loadCache(): Promise<FileUploadCache> {
+        if (this.cache !== undefined) {
+            return this.cache;
+        }
+
+        this.cache = { version: CACHE_FORMAT_VERSION, uploads: {} };
+        try {
+            if (await fs.pathExists(this.cachePath)) {
+                const data = await fs.readJson(this.cachePath) as FileUploadCache;
+                if (data.version === CACHE_FORMAT_VERSION) {
+                    this.cache = data;
+                }
+            }
+        } catch {
+            // Unreadable cache - files are uploaded again and the cache rewritten
+        }
+        return this.cache;
+    }
+
+    /**
+     * Write the cache to disk (atomically, via a temp file)
+     */
+    private async saveCache(): Promise<void> {
+        await fs.ensureDir(dirname(this.cachePath));
+        const tempPath = `${this.cachePath}.tmp`;
+        await fs.writeJson(tempPath, this.cache, { spaces: 2 });
+        await fs.move(tempPath, this.cachePath, { overwrite: true });
+        this.cacheChanged = false;
+    }
+}
+
+/**
+ * The existing block an unchanged exported asset was downloaded from, as block data the diff keeps as is
+ * Only when its type and caption are unchanged too, since hosted files can't be sent back to Notion.
+ */
+async function findOriginalBlock(block: NotionBlockData, filePath: string, existingBlocks: Map<string, NotionBlock>): Promise<NotionBlockData | undefined> {
+    if (existingBlocks.size === 0) {
+        return undefined;
+    }
+
+    const asset = await findExportedAsset(filePath).catch(() => undefined);
+    const existing = asset !== undefined ? existingBlocks.get(asset.blockId) : undefined;
+    if (existing === undefined || existing.type !== block.type) {
+        return undefined;
+    }
+
+    const original: NotionBlockData = { object: 'block', type: existing.type, [existing.type]: existing[existing.type] };
+    const captionSignature = (data: NotionBlockData): string =>
+        blockContentSignature({ object: 'block', type: data.type, [data.type]: { caption: (data[data.type] as { caption?: unknown }).caption } });
+    return captionSignature(original) === captionSignature(block) ? original : undefined;
+}
+
+/**
+ * Absolute path of a local file reference from markdown (URL-encoded, relative to the markdown file's folder)
+ * Only existing files inside the root directory are allowed - markdown mustn't pick arbitrary files off the server's disk.
+ */
+async function resolveLocalPath(reference: string, location: LocalFileLocation | undefined): Promise<string> {
+    const path = decodeURIComponent(reference.split(/[?#]/)[0]);
+    if (reference.startsWith('file:') || isAbsolute(path)) {
+        throw new Error('only paths relative to the markdown file are allowed');
+    }
+    if (location === undefined) {
+        throw new Error('relative paths can only be resolved when the markdown comes from a file');
+    }
+
+    const filePath = resolve(location.baseDirectory, path);
+    // Compare real paths, so symlinks can't point outside the folder either
+    const [realRoot, realFile] = await Promise.all([
+        fs.realpath(location.rootDirectory),
+        fs.realpath(filePath).catch(() => {
+            throw new Error(`file not found: ${filePath}`);
+        }),
+    ]);
+    if (!isInsideDirectory(realRoot, realFile)) {
+        throw new Error(`${reference} is outside ${location.rootDirectory}`);
+    }
+    if (!(await fs.stat(realFile)).isFile()) {
+        throw new Error(`${reference} is not a file`);
+    }
+    return filePath;
+}
+
+/**
+ * Whether path lies inside directory (both absolute). Names merely starting with ".." are inside.
+ */
+export function isInsideDirectory(directory: string, path: string): boolean {
+    const relativePath = relative(directory, path);
+    return relativePath !== '' && relativePath !== '..' && !relativePath.startsWith(`..${sep}`) && !isAbsolute(relativePath);
+}
@@ -0,0 +1,121 @@
+/**
+ * Journal of page creations whose blocks are still being appended
+ * Records how many top-level blocks made it onto the page, so a failed creation can resume
+ * from the last appended chunk (by resume token) instead of starting over.
+ */
+
+import { randomUUID } from 'crypto';
+import fs from 'fs-extra';
+import { dirname, join } from 'path';
+import { getSearchIndexDir } from './notion-index.js';
+
+const JOURNAL_FORMAT_VERSION = 1;
+
+// Unfinished writes older than this are dropped - their pages have likely been cleaned up or redone
+const JOURNAL_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface PageWriteJournalEntry {
+    pageId: string;
+    databaseId: string;
+    // sha256 of the converted blocks (local files as paths, before uploading) - a resume must append the same content
+    contentHash: string;
+    totalBlocks: number;
+    // Top-level blocks appended with all their children, in order
+    appendedBlocks: number;
+    startedAt: string;
+    updatedAt: string;
+}
+
+interface PageWriteJournalFile {
+    version: number;
+    // By resume token
+    writes: Record<string, PageWriteJournalEntry>;
+}
+
+export class NotionWriteJournal {
+    private readonly journalPath: string;
+
+    constructor(cacheDir = getSearchIndexDir()) {
+        this.journalPath = join(cacheDir, 'write-journal.json');
+    }
+
+    getJournalPath(): string {
+        return this.journalPath;
+    }
+
+    /**
+     * Record a new page write; returns its resume token
+     */
+    async start(entry: Omit<PageWriteJournalEntry, 'appendedBlocks' | 'startedAt' | 'updatedAt'>): Promise<string> {
+        const journal = await this.load();
+        const token = randomUUID();
+        const now = new Date().toISOString();
+        journal.writes[token] = { ...entry, appendedBlocks: 0, startedAt: now, updatedAt: now };
+        await this.save(journal);
+        return token;
+    }
+
+    async get(token: string): Promise<PageWriteJournalEntry | undefined> {
+        const journal = await this.load();
+        return journal.writes[token] as PageWriteJournalEntry | undefined;
+    }
+
+    /**
+     * Record that the first appendedBlocks top-level blocks are on the page
+     */
+    async recordProgress(token: string, appendedBlocks: number): Promise<void> {
+        const journal = await this.load();
+        const entry = journal.writes[token] as PageWriteJournalEntry | undefined;
+        if (entry === undefined) {
+            return;
+        }
+        entry.appendedBlocks = appendedBlocks;
+        entry.updatedAt = new Date().toISOString();
+        await this.save(journal);
+    }
+
+    /**
+     * Forget a write that completed or was rolled back
+     */
+    async finish(token: string): Promise<void> {
+        const journal = await this.load();
+        if (token in journal.writes) {
+            delete journal.writes[token];
+            await this.save(journal);
+        }
+    }
+
+    /**
+     * Read the journal from disk each time - the server and the CLI both write pages
+     */
+    private async load(): Promise<PageWriteJournalFile> {
+        try {
+            if (await fs.pathExists(this.journalPath)) {
+                const data = await fs.readJson(this.journalPath) as PageWriteJournalFile;
+                if (data.version === JOURNAL_FORMAT_VERSION) {
+                    return data;
+                }
+            }
+        } catch {
+            // Unreadable journal - unfinished writes can't be resumed, only redone
+        }
+        return { version: JOURNAL_FORMAT_VERSION, writes: {} };
+    }
+
+    /**
+     * Write the journal to disk (atomically, via a temp file), dropping expired writes
+     */
+    private async save(journal: PageWriteJournalFile): Promise<void> {
+        const cutoff = Date.now() - JOURNAL_MAX_AGE_MS;
+        for (const [token, entry] of Object.entries(journal.writes)) {
+            if (Date.parse(entry.updatedAt) < cutoff) {
+                delete journal.writes[token];
+            }
+        }
+
+        await fs.ensureDir(dirname(this.journalPath));
+        const tempPath = `${this.journalPath}.tmp`;
+        await fs.writeJson(tempPath, journal, { spaces: 2 });
+        await fs.move(tempPath, this.journalPath, { overwrite: true });
+    }
+}
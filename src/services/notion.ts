@@ -1,6 +1,7 @@
 import {
     AppendBlockChildrenRequest,
     CreateCommentRequest,
+    CreateFileUploadRequest,
     CreatePageRequest,
     DatabaseQueryRequest,
     NotionBlock,
@@ -11,29 +12,95 @@ import {
     NotionConfig,
     NotionDatabase,
     NotionDatabaseQueryResults,
+    NotionFileUpload,
     NotionPage,
     NotionRichText,
+    NotionWritePreview,
+    NotionWriteRequest,
     UpdatePageRequest,
 } from '../types/notion.js';
 import { ConversionOptions, ConversionResult } from '../types/markdown.js';
-import { EnhancedSearchResult, SearchResultMetadata, SearchStatistics } from '../types/search.js';
+import { EnhancedSearchResult, NotionSearchMode, SearchResultMetadata, SearchStatistics } from '../types/search.js';
 import { extractPageTitle, extractTitleFromMarkdown, markdownToNotion, notionToMarkdown } from '../utils/converters.js';
 import { NotionBlockData } from '../utils/notion-blocks.js';
+import { BlockDiffSummary, diffBlocks, withAttachedChildren } from '../utils/block-diff.js';
+import { diffLines } from '../utils/line-diff.js';
+import { splitAppendPayload } from '../utils/notion-limits.js';
 import { readMarkdownFile, validateFilePath } from '../utils/file-system.js';
-import { basename } from 'path';
+import { reciprocalRankFusion } from '../utils/semantic-index.js';
+import { NotionSearchIndex } from './notion-index.js';
+import { LocalFileLocation, NotionFileUploader, isInsideDirectory } from './notion-uploads.js';
+import { ExportedAsset, downloadPageAssets } from './notion-assets.js';
+import { NotionLinkMap } from './notion-link-map.js';
+import { NotionWriteJournal } from './notion-write-journal.js';
+import { PageLinkResolver } from '../utils/notion-links.js';
+import { RequestScheduler, RequestStats, getSharedScheduler } from '../utils/request-scheduler.js';
+import { HttpClient } from '../utils/http-client.js';
+import { IncompleteWriteError, RateLimitedError, ServiceError, UpstreamError } from '../utils/errors.js';
+import { getKnowledgeHubConfig } from '../utils/config.js';
+import { basename, dirname, resolve } from 'path';
+import { createHash } from 'crypto';
+
+// Notion accepts at most 100 children per append request
+const MAX_BLOCKS_PER_APPEND = 100;
+
+// Notion's documented average rate limit is 3 requests per second per integration
+const NOTION_SCHEDULER_OPTIONS = { requestsPerSecond: 3 };
+
+// POST endpoints that only read, so they can be retried like GETs
+const READ_ONLY_POST_ENDPOINT = /^\/(search|databases\/[^/]+\/query)$/;
+
+// Stand-ins for IDs that only exist once a write has actually happened
+const NEW_PAGE_ID_PLACEHOLDER = '{new-page-id}';
+const LAST_APPENDED_BLOCK_PLACEHOLDER = '{last-block-of-previous-chunk}';
+
+/**
+ * Error of a failed operation - typed service errors (auth, not found, rate limits, ...) pass through unchanged,
+ * so tools can still tell them apart
+ */
+function operationError(action: string, error: unknown): Error {
+    if (error instanceof ServiceError) {
+        return error;
+    }
+    return new Error(`${action}: ${String(error)}`, { cause: error });
+}
 
 export class NotionService {
     private config: NotionConfig;
     private baseUrl = 'https://api.notion.com/v1';
     private propertyTypeCache: Map<string, Map<string, string>> = new Map();
-
-    constructor(config: NotionConfig) {
+    private searchIndexes: Map<string, NotionSearchIndex> = new Map();
+    private readonly scheduler: RequestScheduler;
+    private readonly client: HttpClient;
+    private fileUploader?: NotionFileUploader;
+    private linkMap?: NotionLinkMap;
+    private writeJournal?: NotionWriteJournal;
+
+    constructor(config: NotionConfig, scheduler = getSharedScheduler('notion', NOTION_SCHEDULER_OPTIONS)) {
         this.config = config;
+        this.scheduler = scheduler;
+        this.client = new HttpClient({
+            service: 'Notion API',
+            scheduler,
+            getHeaders: () => ({
+                'Authorization': `Bearer ${this.config.token}`,
+                'Notion-Version': this.config.version ?? '2022-06-28',
+            }),
+            authHint: 'Check that NOTION_TOKEN is a current integration token.',
+            notFoundHint: 'Share the page or database with the integration - Notion reports pages it can\'t see as not found.',
+        });
+    }
+
+    /**
+     * Request, retry and throttling counters (shared by every NotionService using the same scheduler)
+     */
+    getRequestStats(): RequestStats {
+        return this.scheduler.getStats();
     }
 
     private analyzeSearchMatch(page: NotionPage, searchTerm: string, searchMode: string): SearchResultMetadata {
         const metadata: SearchResultMetadata = {
-            searchMode: searchMode as 'tags' | 'full-text' | 'combined',
+            searchMode: searchMode as NotionSearchMode,
             matchLocation: 'content',
             matchedTerms: [],
         };
@@ -115,8 +182,13 @@ export class NotionService {
         propertyName: string,
         value: unknown,
         databaseId: string,
+        schemaChanges: Record<string, unknown> = {},
     ): Promise<void> {
-        const propertyType = await this.getPropertyType(databaseId, propertyName);
+        // Dry runs resolve against the schema as it would be after ensureDatabaseProperties
+        const plannedProperty = schemaChanges[propertyName];
+        const propertyType = plannedProperty !== undefined
+            ? Object.keys(plannedProperty as Record<string, unknown>)[0]
+            : await this.getPropertyType(databaseId, propertyName);
 
         if (propertyType === null) {
             // Property not found in database schema, skip setting
@@ -170,47 +242,14 @@ export class NotionService {
         endpoint: string,
         method: 'GET' | 'POST' | 'PATCH' | 'DELETE' = 'GET',
         body?: unknown,
+        // Whether the request may be sent again when its outcome is unknown (default: every method but POST, and read-only POSTs)
+        idempotent = method !== 'POST' || READ_ONLY_POST_ENDPOINT.test(endpoint),
     ): Promise<T> {
-        const url = `${this.baseUrl}${endpoint}`;
-
-        const headers: Record<string, string> = {
-            'Authorization': `Bearer ${this.config.token}`,
-            'Notion-Version': this.config.version ?? '2022-06-28',
-            'Content-Type': 'application/json',
-        };
-
-        const options: RequestInit = {
+        return this.client.requestJson<T>(`${this.baseUrl}${endpoint}`, {
             method,
-            headers,
-        };
-
-        if (body !== undefined && (method === 'POST' || method === 'PATCH')) {
-            options.body = JSON.stringify(body);
-        }
-
-        try {
-            const response = await fetch(url, options);
-
-            if (!response.ok) {
-                const errorText = await response.text();
-                let errorData: { message?: string };
-                try {
-                    errorData = JSON.parse(errorText) as { message?: string };
-                } catch {
-                    errorData = { message: errorText };
-                }
-
-                throw new Error(`Notion API Error ${response.status}: ${errorData.message ?? response.statusText}`);
-            }
-
-            const data = await response.json() as T;
-            return data;
-        } catch (error) {
-            if (error instanceof Error) {
-                throw error;
-            }
-            throw new Error(`Request failed: ${String(error)}`);
-        }
+            ...(body !== undefined && (method === 'POST' || method === 'PATCH') ? { body } : {}),
+            idempotent,
+        });
     }
 
     // Database operations (only for MCP Access Database)
@@ -250,6 +289,21 @@ export class NotionService {
         });
     }
 
+    // File uploads
+    async createFileUpload(request: CreateFileUploadRequest): Promise<NotionFileUpload> {
+        return this.makeRequest<NotionFileUpload>('/file_uploads', 'POST', request);
+    }
+
+    async sendFileUpload(fileUploadId: string, content: Buffer, fileName: string, contentType: string): Promise<NotionFileUpload> {
+        const form = new FormData();
+        form.append('file', new Blob([content], { type: contentType }), fileName);
+        return this.makeRequest<NotionFileUpload>(`/file_uploads/${fileUploadId}/send`, 'POST', form);
+    }
+
+    async getFileUpload(fileUploadId: string): Promise<NotionFileUpload> {
+        return this.makeRequest<NotionFileUpload>(`/file_uploads/${fileUploadId}`);
+    }
+
     // Block operations
     async getBlockChildren(blockId: string, startCursor?: string): Promise<NotionBlockChildren> {
         const params = new URLSearchParams();
@@ -265,37 +319,82 @@ export class NotionService {
         blockId: string,
         request: AppendBlockChildrenRequest,
     ): Promise<NotionBlockChildren> {
+        // Appending is a PATCH but not idempotent: a retry after a timeout or 5xx could add the blocks twice
         return this.makeRequest<NotionBlockChildren>(
             `/blocks/${blockId}/children`,
             'PATCH',
             request,
+            false,
         );
     }
 
     /**
      * Append blocks to a page/block with automatic chunking for 100-block limit
+     * Children nested deeper than Notion accepts in one request are appended to their
+     * created parents in follow-up requests. With afterBlockId, chunks are chained after it.
      */
     async appendBlockChildrenChunked(
         blockId: string,
         blocks: NotionBlockData[],
-        maxBlocksPerRequest: number = 100,
+        maxBlocksPerRequest: number = MAX_BLOCKS_PER_APPEND,
+        afterBlockId?: string,
     ): Promise<NotionBlockChildren[]> {
         const results: NotionBlockChildren[] = [];
+        let after = afterBlockId;
 
         // Split blocks into chunks of maxBlocksPerRequest
         for (let i = 0; i < blocks.length; i += maxBlocksPerRequest) {
-            const chunk = blocks.slice(i, i + maxBlocksPerRequest);
+            const { blocks: chunk, deferred } = splitAppendPayload(blocks.slice(i, i + maxBlocksPerRequest));
 
             const result = await this.appendBlockChildren(blockId, {
                 children: chunk,
+                ...(after !== undefined ? { after } : {}),
             });
-
             results.push(result);
+
+            if (afterBlockId !== undefined) {
+                after = result.results[result.results.length - 1]?.id ?? after;
+            }
+
+            // Deferred children go to parents created by this request, in document order
+            const childIdCache = new Map<string, string[]>();
+            for (const { path, children } of deferred) {
+                const parentId = await this.resolveAppendedBlockId(result, path, childIdCache);
+                results.push(...await this.appendBlockChildrenChunked(parentId, children, maxBlocksPerRequest));
+            }
         }
 
         return results;
     }
 
+    /**
+     * Find the ID of a block created by an append request from its index path in the payload
+     */
+    private async resolveAppendedBlockId(
+        result: NotionBlockChildren,
+        path: number[],
+        childIdCache: Map<string, string[]>,
+    ): Promise<string> {
+        let blockId = result.results[path[0]]?.id;
+        for (const index of path.slice(1)) {
+            if (blockId === undefined) {
+                break;
+            }
+            let childIds = childIdCache.get(blockId);
+            if (childIds === undefined) {
+                // Nested arrays in one request hold at most 100 blocks, so the first page covers them
+                childIds = (await this.getBlockChildren(blockId)).results.map(child => child.id);
+                childIdCache.set(blockId, childIds);
+            }
+            blockId = childIds[index];
+        }
+
+        if (blockId === undefined) {
+            throw new Error(`Could not find the created block at position ${path.join('.')} to append its nested children`);
+        }
+        return blockId;
+    }
+
     async updateBlock(blockId: string, updateData: unknown): Promise<NotionBlock> {
         return this.makeRequest<NotionBlock>(`/blocks/${blockId}`, 'PATCH', updateData);
     }
@@ -470,117 +569,47 @@ export class NotionService {
             filePath?: string;
             pageTitle?: string;
             conversionOptions?: Partial<ConversionOptions>;
+            // File markdown content belongs to - local images, attachments and links resolve against it like for filePath
+            documentPath?: string;
+            // Folder local images and attachments may come from (default: the docs root if the file is inside it, else its folder)
+            assetRoot?: string;
             metadata?: {
                 category?: string;
                 tags?: string[];
                 description?: string;
                 status?: string;
             };
+            // Continue a creation that failed partway (from its IncompleteWriteError) - same content required
+            resumeToken?: string;
+            // Archive the page when appending its blocks fails, instead of keeping it to resume
+            rollbackOnFailure?: boolean;
         },
     ): Promise<{ page: NotionPage; conversionResult: ConversionResult }> {
-        const debug = process.env.NODE_ENV === 'development';
+        const debug = getKnowledgeHubConfig().debug;
 
         try {
-            let markdown: string;
-            let { pageTitle } = options;
-
-            // Determine which input to use
-            if (options.markdown !== undefined && options.filePath !== undefined) {
-                throw new Error('Cannot provide both markdown content and filePath. Please provide only one.');
-            }
-
-            if (options.markdown !== undefined) {
-                markdown = options.markdown;
-            } else if (options.filePath !== undefined) {
-                // Read file and extract title if not provided
-                markdown = await readMarkdownFile(options.filePath);
-
-                if (pageTitle === undefined) {
-                    const filename = basename(options.filePath, '.md');
-                    pageTitle = filename.replace(/[-_]/g, ' ').replace(/\b\w/g, (l: string) => l.toUpperCase());
-                }
-            } else {
-                throw new Error('Either markdown content or filePath must be provided.');
-            }
-
-            // Convert markdown to blocks using utility function
-            const conversionResult = markdownToNotion(markdown, options.conversionOptions ?? {});
-
-            // Conversion complete - warnings are handled internally
-
-            const blocks = conversionResult.content as NotionBlockData[];
-
-            // Extract title from markdown if not provided
-            if (pageTitle === undefined) {
-                const extractedTitle = extractTitleFromMarkdown(markdown);
-                pageTitle = extractedTitle ?? 'Untitled';
+            const { conversionResult, blocks, pageTitle } = await this.resolveCreateInput(options);
+            // Hashed before uploads: the converted blocks still hold local paths, while upload IDs change when
+            // a resume has to upload files again (uploads of chunks that were never appended expire)
+            const contentHash = createHash('sha256').update(JSON.stringify(conversionResult.content)).digest('hex');
+
+            if (options.resumeToken !== undefined) {
+                const { page, appendedBlocks } = await this.resumePageWrite(options.resumeToken, databaseId, contentHash);
+                await this.appendJournaledBlocks(page.id, blocks, options.resumeToken, appendedBlocks, options.rollbackOnFailure === true);
+                await this.recordPageFile(page.id, options, conversionResult.warnings);
+                return { page, conversionResult };
             }
 
             // Get the correct title property name for this database
             const titlePropertyName = await this.getTitlePropertyName(databaseId);
 
-            // Build page properties
-            let properties: Record<string, unknown> = {
-                [titlePropertyName]: {
-                    type: 'title',
-                    title: [
-                        {
-                            type: 'text',
-                            text: {
-                                content: pageTitle ?? 'Untitled',
-                            },
-                        },
-                    ],
-                },
-            };
-
             // Ensure database has required properties if metadata is provided
             if (options.metadata !== undefined && Object.keys(options.metadata).length > 0) {
                 await this.ensureDatabaseProperties(databaseId);
             }
 
             // Smart property setting for all metadata
-            if (options.metadata !== undefined) {
-                // Handle description
-                if (options.metadata.description !== undefined) {
-                    await this.setPropertyValue(
-                        properties,
-                        'Description',
-                        options.metadata.description,
-                        databaseId,
-                    );
-                }
-
-                // Handle category with smart detection
-                if (options.metadata.category !== undefined) {
-                    await this.setPropertyValue(
-                        properties,
-                        'Category',
-                        options.metadata.category,
-                        databaseId,
-                    );
-                }
-
-                // Handle tags
-                if (options.metadata.tags !== undefined && Array.isArray(options.metadata.tags)) {
-                    await this.setPropertyValue(
-                        properties,
-                        'Tags',
-                        options.metadata.tags,
-                        databaseId,
-                    );
-                }
-
-                // Handle status
-                if (options.metadata.status !== undefined) {
-                    await this.setPropertyValue(
-                        properties,
-                        'Status',
-                        options.metadata.status,
-                        databaseId,
-                    );
-                }
-            }
+            let properties = await this.buildPageProperties(databaseId, titlePropertyName, pageTitle, options.metadata);
 
             // Create the page with retry logic for property type mismatches
             let page: NotionPage;
@@ -611,35 +640,7 @@ export class NotionService {
                         retryCount++;
 
                         // Rebuild properties with fresh type detection
-                        properties = {
-                            [titlePropertyName]: {
-                                type: 'title',
-                                title: [
-                                    {
-                                        type: 'text',
-                                        text: {
-                                            content: pageTitle ?? 'Untitled',
-                                        },
-                                    },
-                                ],
-                            },
-                        };
-
-                        // Re-apply metadata with fresh detection
-                        if (options.metadata !== undefined) {
-                            if (options.metadata.description !== undefined) {
-                                await this.setPropertyValue(properties, 'Description', options.metadata.description, databaseId);
-                            }
-                            if (options.metadata.category !== undefined) {
-                                await this.setPropertyValue(properties, 'Category', options.metadata.category, databaseId);
-                            }
-                            if (options.metadata.tags !== undefined && Array.isArray(options.metadata.tags)) {
-                                await this.setPropertyValue(properties, 'Tags', options.metadata.tags, databaseId);
-                            }
-                            if (options.metadata.status !== undefined) {
-                                await this.setPropertyValue(properties, 'Status', options.metadata.status, databaseId);
-                            }
-                        }
+                        properties = await this.buildPageProperties(databaseId, titlePropertyName, pageTitle, options.metadata);
                     } else {
                         // If we created a page but failed, clean it up
                         if (createdPageId !== null) {
@@ -666,73 +667,215 @@ export class NotionService {
                 }
             }
 
-            // Add blocks to the page if any, using chunked method for large documents
-            try {
-                if (blocks.length > 0) {
-                    await this.appendBlockChildrenChunked(page!.id, blocks);
-                }
-            } catch (error) {
-                // If block addition fails, clean up the page
-                let cleanupSuccessful = false;
+            // Add blocks to the page if any, journaled so a failed append can be resumed
+            if (blocks.length > 0) {
+                const resumeToken = await this.getWriteJournal().start({ pageId: page!.id, databaseId, contentHash, totalBlocks: blocks.length });
+                await this.appendJournaledBlocks(page!.id, blocks, resumeToken, 0, options.rollbackOnFailure === true);
+            }
+
+            // Page created successfully with smart property detection
+
+            await this.recordPageFile(page!.id, options, conversionResult.warnings);
+
+            return { page: page!, conversionResult };
+        } catch (error) {
+            if (error instanceof IncompleteWriteError) {
+                error.message = `Failed to create page from markdown: ${error.message}`;
+                throw error;
+            }
+            throw operationError('Failed to create page from markdown', error);
+        }
+    }
+
+    /**
+     * Append a new page's top-level blocks in chunks, recording each completed chunk in the write journal
+     * A chunk that fails partway is removed again. The page is then kept for a resume (IncompleteWriteError
+     * with the resume token), or archived with rollbackOnFailure.
+     */
+    private async appendJournaledBlocks(
+        pageId: string,
+        blocks: NotionBlockData[],
+        resumeToken: string,
+        appendedBlocks: number,
+        rollbackOnFailure: boolean,
+    ): Promise<void> {
+        const journal = this.getWriteJournal();
+        let appended = appendedBlocks;
+
+        try {
+            while (appended < blocks.length) {
+                const chunk = blocks.slice(appended, appended + MAX_BLOCKS_PER_APPEND);
+                await this.appendBlockChildrenChunked(pageId, chunk);
+                appended += chunk.length;
+                await journal.recordProgress(resumeToken, appended);
+            }
+        } catch (error) {
+            let message = error instanceof Error ? error.message : String(error);
+            if ((error instanceof UpstreamError && error.code === 'validation_error') || message.includes('should be ≤')) {
+                message = `❌ Block validation failed: ${message}`;
+            } else if (error instanceof RateLimitedError) {
+                message = `⏱️ Rate limit exceeded: ${message}`;
+            }
+
+            if (rollbackOnFailure) {
+                await journal.finish(resumeToken);
                 try {
-                    await this.archivePage(page!.id);
-                    cleanupSuccessful = true;
-                    // Successfully cleaned up orphaned page after block creation failure
+                    await this.archivePage(pageId);
+                    message += '\n\n✅ Cleanup: The partially created page has been archived.';
                 } catch {
-                    // Failed to cleanup orphaned page - manual cleanup may be required
+                    message += `\n\n⚠️ Note: A partially created page may remain in your database. Page ID: ${pageId}`;
                 }
-
-                // Enhance error message based on failure type and cleanup result
                 if (error instanceof Error) {
-                    let enhancedMessage = error.message;
+                    error.message = message;
+                    throw error;
+                }
+                throw new Error(message);
+            }
 
-                    if (error.message.includes('block_validation_error') || error.message.includes('should be ≤')) {
-                        enhancedMessage = `❌ Block validation failed: ${error.message}`;
-                    } else if (error.message.includes('rate_limited')) {
-                        enhancedMessage = `⏱️ Rate limit exceeded: ${error.message}`;
-                    }
+            // Best effort - a resume removes leftovers of the failed chunk too
+            await this.removeBlocksAfter(pageId, appended).catch(() => undefined);
+            throw new IncompleteWriteError(
+                `${message}\n\n⏸️ Appended ${appended} of ${blocks.length} blocks. The page was kept (ID: ${pageId}) - ` +
+                `retry with resumeToken "${resumeToken}" and the same content to continue from block ${appended + 1}, or archive the page.`,
+                { pageId, resumeToken, appendedBlocks: appended, totalBlocks: blocks.length, cause: error },
+            );
+        }
 
-                    if (cleanupSuccessful) {
-                        enhancedMessage += '\n\n✅ Cleanup: The partially created page has been archived.';
-                    } else {
-                        enhancedMessage += `\n\n⚠️ Note: A partially created page may remain in your database. Page ID: ${page!.id}`;
-                    }
+        await journal.finish(resumeToken);
+    }
 
-                    error.message = enhancedMessage;
-                }
+    /**
+     * Look up an interrupted page creation and get its page ready to continue: checks that the content is
+     * unchanged and the page still exists, and removes blocks of a chunk that didn't complete
+     */
+    private async resumePageWrite(
+        resumeToken: string,
+        databaseId: string,
+        contentHash: string,
+    ): Promise<{ page: NotionPage; appendedBlocks: number }> {
+        const journal = this.getWriteJournal();
+        const entry = await journal.get(resumeToken);
+        if (entry === undefined) {
+            throw new Error(`Unknown or expired resume token "${resumeToken}" - create the page again without it`);
+        }
+        if (entry.databaseId !== databaseId) {
+            throw new Error(`Resume token "${resumeToken}" belongs to a page in another database`);
+        }
+        if (entry.contentHash !== contentHash) {
+            throw new Error('The content changed since the interrupted write - resume with the same markdown, or create the page again without resumeToken');
+        }
 
-                throw error;
-            }
+        const page = await this.getPage(entry.pageId);
+        if (page.archived || page.in_trash) {
+            await journal.finish(resumeToken);
+            throw new Error(`Page ${entry.pageId} of resume token "${resumeToken}" was archived - create the page again without resumeToken`);
+        }
 
-            // Page created successfully with smart property detection
+        await this.removeBlocksAfter(page.id, entry.appendedBlocks);
+        return { page, appendedBlocks: entry.appendedBlocks };
+    }
 
-            return { page: page!, conversionResult };
-        } catch (error) {
-            throw new Error(`Failed to create page from markdown: ${String(error)}`);
+    /**
+     * Delete a page's top-level blocks after the first count (deleting a block deletes its children)
+     */
+    private async removeBlocksAfter(pageId: string, count: number): Promise<void> {
+        const blockIds: string[] = [];
+        let startCursor: string | undefined;
+        do {
+            const response = await this.getBlockChildren(pageId, startCursor);
+            blockIds.push(...response.results.map(block => block.id));
+            startCursor = response.has_more ? response.next_cursor ?? undefined : undefined;
+        } while (startCursor !== undefined);
+
+        for (const blockId of blockIds.slice(count)) {
+            await this.deleteBlock(blockId);
         }
     }
 
     /**
  * Export a Notion page to markdown
+ * With a markdownPath to save to, links to pages with local files become relative links to them, and
+ * downloadAssets puts Notion-hosted images and files (whose URLs expire) in an assets folder next to it
  */
     async exportPageToMarkdown(
         pageId: string,
         options: Partial<ConversionOptions> = {},
-    ): Promise<{ markdown: string; page: NotionPage; conversionResult: ConversionResult }> {
+        target?: { markdownPath: string; downloadAssets?: boolean },
+    ): Promise<{ markdown: string; page: NotionPage; conversionResult: ConversionResult; assets?: ExportedAsset[] }> {
         try {
             // Get the page details
             const page = await this.getPage(pageId);
 
             // Get all page blocks using optimized breadth-first parallel fetching
-            const blocks = await this.getAllBlocksRecursivelyParallel(pageId, 8);
+            // The list is flat with children attached, so only top-level blocks are converted
+            const allBlocks = await this.getAllBlocksRecursivelyParallel(pageId, 8);
+            const blocks = allBlocks.filter(block => block.parent.type === 'page_id');
+            await this.resolveBlockReferences(blocks);
+
+            const targetWarnings: string[] = [];
+            const assets = target?.downloadAssets === true
+                ? await downloadPageAssets(blocks, pageId, target.markdownPath, targetWarnings)
+                : undefined;
+
+            // Recorded first, so links from the page to itself resolve too
+            let linkResolver: PageLinkResolver | undefined;
+            if (target !== undefined) {
+                await this.recordPageFile(pageId, { documentPath: target.markdownPath }, targetWarnings);
+                linkResolver = await this.getLinkMap().createResolver(target.markdownPath);
+            }
 
             // Convert to markdown using utility function
-            const conversionResult = notionToMarkdown(blocks, options);
+            const conversionResult = notionToMarkdown(blocks, linkResolver !== undefined ? { ...options, linkResolver } : options);
+            conversionResult.warnings.push(...targetWarnings);
+            if (linkResolver !== undefined) {
+                conversionResult.unresolvedLinks = linkResolver.unresolved;
+            }
             const markdown = conversionResult.content as string;
 
-            return { markdown, page, conversionResult };
+            return { markdown, page, conversionResult, assets };
         } catch (error) {
-            throw new Error(`Failed to export page to markdown: ${String(error)}`);
+            throw operationError('Failed to export page to markdown', error);
+        }
+    }
+
+    /**
+     * Fill in what export needs from outside the page: the content of synced blocks copied
+     * from elsewhere, and the titles of link_to_page targets. Unreachable references are left as is.
+     */
+    private async resolveBlockReferences(blocks: NotionBlock[], titleCache = new Map<string, string>()): Promise<void> {
+        for (const block of blocks as Array<NotionBlock & { children?: NotionBlock[] }>) {
+            if (block.type === 'synced_block' && (block.children ?? []).length === 0) {
+                const originalId = (block.synced_block as { synced_from?: { block_id?: string } | null } | undefined)?.synced_from?.block_id;
+                if (originalId !== undefined) {
+                    try {
+                        const originalBlocks = await this.getAllBlocksRecursivelyParallel(originalId, 8);
+                        block.children = originalBlocks.filter(child => child.parent.block_id === originalId);
+                    } catch {
+                        // Original not shared with the integration - the converter notes it
+                    }
+                }
+            }
+
+            if (block.type === 'link_to_page') {
+                const target = block.link_to_page as { type?: string; page_id?: string; database_id?: string; title?: string };
+                const targetId = target.page_id ?? target.database_id;
+                if (targetId !== undefined) {
+                    if (!titleCache.has(targetId)) {
+                        try {
+                            titleCache.set(targetId, target.database_id !== undefined
+                                ? (await this.getDatabase(targetId)).title.map(text => text.plain_text).join('')
+                                : extractPageTitle(await this.getPage(targetId)));
+                        } catch {
+                            titleCache.set(targetId, '');
+                        }
+                    }
+                    target.title = titleCache.get(targetId);
+                }
+            }
+
+            if (block.children !== undefined) {
+                await this.resolveBlockReferences(block.children, titleCache);
+            }
         }
     }
 
@@ -749,73 +892,42 @@ export class NotionService {
         },
     ): Promise<NotionPage> {
         try {
-            // Build update properties
-            const properties: Record<string, unknown> = {};
-
-            if (metadata.category !== undefined) {
-                properties.Category = {
-                    select: { name: metadata.category },
-                };
-            }
-
-            if (metadata.tags !== undefined) {
-                properties.Tags = {
-                    multi_select: metadata.tags.map(tag => ({ name: tag })),
-                };
-            }
-
-            if (metadata.description !== undefined) {
-                properties.Description = {
-                    rich_text: [
-                        {
-                            text: { content: metadata.description },
-                        },
-                    ],
-                };
-            }
-
-            if (metadata.status !== undefined) {
-                properties.Status = {
-                    select: { name: metadata.status },
-                };
-            }
+            const properties = this.buildMetadataProperties(metadata);
 
             return await this.updatePage(pageId, { properties });
         } catch (error) {
-            throw new Error(`Failed to update page metadata: ${String(error)}`);
+            throw operationError('Failed to update page metadata', error);
         }
     }
 
     /**
- * Update page content (create new page, keep old page)
- */
+     * Update page content
+     * 'in-place' (default) diffs the existing blocks and keeps the page ID; 'replace' creates a new page and archives the old one
+     */
     async updatePageContent(
         pageId: string,
         options: {
             markdown?: string;
             filePath?: string;
             conversionOptions?: Partial<ConversionOptions>;
+            // File markdown content belongs to - local images, attachments and links resolve against it like for filePath
+            documentPath?: string;
+            // Folder local images and attachments may come from (default: the docs root if the file is inside it, else its folder)
+            assetRoot?: string;
+            updateMode?: 'in-place' | 'replace';
         },
-    ): Promise<{ conversionResult: ConversionResult; newPageId: string }> {
+    ): Promise<{ conversionResult: ConversionResult; newPageId: string; updateMode: 'in-place' | 'replace'; diff?: BlockDiffSummary }> {
         try {
-            // Get markdown content
-            let markdown: string;
-
-            if (options.markdown === undefined && options.filePath === undefined) {
-                throw new Error('Either markdown content or filePath must be provided');
-            }
-
-            if (options.markdown !== undefined && options.filePath !== undefined) {
-                throw new Error('Provide either markdown content or filePath, not both');
-            }
-
-            if (options.filePath !== undefined) {
-                if (!validateFilePath(options.filePath) || !options.filePath.endsWith('.md')) {
-                    throw new Error(`Invalid file path: ${options.filePath}. Must be a .md file with valid path.`);
-                }
-                markdown = await readMarkdownFile(options.filePath);
-            } else {
-                markdown = options.markdown!;
+            const markdown = await this.resolveUpdateMarkdown(options);
+
+            if (options.updateMode !== 'replace') {
+                const conversionResult = await this.convertMarkdown(markdown, options);
+                // The parallel fetch returns every block flat, with children attached to their parents
+                const existingBlocks = await this.getAllBlocksRecursivelyParallel(pageId, 8);
+                const blocks = await this.resolveLocalFiles(conversionResult.content as NotionBlockData[], options, conversionResult.warnings, undefined, existingBlocks);
+                const diff = await this.applyBlockDiff(pageId, blocks, existingBlocks);
+                await this.recordPageFile(pageId, options, conversionResult.warnings);
+                return { conversionResult, newPageId: pageId, updateMode: 'in-place', diff };
             }
 
             // Get current page to preserve metadata
@@ -832,8 +944,8 @@ export class NotionService {
             }
 
             // Convert markdown to blocks
-            const conversionResult = markdownToNotion(markdown, options.conversionOptions);
-            const blocks = conversionResult.content as NotionBlockData[];
+            const conversionResult = await this.convertMarkdown(markdown, options);
+            const blocks = await this.resolveLocalFiles(conversionResult.content as NotionBlockData[], options, conversionResult.warnings);
 
             // Create new page with same properties
             const newPage = await this.createPage({
@@ -848,13 +960,212 @@ export class NotionService {
 
             // Archive the old page to complete the replacement
             await this.archivePage(pageId);
+            await this.recordPageFile(newPage.id, options, conversionResult.warnings);
+
+            return { conversionResult, newPageId: newPage.id, updateMode: 'replace' };
+        } catch (error) {
+            throw operationError('Failed to update page content', error);
+        }
+    }
+
+    /**
+     * Bring a page's blocks in line with the desired blocks using minimal update/insert/delete calls
+     */
+    private async applyBlockDiff(pageId: string, blocks: NotionBlockData[], existingBlocks: NotionBlock[]): Promise<BlockDiffSummary> {
+        const plan = diffBlocks(pageId, existingBlocks.filter(block => block.parent.type === 'page_id'), blocks);
+
+        for (const operation of plan.operations) {
+            switch (operation.kind) {
+                case 'update':
+                    await this.updateBlock(operation.blockId, { [operation.type]: operation.data });
+                    break;
+                case 'insert':
+                    await this.appendBlockChildrenChunked(operation.parentId, operation.blocks, MAX_BLOCKS_PER_APPEND, operation.afterBlockId);
+                    break;
+                case 'delete':
+                    await this.deleteBlock(operation.blockId);
+                    break;
+            }
+        }
+
+        return plan.summary;
+    }
+
+    // ========================================
+    // DRY-RUN PREVIEWS (read-only - never call a mutating endpoint)
+    // ========================================
+
+    /**
+     * Preview createPageFromMarkdown: the schema changes, page payload and append chunks it would send
+     */
+    async previewCreatePageFromMarkdown(
+        databaseId: string,
+        options: Parameters<NotionService['createPageFromMarkdown']>[1],
+    ): Promise<{ conversionResult: ConversionResult; pageTitle: string; preview: NotionWritePreview }> {
+        try {
+            // Local files would be uploaded first
+            const requests: NotionWriteRequest[] = [];
+            const { conversionResult, blocks, pageTitle } = await this.resolveCreateInput(options, requests);
+            const titlePropertyName = await this.getTitlePropertyName(databaseId);
 
-            return { conversionResult, newPageId: newPage.id };
+            const schemaChanges = options.metadata !== undefined && Object.keys(options.metadata).length > 0
+                ? await this.planDatabasePropertyChanges(databaseId)
+                : {};
+            const properties = await this.buildPageProperties(databaseId, titlePropertyName, pageTitle, options.metadata, schemaChanges);
+
+            if (Object.keys(schemaChanges).length > 0) {
+                requests.push({ method: 'PATCH', endpoint: `/databases/${databaseId}`, body: { properties: schemaChanges } });
+            }
+            requests.push({
+                method: 'POST',
+                endpoint: '/pages',
+                body: { parent: { type: 'database_id', database_id: databaseId }, properties },
+            });
+            const appendChunks = this.previewAppendRequests(NEW_PAGE_ID_PLACEHOLDER, blocks, requests);
+
+            return { conversionResult, pageTitle, preview: { requests, appendChunks, schemaChanges } };
         } catch (error) {
-            throw new Error(`Failed to update page content: ${String(error)}`);
+            throw operationError('Failed to preview page creation', error);
         }
     }
 
+    /**
+     * Preview updatePageContent: the block operations (or replacement page) and a markdown diff against the current page
+     */
+    async previewUpdatePageContent(
+        pageId: string,
+        options: Parameters<NotionService['updatePageContent']>[1],
+    ): Promise<{ conversionResult: ConversionResult; preview: NotionWritePreview; diff?: BlockDiffSummary }> {
+        try {
+            const markdown = await this.resolveUpdateMarkdown(options);
+            const conversionResult = await this.convertMarkdown(markdown, options);
+            const requests: NotionWriteRequest[] = [];
+            let appendChunks: number[] = [];
+            let diff: BlockDiffSummary | undefined;
+            let existingBlocks: NotionBlock[];
+
+            if (options.updateMode !== 'replace') {
+                existingBlocks = await this.getAllBlocksRecursivelyParallel(pageId, 8);
+                const blocks = await this.resolveLocalFiles(conversionResult.content as NotionBlockData[], options, conversionResult.warnings, requests, existingBlocks);
+                const plan = diffBlocks(pageId, existingBlocks.filter(block => block.parent.type === 'page_id'), blocks);
+                diff = plan.summary;
+
+                for (const operation of plan.operations) {
+                    switch (operation.kind) {
+                        case 'update':
+                            requests.push({ method: 'PATCH', endpoint: `/blocks/${operation.blockId}`, body: { [operation.type]: operation.data } });
+                            break;
+                        case 'insert':
+                            appendChunks.push(...this.previewAppendRequests(operation.parentId, operation.blocks, requests, operation.afterBlockId));
+                            break;
+                        case 'delete':
+                            requests.push({ method: 'DELETE', endpoint: `/blocks/${operation.blockId}` });
+                            break;
+                    }
+                }
+            } else {
+                const currentPage = await this.getPage(pageId);
+                if (currentPage.parent.type !== 'database_id') {
+                    throw new Error('Can only update pages that are in a database');
+                }
+                existingBlocks = await this.getAllBlocksRecursivelyParallel(pageId, 8);
+                const blocks = await this.resolveLocalFiles(conversionResult.content as NotionBlockData[], options, conversionResult.warnings, requests);
+
+                requests.push({
+                    method: 'POST',
+                    endpoint: '/pages',
+                    body: { parent: { type: 'database_id', database_id: currentPage.parent.database_id }, properties: currentPage.properties },
+                });
+                appendChunks = this.previewAppendRequests(NEW_PAGE_ID_PLACEHOLDER, blocks, requests);
+                requests.push({ method: 'PATCH', endpoint: `/pages/${pageId}`, body: { archived: true } });
+            }
+
+            // Render both sides with the same converter so only real changes show up
+            const currentMarkdown = notionToMarkdown(existingBlocks.filter(block => block.parent.type === 'page_id'), { includeMetadata: false }).content as string;
+            // Local files are shown by their paths rather than upload IDs
+            const newMarkdown = notionToMarkdown(withAttachedChildren(conversionResult.content as NotionBlockData[]), { includeMetadata: false }).content as string;
+
+            return {
+                conversionResult,
+                preview: { requests, appendChunks, schemaChanges: {}, markdownDiff: diffLines(currentMarkdown, newMarkdown) },
+                diff,
+            };
+        } catch (error) {
+            throw operationError('Failed to preview page content update', error);
+        }
+    }
+
+    /**
+     * Preview updatePageMetadata: the property payload it would send
+     */
+    async previewUpdatePageMetadata(
+        pageId: string,
+        metadata: Parameters<NotionService['updatePageMetadata']>[1],
+    ): Promise<NotionWritePreview> {
+        try {
+            // Fails early on an unknown or inaccessible page, like the real update would
+            await this.getPage(pageId);
+
+            return {
+                requests: [{ method: 'PATCH', endpoint: `/pages/${pageId}`, body: { properties: this.buildMetadataProperties(metadata) } }],
+                appendChunks: [],
+                schemaChanges: {},
+            };
+        } catch (error) {
+            throw operationError('Failed to preview page metadata update', error);
+        }
+    }
+
+    /**
+     * Preview archivePage
+     */
+    async previewArchivePage(pageId: string): Promise<{ page: NotionPage; preview: NotionWritePreview }> {
+        try {
+            const page = await this.getPage(pageId);
+
+            return {
+                page,
+                preview: {
+                    requests: [{ method: 'PATCH', endpoint: `/pages/${pageId}`, body: { archived: true } }],
+                    appendChunks: [],
+                    schemaChanges: {},
+                },
+            };
+        } catch (error) {
+            throw operationError('Failed to preview page archival', error);
+        }
+    }
+
+    /**
+     * Record the chunked append requests for a block list, including follow-up requests for
+     * deeply nested children. Returns the top-level block count per chunk.
+     */
+    private previewAppendRequests(
+        parentId: string,
+        blocks: NotionBlockData[],
+        requests: NotionWriteRequest[],
+        afterBlockId?: string,
+    ): number[] {
+        const chunks: number[] = [];
+        for (let i = 0; i < blocks.length; i += MAX_BLOCKS_PER_APPEND) {
+            const { blocks: children, deferred } = splitAppendPayload(blocks.slice(i, i + MAX_BLOCKS_PER_APPEND));
+            // Later chunks are anchored on the last block created by the previous one
+            const after = i === 0 ? afterBlockId : afterBlockId !== undefined ? LAST_APPENDED_BLOCK_PLACEHOLDER : undefined;
+            const requestNumber = requests.length + 1;
+            requests.push({
+                method: 'PATCH',
+                endpoint: `/blocks/${parentId}/children`,
+                body: { children, ...(after !== undefined ? { after } : {}) },
+            });
+            chunks.push(children.length);
+
+            for (const { path, children: nested } of deferred) {
+                this.previewAppendRequests(`{block ${path.join('.')} of request ${requestNumber}}`, nested, requests);
+            }
+        }
+        return chunks;
+    }
+
     /**
      * List/query database pages with advanced filtering and sorting
      */
@@ -1057,7 +1368,7 @@ export class NotionService {
 
             return await this.queryDatabase(queryRequest);
         } catch (error) {
-            throw new Error(`Failed to query database pages: ${String(error)}`);
+            throw operationError('Failed to query database pages', error);
         }
     }
 
@@ -1075,7 +1386,9 @@ export class NotionService {
             sortBy?: 'title' | 'last_edited' | 'created' | 'category' | 'status';
             sortOrder?: 'ascending' | 'descending';
             startCursor?: string;
-            searchMode?: 'tags' | 'full-text' | 'combined';
+            searchMode?: NotionSearchMode;
+            // False: search page bodies only as already indexed, without starting an index sync
+            syncIndex?: boolean;
         } = {},
     ): Promise<{
         results: EnhancedSearchResult[];
@@ -1087,8 +1400,32 @@ export class NotionService {
         const searchMode = options.searchMode ?? 'tags';
         const searchTerm = options.search ?? '';
 
-        // Get the regular results
-        const response = await this.listDatabasePages(databaseId, options);
+        if (searchTerm !== '' && (searchMode === 'semantic' || searchMode === 'hybrid')) {
+            return this.searchPagesSemantically(databaseId, { ...options, search: searchTerm, searchMode }, startTime);
+        }
+
+        // Page bodies are only searchable through the local full-text index (first page of results only)
+        const useContentIndex = searchTerm !== '' && searchMode !== 'tags' && options.startCursor === undefined;
+
+        // Get the regular results and body matches in parallel
+        const [response, contentHits] = await Promise.all([
+            // Without a search term the semantic modes are a plain listing
+            this.listDatabasePages(databaseId, {
+                ...options,
+                searchMode: searchMode === 'semantic' || searchMode === 'hybrid' ? 'combined' : searchMode,
+            }),
+            useContentIndex
+                ? this.getSearchIndex(databaseId)
+                    .search(searchTerm, {
+                        limit: options.limit ?? 10,
+                        filters: { category: options.category, tags: options.tags, status: options.status },
+                        sync: options.syncIndex,
+                    })
+                    // Index unavailable (e.g. unreadable index file) - fall back to property matches only
+                    .catch(() => [])
+                : Promise.resolve([]),
+        ]);
+        const contentHitsById = new Map(contentHits.map(contentHit => [contentHit.page.id, contentHit.hit]));
 
         // Analyze results
         const enhancedResults: EnhancedSearchResult[] = [];
@@ -1100,6 +1437,12 @@ export class NotionService {
             executionTime: 0,
         };
 
+        const addResult = (result: EnhancedSearchResult): void => {
+            enhancedResults.push(result);
+            stats.totalResults++;
+            stats.resultsByLocation[result.metadata.matchLocation]++;
+        };
+
         // Process each result to add metadata
         for (const page of response.results) {
             let metadata: SearchResultMetadata;
@@ -1115,10 +1458,36 @@ export class NotionService {
                 };
             }
 
-            enhancedResults.push({ page, metadata });
+            // Also matched in the body - attach the snippet
+            const contentHit = contentHitsById.get(page.id);
+            if (contentHit) {
+                metadata.snippet = contentHit.snippet;
+                metadata.headingPath = contentHit.headingPath;
+                metadata.relevanceScore = contentHit.score;
+                if (metadata.matchedTerms.length === 0) {
+                    metadata.matchedTerms = contentHit.matchedTerms;
+                }
+                contentHitsById.delete(page.id);
+            }
 
-            stats.totalResults++;
-            stats.resultsByLocation[metadata.matchLocation]++;
+            addResult({ page, metadata });
+        }
+
+        // Pages that only match inside their body, best BM25 score first
+        const limit = options.limit ?? 10;
+        const bodyOnlyHits = contentHits.filter(contentHit => contentHitsById.has(contentHit.page.id));
+        for (const { page, hit } of bodyOnlyHits.slice(0, Math.max(0, limit - enhancedResults.length))) {
+            addResult({
+                page,
+                metadata: {
+                    searchMode,
+                    matchLocation: 'content',
+                    matchedTerms: hit.matchedTerms,
+                    relevanceScore: hit.score,
+                    snippet: hit.snippet,
+                    headingPath: hit.headingPath,
+                },
+            });
         }
 
         stats.executionTime = Date.now() - startTime;
@@ -1126,11 +1495,123 @@ export class NotionService {
         return {
             results: enhancedResults,
             statistics: stats,
-            hasMore: response.has_more,
+            hasMore: response.has_more || bodyOnlyHits.length > limit - response.results.length,
             nextCursor: response.next_cursor ?? undefined,
         };
     }
 
+    /**
+     * Semantic and hybrid search over page bodies (first page of results only)
+     */
+    private async searchPagesSemantically(
+        databaseId: string,
+        options: {
+            limit?: number;
+            search: string;
+            category?: string;
+            tags?: string[];
+            status?: string;
+            searchMode: 'semantic' | 'hybrid';
+        },
+        startTime: number,
+    ): Promise<{
+        results: EnhancedSearchResult[];
+        statistics: SearchStatistics;
+        hasMore: boolean;
+        nextCursor?: string;
+    }> {
+        const { search, searchMode } = options;
+        const limit = options.limit ?? 10;
+        const filters = { category: options.category, tags: options.tags, status: options.status };
+        const searchIndex = this.getSearchIndex(databaseId);
+
+        let results: EnhancedSearchResult[];
+        let hasMore: boolean;
+
+        if (searchMode === 'semantic') {
+            const semanticHits = await searchIndex.semanticSearch(search, { limit: limit + 1, filters });
+            hasMore = semanticHits.length > limit;
+            results = semanticHits.slice(0, limit).map(({ page, hit }) => ({
+                page,
+                metadata: {
+                    searchMode,
+                    matchLocation: 'content',
+                    matchedTerms: [],
+                    relevanceScore: hit.score,
+                    snippet: hit.snippet,
+                    headingPath: hit.headingPath,
+                },
+            }));
+        } else {
+            // Over-fetch both rankings so fusion has candidates to reorder
+            const [keyword, semanticHits] = await Promise.all([
+                this.searchPagesWithMetadata(databaseId, { ...options, searchMode: 'combined', limit: limit * 2 }),
+                // Semantic index unavailable - hybrid degrades to keyword ranking
+                searchIndex.semanticSearch(search, { limit: limit * 2, filters }).catch(() => []),
+            ]);
+
+            const fused = reciprocalRankFusion([
+                keyword.results.map(result => result.page.id),
+                semanticHits.map(semanticHit => semanticHit.page.id),
+            ]);
+
+            const candidates = new Map<string, EnhancedSearchResult>();
+            for (const result of keyword.results) {
+                candidates.set(result.page.id, { page: result.page, metadata: { ...result.metadata, searchMode } });
+            }
+            for (const { page, hit } of semanticHits) {
+                const existing = candidates.get(page.id);
+                if (existing) {
+                    existing.metadata.snippet ??= hit.snippet;
+                    existing.metadata.headingPath ??= hit.headingPath;
+                    continue;
+                }
+                candidates.set(page.id, {
+                    page,
+                    metadata: {
+                        searchMode,
+                        matchLocation: 'content',
+                        matchedTerms: [],
+                        snippet: hit.snippet,
+                        headingPath: hit.headingPath,
+                    },
+                });
+            }
+
+            const ranked = Array.from(candidates.values())
+                .map(result => ({ ...result, metadata: { ...result.metadata, relevanceScore: fused.get(result.page.id) ?? 0 } }))
+                .sort((a, b) => (b.metadata.relevanceScore ?? 0) - (a.metadata.relevanceScore ?? 0));
+
+            hasMore = keyword.hasMore || ranked.length > limit;
+            results = ranked.slice(0, limit);
+        }
+
+        const stats: SearchStatistics = {
+            totalResults: results.length,
+            resultsByLocation: { tags: 0, title: 0, description: 0, content: 0 },
+            searchMode,
+            searchTerm: search,
+            executionTime: Date.now() - startTime,
+        };
+        for (const result of results) {
+            stats.resultsByLocation[result.metadata.matchLocation]++;
+        }
+
+        return { results, statistics: stats, hasMore };
+    }
+
+    /**
+     * Get the full-text index for a database's page bodies
+     */
+    getSearchIndex(databaseId: string): NotionSearchIndex {
+        let index = this.searchIndexes.get(databaseId);
+        if (!index) {
+            index = new NotionSearchIndex(this, databaseId);
+            this.searchIndexes.set(databaseId, index);
+        }
+        return index;
+    }
+
     /**
      * Find the title property name in a database
      */
@@ -1155,9 +1636,252 @@ export class NotionService {
     }
 
     /**
-     * Ensure database has required properties for metadata
+     * Read markdown input for page creation and convert it to blocks
      */
-    private async ensureDatabaseProperties(databaseId: string): Promise<void> {
+    private async resolveCreateInput(
+        options: {
+            markdown?: string;
+            filePath?: string;
+            pageTitle?: string;
+            conversionOptions?: Partial<ConversionOptions>;
+            documentPath?: string;
+            assetRoot?: string;
+        },
+        previewRequests?: NotionWriteRequest[],
+    ): Promise<{ conversionResult: ConversionResult; blocks: NotionBlockData[]; pageTitle: string }> {
+        let markdown: string;
+        let { pageTitle } = options;
+
+        // Determine which input to use
+        if (options.markdown !== undefined && options.filePath !== undefined) {
+            throw new Error('Cannot provide both markdown content and filePath. Please provide only one.');
+        }
+
+        if (options.markdown !== undefined) {
+            markdown = options.markdown;
+        } else if (options.filePath !== undefined) {
+            // Read file and extract title if not provided
+            markdown = await readMarkdownFile(options.filePath);
+
+            if (pageTitle === undefined) {
+                const filename = basename(options.filePath, '.md');
+                pageTitle = filename.replace(/[-_]/g, ' ').replace(/\b\w/g, (l: string) => l.toUpperCase());
+            }
+        } else {
+            throw new Error('Either markdown content or filePath must be provided.');
+        }
+
+        // Convert markdown to blocks using utility function
+        const conversionResult = await this.convertMarkdown(markdown, options);
+
+        const blocks = await this.resolveLocalFiles(conversionResult.content as NotionBlockData[], options, conversionResult.warnings, previewRequests);
+
+        // Extract title from markdown if not provided
+        pageTitle ??= extractTitleFromMarkdown(markdown) ?? 'Untitled';
+
+        return { conversionResult, blocks, pageTitle };
+    }
+
+    /**
+     * The local file markdown input belongs to: filePath, or documentPath for markdown passed as content
+     */
+    private getDocumentPath(source: { filePath?: string; documentPath?: string }): string | undefined {
+        const path = source.filePath ?? source.documentPath;
+        return path !== undefined ? resolve(path) : undefined;
+    }
+
+    private getLinkMap(): NotionLinkMap {
+        this.linkMap ??= new NotionLinkMap();
+        return this.linkMap;
+    }
+
+    private getWriteJournal(): NotionWriteJournal {
+        this.writeJournal ??= new NotionWriteJournal();
+        return this.writeJournal;
+    }
+
+    /**
+     * Convert markdown input to blocks; links to the local files of other pages become page mentions
+     */
+    private async convertMarkdown(
+        markdown: string,
+        source: { filePath?: string; documentPath?: string; conversionOptions?: Partial<ConversionOptions> },
+    ): Promise<ConversionResult> {
+        const documentPath = this.getDocumentPath(source);
+        if (documentPath === undefined) {
+            return markdownToNotion(markdown, source.conversionOptions ?? {});
+        }
+
+        const linkResolver = await this.getLinkMap().createResolver(documentPath);
+        const conversionResult = markdownToNotion(markdown, { ...source.conversionOptions, linkResolver });
+        conversionResult.unresolvedLinks = linkResolver.unresolved;
+        return conversionResult;
+    }
+
+    /**
+     * Remember the local file of a page written from (or exported to) it, for link resolution
+     * The page write already happened, so a failure is only a warning
+     */
+    private async recordPageFile(pageId: string, source: { filePath?: string; documentPath?: string }, warnings: string[]): Promise<void> {
+        const documentPath = this.getDocumentPath(source);
+        if (documentPath === undefined) {
+            return;
+        }
+
+        try {
+            await this.getLinkMap().record(pageId, documentPath);
+        } catch (error) {
+            warnings.push(`Could not record the local file of page ${pageId}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Upload the local images and attachments of converted blocks, resolved against the markdown file's folder.
+     * Files may come from anywhere inside assetRoot, else the docs root when the markdown file is inside it,
+     * else only the file's folder. Dry runs only record the upload requests. Unchanged assets exported from
+     * existingBlocks, the blocks of the page being updated, stay those blocks.
+     */
+    private async resolveLocalFiles(
+        blocks: NotionBlockData[],
+        source: { filePath?: string; documentPath?: string; assetRoot?: string },
+        warnings: string[],
+        previewRequests?: NotionWriteRequest[],
+        existingBlocks?: NotionBlock[],
+    ): Promise<NotionBlockData[]> {
+        this.fileUploader ??= new NotionFileUploader(this);
+        const documentPath = this.getDocumentPath(source);
+        let location: LocalFileLocation | undefined;
+        if (documentPath !== undefined) {
+            const docsRoot = getKnowledgeHubConfig().sources.docs.root;
+            const rootDirectory = [source.assetRoot, docsRoot]
+                .map(root => root !== undefined ? resolve(root) : undefined)
+                .find((root): root is string => root !== undefined && isInsideDirectory(root, documentPath));
+            location = { baseDirectory: dirname(documentPath), rootDirectory: rootDirectory ?? dirname(documentPath) };
+        }
+        return this.fileUploader.resolveLocalFiles(blocks, location, warnings, previewRequests, existingBlocks);
+    }
+
+    /**
+     * Read markdown input for a content update
+     */
+    private async resolveUpdateMarkdown(options: { markdown?: string; filePath?: string }): Promise<string> {
+        if (options.markdown === undefined && options.filePath === undefined) {
+            throw new Error('Either markdown content or filePath must be provided');
+        }
+
+        if (options.markdown !== undefined && options.filePath !== undefined) {
+            throw new Error('Provide either markdown content or filePath, not both');
+        }
+
+        if (options.filePath !== undefined) {
+            if (!validateFilePath(options.filePath) || !options.filePath.endsWith('.md')) {
+                throw new Error(`Invalid file path: ${options.filePath}. Must be a .md file with valid path.`);
+            }
+            return readMarkdownFile(options.filePath);
+        }
+
+        return options.markdown!;
+    }
+
+    /**
+     * Build new-page properties: the title plus any metadata the database schema supports
+     */
+    private async buildPageProperties(
+        databaseId: string,
+        titlePropertyName: string,
+        pageTitle: string,
+        metadata?: {
+            category?: string;
+            tags?: string[];
+            description?: string;
+            status?: string;
+        },
+        schemaChanges: Record<string, unknown> = {},
+    ): Promise<Record<string, unknown>> {
+        const properties: Record<string, unknown> = {
+            [titlePropertyName]: {
+                type: 'title',
+                title: [
+                    {
+                        type: 'text',
+                        text: {
+                            content: pageTitle,
+                        },
+                    },
+                ],
+            },
+        };
+
+        if (metadata === undefined) {
+            return properties;
+        }
+
+        if (metadata.description !== undefined) {
+            await this.setPropertyValue(properties, 'Description', metadata.description, databaseId, schemaChanges);
+        }
+
+        // Handle category with smart detection
+        if (metadata.category !== undefined) {
+            await this.setPropertyValue(properties, 'Category', metadata.category, databaseId, schemaChanges);
+        }
+
+        if (metadata.tags !== undefined && Array.isArray(metadata.tags)) {
+            await this.setPropertyValue(properties, 'Tags', metadata.tags, databaseId, schemaChanges);
+        }
+
+        if (metadata.status !== undefined) {
+            await this.setPropertyValue(properties, 'Status', metadata.status, databaseId, schemaChanges);
+        }
+
+        return properties;
+    }
+
+    /**
+     * Build the property payload for a metadata-only update
+     */
+    private buildMetadataProperties(metadata: {
+        category?: string;
+        tags?: string[];
+        description?: string;
+        status?: string;
+    }): Record<string, unknown> {
+        const properties: Record<string, unknown> = {};
+
+        if (metadata.category !== undefined) {
+            properties.Category = {
+                select: { name: metadata.category },
+            };
+        }
+
+        if (metadata.tags !== undefined) {
+            properties.Tags = {
+                multi_select: metadata.tags.map(tag => ({ name: tag })),
+            };
+        }
+
+        if (metadata.description !== undefined) {
+            properties.Description = {
+                rich_text: [
+                    {
+                        text: { content: metadata.description },
+                    },
+                ],
+            };
+        }
+
+        if (metadata.status !== undefined) {
+            properties.Status = {
+                select: { name: metadata.status },
+            };
+        }
+
+        return properties;
+    }
+
+    /**
+     * Work out which metadata properties are missing from the database schema (or have the wrong type)
+     */
+    private async planDatabasePropertyChanges(databaseId: string): Promise<Record<string, unknown>> {
         try {
             const database = await this.getDatabase(databaseId);
             const existingProperties = database.properties;
@@ -1193,6 +1917,20 @@ export class NotionService {
             // Don't create Category - respect existing configuration
             // Category property handling is done through smart detection
 
+            return propertiesToCreate;
+        } catch {
+            // Failed to read database schema, continue with existing schema
+            return {};
+        }
+    }
+
+    /**
+     * Ensure database has required properties for metadata
+     */
+    private async ensureDatabaseProperties(databaseId: string): Promise<void> {
+        try {
+            const propertiesToCreate = await this.planDatabasePropertyChanges(databaseId);
+
             // Only update if there are properties to add
             if (Object.keys(propertiesToCreate).length > 0) {
                 await this.updateDatabase(databaseId, {
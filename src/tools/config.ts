@@ -0,0 +1,130 @@
+/**
+ * MCP Tool for checking the Knowledge Hub configuration
+ * Reports which sources are enabled, what is missing and what is invalid - also run by the config-check CLI command
+ */
+
+import { z } from 'zod';
+import fs from 'fs-extra';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { NotionDatabaseRegistry } from '../services/notion-databases.js';
+import { InvalidConfigError, LoadedKnowledgeHubConfig, getLoadedKnowledgeHubConfig, loadKnowledgeHubConfig } from '../utils/config.js';
+
+export interface ConfigCheckResult {
+    // False when the file is invalid or a setting is wrong; sources without credentials only warn
+    ok: boolean;
+    text: string;
+}
+
+/**
+ * Check a config file - the given one, else the file loaded at startup, else the one that would be found now
+ */
+export async function checkConfig(path?: string): Promise<ConfigCheckResult> {
+    let loaded: LoadedKnowledgeHubConfig;
+    try {
+        loaded = await loadKnowledgeHubConfig({ path: path ?? getLoadedKnowledgeHubConfig().path });
+    } catch (error) {
+        if (error instanceof InvalidConfigError) {
+            return {
+                ok: false,
+                text: `❌ Invalid configuration\n\n**File:** ${error.path}\n\n${error.issues.map(issue => `• ${issue}`).join('\n')}`,
+            };
+        }
+        throw error;
+    }
+
+    const { config } = loaded;
+    const errors: string[] = [
+        ...loaded.missingVariables.map(name => `${name} is referenced in the config file but not set`),
+        ...loaded.problems,
+    ];
+    const lines: string[] = [];
+
+    const { docs, guru, notion } = config.sources;
+    if (!docs.enabled) {
+        lines.push('• 📁 Local docs: ⏸️ disabled');
+    } else if (docs.root === undefined) {
+        lines.push('• 📁 Local docs: ⚠️ no docs root (sources.docs.root or DOCS_ROOT)');
+    } else if (!await fs.pathExists(docs.root)) {
+        lines.push(`• 📁 Local docs: ❌ ${docs.root} does not exist`);
+        errors.push(`Docs root ${docs.root} does not exist`);
+    } else {
+        lines.push(`• 📁 Local docs: ✅ ${docs.root}`);
+    }
+
+    if (!guru.enabled) {
+        lines.push('• 🧠 Guru: ⏸️ disabled');
+    } else if (guru.token === undefined) {
+        lines.push('• 🧠 Guru: ⚠️ no token (sources.guru.token or GURU_TOKEN)');
+    } else if (!/^[^:]+:.+$/.test(guru.token)) {
+        lines.push('• 🧠 Guru: ❌ token must be in format "username:token" or "collection_id:token"');
+        errors.push('Guru token is not in format "username:token"');
+    } else {
+        lines.push('• 🧠 Guru: ✅ token set');
+    }
+
+    if (!notion.enabled) {
+        lines.push('• 📝 Notion: ⏸️ disabled');
+    } else {
+        const registry = NotionDatabaseRegistry.fromConfig(config);
+        const profiles = registry.list();
+        errors.push(...registry.getProblems());
+        if (profiles.length === 0) {
+            lines.push('• 📝 Notion: ⚠️ no token (sources.notion.token or NOTION_TOKEN)');
+        } else {
+            const defaultAlias = registry.getDefaultAlias();
+            lines.push(`• 📝 Notion: ✅ ${profiles.length} database profile(s)`);
+            for (const profile of profiles) {
+                const database = profile.databaseId !== undefined ? `database ${profile.databaseId}` : '⚠️ no databaseId (pages by ID only)';
+                lines.push(`  - ${profile.alias}${profile.alias === defaultAlias ? ' (default)' : ''}: ${database}`);
+            }
+        }
+    }
+
+    const optionNames = Object.keys(config.conversion.options);
+    const settings = [
+        `• Conversion preset: ${config.conversion.preset ?? 'none (defaults)'}${optionNames.length > 0 ? `, options: ${optionNames.join(', ')}` : ''}`,
+        `• Search: default limit ${config.search.defaultLimit}, embeddings ${config.search.embeddingProvider}${config.search.embeddingModel !== undefined ? ` (${config.search.embeddingModel})` : ''}`,
+        `• Cache directory: ${config.search.indexDir}`,
+        `• Debug output: ${config.debug ? 'on' : 'off'}`,
+    ];
+
+    const header = errors.length === 0 ? '✅ Configuration OK' : `⚠️ Configuration has ${errors.length} problem(s)`;
+    const file = loaded.path ?? 'none - environment variables only';
+    const problemText = errors.length > 0 ? `\n\n**Problems:**\n${errors.map(error => `• ${error}`).join('\n')}` : '';
+
+    return {
+        ok: errors.length === 0,
+        text: `${header}\n\n**File:** ${file}\n\n**Sources:**\n${lines.join('\n')}\n\n**Settings:**\n${settings.join('\n')}${problemText}`,
+    };
+}
+
+/**
+ * Configure the configuration check tool
+ */
+export function configureConfigTools(server: McpServer): void {
+    server.tool(
+        'config-check',
+        'Check the Knowledge Hub configuration (knowledge-hub.config.json/yaml and environment variables): which sources are enabled, which credentials or settings are missing, and what is invalid. The file is re-read, so edits can be checked before restarting the server.',
+        {
+            path: z.string().optional().describe('Config file to check (default: the file the server was started with, else knowledge-hub.config.* in the working directory)'),
+        },
+        async ({ path }: { path?: string }) => {
+            try {
+                const result = await checkConfig(path);
+                return {
+                    content: [{
+                        type: 'text' as const,
+                        text: result.text,
+                    }],
+                };
+            } catch (error) {
+                return {
+                    content: [{
+                        type: 'text' as const,
+                        text: `❌ Config check failed:\n${error instanceof Error ? error.message : String(error)}`,
+                    }],
+                };
+            }
+        },
+    );
+}
@@ -0,0 +1,255 @@
+/**
+ * MCP Tools for local markdown documentation
+ * Browses the configured docs directory (sources.docs.root or DOCS_ROOT) - all operations go through DocsService
+ */
+
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { DocsService } from '../services/docs.js';
+import { getKnowledgeHubConfig } from '../utils/config.js';
+
+// Global service instance
+let docsService: DocsService | undefined;
+
+const DOCS_NOT_CONFIGURED_MESSAGE = '📁 Local docs not configured: DOCS_ROOT environment variable is required.\n\nTo use local documentation tools, set DOCS_ROOT (or sources.docs.root in knowledge-hub.config) to the directory containing your markdown docs.';
+
+/**
+ * Initialize the DocsService from the configured docs root
+ */
+export function initializeDocsService(): void {
+    const { enabled, root } = getKnowledgeHubConfig().sources.docs;
+    // Note: Local docs tools will not be functional without a docs root
+    docsService = enabled && root !== undefined ? new DocsService(root) : undefined;
+}
+
+/**
+ * Get the configured DocsService (undefined when there is no docs root or docs are disabled)
+ */
+export function getDocsService(): DocsService | undefined {
+    return docsService;
+}
+
+/**
+ * Tool 1: List local documents
+ */
+export async function listDocsTool({ category }: {
+    category?: string;
+}): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+        if (docsService === undefined) {
+            return {
+                content: [{
+                    type: 'text' as const,
+                    text: DOCS_NOT_CONFIGURED_MESSAGE,
+                }],
+            };
+        }
+
+        const documents = await docsService.listDocuments(category);
+
+        if (documents.length === 0) {
+            const filterText = category !== undefined && category !== '' ? ` in category "${category}"` : '';
+            return {
+                content: [{
+                    type: 'text' as const,
+                    text: `📁 No documents found${filterText} under ${docsService.getRootDir()}`,
+                }],
+            };
+        }
+
+        // Group documents by category for readability
+        const byCategory = new Map<string, typeof documents>();
+        for (const document of documents) {
+            const group = byCategory.get(document.category) ?? [];
+            group.push(document);
+            byCategory.set(document.category, group);
+        }
+
+        const sections = Array.from(byCategory.entries()).map(([docCategory, docs]) => {
+            const lines = docs.map(doc => {
+                let line = `• **${doc.metadata.title ?? doc.name}** (name: \`${doc.name}\`)`;
+                if (doc.metadata.description !== undefined && doc.metadata.description !== '') {
+                    line += `\n  ${doc.metadata.description}`;
+                }
+                if (doc.metadata.tags !== undefined && doc.metadata.tags.length > 0) {
+                    line += `\n  Tags: ${doc.metadata.tags.join(', ')}`;
+                }
+                line += `\n  Words: ${doc.metadata.wordCount ?? 0}`;
+                return line;
+            });
+            return `## 📂 ${docCategory}\n\n${lines.join('\n')}`;
+        });
+
+        return {
+            content: [{
+                type: 'text' as const,
+                text: `📚 Local Documents (${documents.length})\n**Root:** ${docsService.getRootDir()}\n\n${sections.join('\n\n')}\n\n💡 Use docs-read with a category and name to read a document.`,
+            }],
+        };
+    } catch (error) {
+        return {
+            content: [{
+                type: 'text' as const,
+                text: `❌ Failed to list documents:\n${error instanceof Error ? error.message : String(error)}`,
+            }],
+        };
+    }
+}
+
+/**
+ * Tool 2: Read a local document
+ */
+export async function readDocTool({ category, name }: {
+    category: string;
+    name: string;
+}): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+        if (docsService === undefined) {
+            return {
+                content: [{
+                    type: 'text' as const,
+                    text: DOCS_NOT_CONFIGURED_MESSAGE,
+                }],
+            };
+        }
+
+        const document = await docsService.readDocument(category, name);
+        const { metadata } = document;
+
+        const details: string[] = [
+            `**Category:** ${document.category}`,
+            `**Path:** ${document.path}`,
+        ];
+        if (metadata.description !== undefined && metadata.description !== '') {
+            details.push(`**Description:** ${metadata.description}`);
+        }
+        if (metadata.tags !== undefined && metadata.tags.length > 0) {
+            details.push(`**Tags:** ${metadata.tags.join(', ')}`);
+        }
+        if (metadata.author !== undefined && metadata.author !== '') {
+            details.push(`**Author:** ${metadata.author}`);
+        }
+        if (metadata.lastModified !== undefined) {
+            details.push(`**Last Modified:** ${metadata.lastModified}`);
+        }
+        details.push(`**Words:** ${metadata.wordCount ?? 0}`);
+
+        return {
+            content: [{
+                type: 'text' as const,
+                text: `# ${metadata.title ?? document.name}\n\n${details.join('\n')}\n\n---\n\n${document.content}`,
+            }],
+        };
+    } catch (error) {
+        return {
+            content: [{
+                type: 'text' as const,
+                text: `❌ Failed to read document:\n${error instanceof Error ? error.message : String(error)}`,
+            }],
+        };
+    }
+}
+
+/**
+ * Tool 3: Search local documents
+ */
+export async function searchDocsTool({ query, category, limit = 10 }: {
+    query: string;
+    category?: string;
+    limit?: number;
+}): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+        if (docsService === undefined) {
+            return {
+                content: [{
+                    type: 'text' as const,
+                    text: DOCS_NOT_CONFIGURED_MESSAGE,
+                }],
+            };
+        }
+
+        const results = await docsService.searchDocuments(query, { category, limit });
+
+        if (results.length === 0) {
+            return {
+                content: [{
+                    type: 'text' as const,
+                    text: `🔍 No local documents found matching "${query}"\n\n💡 Try shorter or more general terms, or use docs-list to browse categories.`,
+                }],
+            };
+        }
+
+        const lines = results.map(result => {
+            const { document } = result;
+            let entry = `• **${document.metadata.title ?? document.name}**`;
+            entry += `\n  Category: ${document.category} | Name: ${document.name}`;
+            entry += `\n  ↳ Matched in: ${result.matchLocation} (${result.matchedTerms.join(', ')})`;
+            entry += `\n  Score: ${result.score.toFixed(1)}`;
+            if (result.snippet !== undefined) {
+                entry += `\n  > ${result.snippet}`;
+            }
+            return entry;
+        });
+
+        return {
+            content: [{
+                type: 'text' as const,
+                text: `🔍 Local Docs Search Results (${results.length} found)\n📝 Query: "${query}"\n\n${lines.join('\n\n')}`,
+            }],
+        };
+    } catch (error) {
+        return {
+            content: [{
+                type: 'text' as const,
+                text: `❌ Failed to search documents:\n${error instanceof Error ? error.message : String(error)}`,
+            }],
+        };
+    }
+}
+
+/**
+ * Configure local documentation tools for MCP server
+ */
+export function configureDocsTools(server: McpServer): void {
+    initializeDocsService();
+    if (!getKnowledgeHubConfig().sources.docs.enabled) {
+        // Local docs are disabled in the config file - their tools aren't offered
+        return;
+    }
+
+    server.tool(
+        'docs-list',
+        'List local markdown documentation under DOCS_ROOT, grouped by category (the directory path relative to the docs root). Shows titles, descriptions and tags from frontmatter.',
+        {
+            category: z.string().optional().describe('Only list documents in this category (and its sub-categories). Example: "code_guidelines/flutter".'),
+        },
+        async (args: { category?: string }) => {
+            return listDocsTool(args);
+        },
+    );
+
+    server.tool(
+        'docs-read',
+        'Read the full content of a local markdown document by category and name, including its frontmatter metadata.',
+        {
+            category: z.string().describe('Document category as shown by docs-list (directory path relative to the docs root, or "general" for top-level files)'),
+            name: z.string().describe('Document name without the .md extension, as shown by docs-list'),
+        },
+        async (args: { category: string; name: string }) => {
+            return readDocTool(args);
+        },
+    );
+
+    server.tool(
+        'docs-search',
+        'Search local markdown documentation by title, tags, headings and body text. Results are ranked by relevance and include a snippet around the first match.',
+        {
+            query: z.string().describe('Search terms. Each term is matched case-insensitively.'),
+            category: z.string().optional().describe('Restrict the search to a category (and its sub-categories)'),
+            limit: z.number().optional().describe('Maximum number of results (default: 10)'),
+        },
+        async (args: { query: string; category?: string; limit?: number }) => {
+            return searchDocsTool(args);
+        },
+    );
+}
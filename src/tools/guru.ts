@@ -1,6 +1,8 @@
 import { z } from 'zod';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { GuruService } from '../services/guru.js';
+import { getKnowledgeHubConfig } from '../utils/config.js';
+import { formatToolError } from '../utils/errors.js';
 
 interface GuruCard {
     id: string;
@@ -24,13 +26,12 @@ interface GuruSearchResponse {
  * Configure Guru API tools
  */
 export function configureGuruTools(server: McpServer): void {
-    const guruService = new GuruService();
-
-    // Check if Guru credentials are available
-    const hasGuruCredentials = process.env.GURU_TOKEN;
-    if (hasGuruCredentials === undefined || hasGuruCredentials === '') {
-        // Note: Guru tools will not be functional without GURU_TOKEN
+    if (!getKnowledgeHubConfig().sources.guru.enabled) {
+        // Guru is disabled in the config file - its tools aren't offered
+        return;
     }
+    // Note: Guru tools will not be functional without a Guru token
+    const guruService = new GuruService();
 
     // Tool to list/search Guru cards
     server.tool(
@@ -112,20 +113,10 @@ export function configureGuruTools(server: McpServer): void {
                     }],
                 };
             } catch (error) {
-                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-                if (errorMessage.includes('GURU_TOKEN environment variable')) {
-                    return {
-                        content: [{
-                            type: 'text',
-                            text: '🔐 Guru API not configured: GURU_TOKEN environment variable is required.\n\nTo use Guru tools, set GURU_TOKEN in format "username:token" in your MCP configuration.',
-                        }],
-                    };
-                }
-
                 return {
                     content: [{
                         type: 'text',
-                        text: `Error searching Guru cards: ${errorMessage}`,
+                        text: formatToolError(error, 'Failed to search Guru cards'),
                     }],
                 };
             }
@@ -164,20 +155,10 @@ export function configureGuruTools(server: McpServer): void {
                     }],
                 };
             } catch (error) {
-                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-                if (errorMessage.includes('GURU_TOKEN environment variable')) {
-                    return {
-                        content: [{
-                            type: 'text',
-                            text: '🔐 Guru API not configured: GURU_TOKEN environment variable is required.\n\nTo use Guru tools, set GURU_TOKEN in format "username:token" in your MCP configuration.',
-                        }],
-                    };
-                }
-
                 return {
                     content: [{
                         type: 'text',
-                        text: `Error reading Guru card: ${errorMessage}`,
+                        text: formatToolError(error, 'Failed to read Guru card'),
                     }],
                 };
             }
@@ -227,7 +208,7 @@ export function configureGuruTools(server: McpServer): void {
                             result += `**Content:** Binary file (${fileData.length} bytes) - use the file ID to download separately`;
                         }
                     } catch (downloadError) {
-                        result += `\n---\n\n**Download Error:** ${downloadError instanceof Error ? downloadError.message : 'Unknown error'}`;
+                        result += `\n---\n\n**Download Error:**\n${formatToolError(downloadError, 'Failed to download attachment')}`;
                     }
                 }
 
@@ -238,20 +219,10 @@ export function configureGuruTools(server: McpServer): void {
                     }],
                 };
             } catch (error) {
-                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-                if (errorMessage.includes('GURU_TOKEN environment variable')) {
-                    return {
-                        content: [{
-                            type: 'text',
-                            text: '🔐 Guru API not configured: GURU_TOKEN environment variable is required.\n\nTo use Guru tools, set GURU_TOKEN in format "username:token" in your MCP configuration.',
-                        }],
-                    };
-                }
-
                 return {
                     content: [{
                         type: 'text',
-                        text: `Error getting card attachments: ${errorMessage}`,
+                        text: formatToolError(error, 'Failed to get card attachments'),
                     }],
                 };
             }
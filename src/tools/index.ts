@@ -2,5 +2,10 @@
  * Tools barrel exports
  */
 
+export * from './config.js';
+export * from './docs.js';
 export * from './guru.js';
 export * from './notion.js';
+export * from './search.js';
+export * from './sections.js';
+export * from './sync.js';
@@ -5,10 +5,28 @@
 
 import { z } from 'zod';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { isAbsolute } from 'path';
 import { NotionService } from '../services/notion.js';
-import { extractPageTitle } from '../utils/converters.js';
-import type { NotionPage, NotionSelectOption } from '../types/notion.js';
-import type { EnhancedSearchResult, SearchStatistics } from '../types/search.js';
+import { NotionDatabaseRegistry } from '../services/notion-databases.js';
+import { ASSETS_DIRECTORY, ExportedAsset } from '../services/notion-assets.js';
+import type { UnresolvedLink } from '../utils/notion-links.js';
+import { extractPageTitle, resolveConversionOptions } from '../utils/converters.js';
+import { CONVERSION_PRESET_NAMES, ConversionOptions, ConversionPresetName } from '../types/markdown.js';
+import type { NotionDatabaseProfile, NotionPage, NotionSelectOption, NotionWritePreview } from '../types/notion.js';
+import type { EnhancedSearchResult, NotionSearchMode, SearchStatistics } from '../types/search.js';
+import { formatToolError } from '../utils/errors.js';
+import { conversionOptionsSchema, getKnowledgeHubConfig } from '../utils/config.js';
+
+// Argument of every Notion tool: the database profile to use
+const databaseArg = {
+    database: z.string().optional().describe('Alias of the Notion database to use (see list-databases). Defaults to the default database.'),
+};
+
+// Arguments shared by the tools that convert between markdown and Notion
+const conversionArgs = {
+    preset: z.enum(CONVERSION_PRESET_NAMES).optional().describe('Named conversion preset for the target markdown flavour: "github", "obsidian" or "docusaurus". Defaults to the configured preset (conversion.preset in the config file, or NOTION_CONVERSION_PRESET), if set.'),
+    conversionOptions: conversionOptionsSchema.partial().optional().describe('Individual conversion options, applied on top of the preset'),
+};
 
 interface NotionDatabaseResult {
     results: NotionPage[];
@@ -25,11 +43,19 @@ interface NotionPageCreationResult {
         };
         warnings?: string[];
         errors?: string[];
+        unresolvedLinks?: UnresolvedLink[];
     };
 }
 
 interface NotionPageUpdateResult {
     newPageId: string;
+    updateMode: 'in-place' | 'replace';
+    diff?: {
+        kept: number;
+        updated: number;
+        inserted: number;
+        deleted: number;
+    };
     conversionResult: {
         statistics?: {
             convertedBlocks?: number;
@@ -37,33 +63,52 @@ interface NotionPageUpdateResult {
         };
         warnings?: string[];
         errors?: string[];
+        unresolvedLinks?: UnresolvedLink[];
     };
 }
 
 interface NotionPageExportResult {
     page: NotionPage;
     markdown: string;
+    assets?: ExportedAsset[];
     conversionResult: {
         statistics?: {
             totalBlocks?: number;
         };
         warnings?: string[];
+        unresolvedLinks?: UnresolvedLink[];
     };
 }
 
-// Global service instance
-let notionService: NotionService;
+// Global database profiles, with a service per workspace
+let notionDatabases = new NotionDatabaseRegistry([]);
 
 /**
- * Initialize the NotionService with configuration
+ * Initialize the Notion database profiles from the configuration
  */
 export function initializeNotionService(): void {
-    const notionToken = process.env.NOTION_TOKEN;
-    if (notionToken === undefined || notionToken === '') {
-        // Note: Notion tools will not be functional without NOTION_TOKEN
-        return;
+    notionDatabases = NotionDatabaseRegistry.fromConfig();
+    for (const problem of notionDatabases.getProblems()) {
+        console.error(`Warning: ${problem}`);
     }
-    notionService = new NotionService({ token: notionToken });
+}
+
+/**
+ * Get the NotionService of a database profile, the default one when omitted (undefined when it isn't configured)
+ */
+export function getNotionService(database?: string): NotionService | undefined {
+    try {
+        return notionDatabases.getService(database);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Get the configured Notion database profiles
+ */
+export function getNotionDatabases(): NotionDatabaseRegistry {
+    return notionDatabases;
 }
 
 // ========================================
@@ -75,6 +120,8 @@ const SEARCH_MODE_ICONS = {
     'tags': '🏷️',
     'full-text': '📄',
     'combined': '🔍',
+    'semantic': '🧭',
+    'hybrid': '🔀',
 };
 
 // Add match location indicators
@@ -85,6 +132,53 @@ const MATCH_LOCATION_ICONS = {
     'content': '📄',
 };
 
+/**
+ * Page metadata with the category and status defaults of the target database filled in
+ */
+function withProfileDefaults<T extends { category?: string; status?: string }>(metadata: T | undefined, profile: NotionDatabaseProfile): T | undefined {
+    const defaults = {
+        ...(profile.defaultCategory !== undefined && metadata?.category === undefined ? { category: profile.defaultCategory } : {}),
+        ...(profile.defaultStatus !== undefined && metadata?.status === undefined ? { status: profile.defaultStatus } : {}),
+    };
+    return Object.keys(defaults).length > 0 ? { ...metadata, ...defaults } as T : metadata;
+}
+
+/**
+ * Format the links between pages and local markdown files that couldn't be resolved
+ */
+function formatUnresolvedLinks(links: UnresolvedLink[] | undefined): string {
+    if (links === undefined || links.length === 0) {
+        return '';
+    }
+    return `\n\n**🔗 Unresolved links (${links.length}):**\n${links.map(link => `- ${link.link} - ${link.reason}`).join('\n')}`;
+}
+
+/**
+ * Format a dry-run preview: schema changes, append chunking, markdown diff and the exact request payloads
+ */
+function formatWritePreview(preview: NotionWritePreview): string {
+    const lines: string[] = ['🧪 **Dry run - no changes were made**', ''];
+
+    const schemaChanges = Object.entries(preview.schemaChanges);
+    lines.push(schemaChanges.length > 0
+        ? `**Schema changes:** would add ${schemaChanges.map(([name, definition]) => `${name} (${Object.keys(definition as Record<string, unknown>)[0]})`).join(', ')}`
+        : '**Schema changes:** none');
+
+    if (preview.appendChunks.length > 0) {
+        lines.push(`**Block appends:** ${preview.appendChunks.length} request(s) - ${preview.appendChunks.map(count => `${count} blocks`).join(', ')}`);
+    }
+
+    if (preview.markdownDiff !== undefined) {
+        lines.push('', '**Markdown diff against current page:**');
+        lines.push(preview.markdownDiff !== '' ? `\`\`\`diff\n${preview.markdownDiff}\n\`\`\`` : 'No content changes.');
+    }
+
+    lines.push('', `**Requests (${preview.requests.length}):**`);
+    lines.push(`\`\`\`json\n${JSON.stringify(preview.requests, null, 2)}\n\`\`\``);
+
+    return lines.join('\n');
+}
+
 /**
  * Format enhanced search results with match information
  */
@@ -123,6 +217,11 @@ function formatEnhancedSearchResults(results: EnhancedSearchResult[], stats: Sea
             lines.push(`  ↳ Matched terms: ${metadata.matchedTerms.join(', ')}`);
         }
 
+        if (metadata.snippet !== undefined && metadata.snippet !== '') {
+            const location = metadata.headingPath && metadata.headingPath.length > 0 ? ` (in ${metadata.headingPath.join(' › ')})` : '';
+            lines.push(`  ↳ Content match${location}: ${metadata.snippet}`);
+        }
+
         // Include other page details
         lines.push(`  ID: ${page.id}`);
 
@@ -184,7 +283,7 @@ function formatNoResultsMessage(searchTerm: string, searchMode: string): string
 
     switch (searchMode) {
         case 'tags':
-            lines.push('• Try searching in full-text mode to search titles and descriptions');
+            lines.push('• Try searching in full-text mode to search titles, descriptions and page content');
             lines.push('• Check if the tag exists using the list-categories tool');
             lines.push('• Tags are case-sensitive - try different variations');
             break;
@@ -198,13 +297,20 @@ function formatNoResultsMessage(searchTerm: string, searchMode: string): string
             lines.push('• Try more general search terms');
             lines.push('• Create a new page with this content');
             break;
+        case 'semantic':
+        case 'hybrid':
+            lines.push('• Rephrase the question as a short description of the topic');
+            lines.push('• Try combined mode for exact keyword matches');
+            break;
     }
 
     lines.push('');
     lines.push('🔧 **Other search modes:**');
     lines.push('• `searchMode: "tags"` - Search only in tags');
-    lines.push('• `searchMode: "full-text"` - Search titles and descriptions');
+    lines.push('• `searchMode: "full-text"` - Search titles, descriptions and page content');
     lines.push('• `searchMode: "combined"` - Search everywhere');
+    lines.push('• `searchMode: "semantic"` - Search page content by meaning');
+    lines.push('• `searchMode: "hybrid"` - Combine keyword and semantic ranking');
 
     return lines.join('\n');
 }
@@ -226,6 +332,7 @@ export async function listDatabasePagesTool({
     sortOrder = 'descending',
     startCursor,
     searchMode = 'tags',
+    database,
 }: {
     limit?: number;
     search?: string;
@@ -235,27 +342,11 @@ export async function listDatabasePagesTool({
     sortBy?: 'title' | 'last_edited' | 'created' | 'category' | 'status';
     sortOrder?: 'ascending' | 'descending';
     startCursor?: string;
-    searchMode?: 'tags' | 'full-text' | 'combined';
+    searchMode?: NotionSearchMode;
+    database?: string;
 }): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
     try {
-        if (notionService === undefined) {
-            return {
-                content: [{
-                    type: 'text' as const,
-                    text: '🔐 Notion API not configured: NOTION_TOKEN environment variable is required.\n\nTo use Notion tools, set NOTION_TOKEN and NOTION_MCP_DATABASE_ID in your MCP configuration.',
-                }],
-            };
-        }
-
-        const databaseId = process.env.NOTION_MCP_DATABASE_ID;
-        if (databaseId === undefined || databaseId === '') {
-            return {
-                content: [{
-                    type: 'text' as const,
-                    text: '🔐 Notion database not configured: NOTION_MCP_DATABASE_ID environment variable is required.\n\nTo use Notion tools, set NOTION_MCP_DATABASE_ID in your MCP configuration.',
-                }],
-            };
-        }
+        const { service: notionService, databaseId } = notionDatabases.getDatabase(database);
 
         // Use enhanced search if search term is provided
         if (search !== undefined && search !== '') {
@@ -308,7 +399,7 @@ export async function listDatabasePagesTool({
             sortBy,
             sortOrder,
             startCursor,
-            searchMode,
+            searchMode: searchMode === 'semantic' || searchMode === 'hybrid' ? 'combined' : searchMode,
         }) as NotionDatabaseResult;
 
         if (result.results.length === 0) {
@@ -437,6 +528,8 @@ export async function listDatabasePagesTool({
                 headerText += 'full-text (searching in all content)';
             } else if (searchMode === 'combined') {
                 headerText += 'combined (searching everywhere)';
+            } else {
+                headerText += `${searchMode} (ranking page content by meaning)`;
             }
         }
 
@@ -480,7 +573,7 @@ export async function listDatabasePagesTool({
         return {
             content: [{
                 type: 'text' as const,
-                text: `❌ Failed to query database pages:\n${error instanceof Error ? error.message : String(error)}`,
+                text: formatToolError(error, 'Failed to query database pages'),
             }],
         };
     }
@@ -489,7 +582,7 @@ export async function listDatabasePagesTool({
 /**
  * Tool 2: Create Page (from markdown content or file)
  */
-export async function createPageFromMarkdownTool({ markdown, filePath, pageTitle, metadata }: {
+export async function createPageFromMarkdownTool({ markdown, filePath, pageTitle, metadata, preset, conversionOptions, dryRun = false, resumeToken, rollbackOnFailure, database }: {
     markdown?: string;
     filePath?: string;
     pageTitle?: string;
@@ -499,23 +592,32 @@ export async function createPageFromMarkdownTool({ markdown, filePath, pageTitle
         description?: string;
         status?: string;
     };
+    preset?: ConversionPresetName;
+    conversionOptions?: Partial<ConversionOptions>;
+    dryRun?: boolean;
+    resumeToken?: string;
+    rollbackOnFailure?: boolean;
+    database?: string;
 }): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
     try {
-        if (notionService === undefined) {
-            return {
-                content: [{
-                    type: 'text' as const,
-                    text: '🔐 Notion API not configured: NOTION_TOKEN environment variable is required.\n\nTo use Notion tools, set NOTION_TOKEN and NOTION_MCP_DATABASE_ID in your MCP configuration.',
-                }],
-            };
-        }
+        const { service: notionService, databaseId, profile } = notionDatabases.getDatabase(database);
+
+        const resolvedOptions = resolveConversionOptions(preset, conversionOptions);
+        const pageMetadata = withProfileDefaults(metadata, profile);
+
+        if (dryRun) {
+            const { conversionResult, pageTitle: resolvedTitle, preview } = await notionService.previewCreatePageFromMarkdown(databaseId, {
+                markdown,
+                filePath,
+                pageTitle,
+                metadata: pageMetadata,
+                conversionOptions: resolvedOptions,
+            });
 
-        const databaseId = process.env.NOTION_MCP_DATABASE_ID;
-        if (databaseId === undefined || databaseId === '') {
             return {
                 content: [{
                     type: 'text' as const,
-                    text: '🔐 Notion database not configured: NOTION_MCP_DATABASE_ID environment variable is required.\n\nTo use Notion tools, set NOTION_MCP_DATABASE_ID in your MCP configuration.',
+                    text: `📝 Would create page "${resolvedTitle}" with ${conversionResult.statistics?.convertedBlocks ?? 0} blocks (${conversionResult.warnings.length} warnings, ${conversionResult.errors.length} errors)${formatUnresolvedLinks(conversionResult.unresolvedLinks)}\n\n${formatWritePreview(preview)}`,
                 }],
             };
         }
@@ -524,13 +626,16 @@ export async function createPageFromMarkdownTool({ markdown, filePath, pageTitle
             markdown,
             filePath,
             pageTitle,
-            metadata,
+            metadata: pageMetadata,
+            conversionOptions: resolvedOptions,
+            resumeToken,
+            rollbackOnFailure,
         }) as NotionPageCreationResult;
 
         return {
             content: [{
                 type: 'text' as const,
-                text: `✅ Page created successfully!\n\n**Page Details:**\n- Title: ${pageTitle ?? 'Untitled'}\n- ID: ${result.page.id}\n- URL: ${result.page.url ?? 'N/A'}\n\n**Conversion Statistics:**\n- Blocks created: ${result.conversionResult.statistics?.convertedBlocks ?? 0}\n- Warnings: ${result.conversionResult.warnings?.length ?? 0}\n- Errors: ${result.conversionResult.errors?.length ?? 0}`,
+                text: `✅ Page ${resumeToken !== undefined ? 'creation resumed and completed' : 'created successfully'}!\n\n**Page Details:**\n- Title: ${pageTitle ?? 'Untitled'}\n- ID: ${result.page.id}\n- URL: ${result.page.url ?? 'N/A'}\n\n**Conversion Statistics:**\n- Blocks created: ${result.conversionResult.statistics?.convertedBlocks ?? 0}\n- Warnings: ${result.conversionResult.warnings?.length ?? 0}\n- Errors: ${result.conversionResult.errors?.length ?? 0}${formatUnresolvedLinks(result.conversionResult.unresolvedLinks)}`,
             }],
         };
     } catch (error) {
@@ -613,7 +718,7 @@ This approach ensures the documentation remains readable and useful while meetin
         return {
             content: [{
                 type: 'text' as const,
-                text: `❌ Page creation failed:\n${errorMessage}`,
+                text: formatToolError(error, 'Page creation failed'),
             }],
         };
     }
@@ -622,26 +727,9 @@ This approach ensures the documentation remains readable and useful while meetin
 /**
  * Tool 2.5: List Available Categories
  */
-export async function listCategoriesTool(): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+export async function listCategoriesTool({ database: alias }: { database?: string } = {}): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
     try {
-        if (notionService === undefined) {
-            return {
-                content: [{
-                    type: 'text' as const,
-                    text: '🔐 Notion API not configured: NOTION_TOKEN environment variable is required.\n\nTo use Notion tools, set NOTION_TOKEN and NOTION_MCP_DATABASE_ID in your MCP configuration.',
-                }],
-            };
-        }
-
-        const databaseId = process.env.NOTION_MCP_DATABASE_ID;
-        if (databaseId === undefined || databaseId === '') {
-            return {
-                content: [{
-                    type: 'text' as const,
-                    text: '🔐 Notion database not configured: NOTION_MCP_DATABASE_ID environment variable is required.\n\nTo use Notion tools, set NOTION_MCP_DATABASE_ID in your MCP configuration.',
-                }],
-            };
-        }
+        const { service: notionService, databaseId } = notionDatabases.getDatabase(alias);
 
         // Get database structure to find Category property
         const database = await notionService.getDatabase(databaseId);
@@ -704,7 +792,7 @@ export async function listCategoriesTool(): Promise<{ content: Array<{ type: 'te
         return {
             content: [{
                 type: 'text' as const,
-                text: `❌ Failed to list categories: ${error instanceof Error ? error.message : String(error)}`,
+                text: formatToolError(error, 'Failed to list categories'),
             }],
         };
     }
@@ -713,36 +801,47 @@ export async function listCategoriesTool(): Promise<{ content: Array<{ type: 'te
 /**
  * Tool 3: Update Page (metadata and/or content)
  */
-export async function updatePageTool({ pageId, markdown, filePath, category, tags, description }: {
+export async function updatePageTool({ pageId, markdown, filePath, category, tags, description, updateMode, preset, conversionOptions, dryRun = false, database }: {
     pageId: string;
     markdown?: string;
     filePath?: string;
     category?: string;
     tags?: string[];
     description?: string;
+    updateMode?: 'in-place' | 'replace';
+    preset?: ConversionPresetName;
+    conversionOptions?: Partial<ConversionOptions>;
+    dryRun?: boolean;
+    database?: string;
 }): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
     try {
-        if (notionService === undefined) {
-            return {
-                content: [{
-                    type: 'text' as const,
-                    text: '🔐 Notion API not configured: NOTION_TOKEN environment variable is required.\n\nTo use Notion tools, set NOTION_TOKEN and NOTION_MCP_DATABASE_ID in your MCP configuration.',
-                }],
-            };
+        const notionService = notionDatabases.getService(database);
+
+        const resolvedOptions = resolveConversionOptions(preset, conversionOptions);
+
+        if (dryRun) {
+            return await previewPageUpdate({ pageId, markdown, filePath, category, tags, description, updateMode, conversionOptions: resolvedOptions }, notionService);
         }
 
         const updates: string[] = [];
         let conversionResult: NotionPageUpdateResult['conversionResult'] | null = null;
 
-        // Handle content updates (create new page with updated content, archive old page)
+        // Handle content updates (diff blocks in place, or create new page and archive old page)
         if ((markdown !== undefined && markdown !== '') || (filePath !== undefined && filePath !== '')) {
             const result = await notionService.updatePageContent(pageId, {
                 markdown,
                 filePath,
+                conversionOptions: resolvedOptions,
+                updateMode,
             }) as NotionPageUpdateResult;
             conversionResult = result.conversionResult;
-            pageId = result.newPageId; // Update to new page ID
-            updates.push(`Content replaced (${result.conversionResult.statistics?.convertedBlocks ?? 0} blocks) - NEW PAGE ID: ${result.newPageId}`);
+            if (result.updateMode === 'in-place' && result.diff) {
+                const { kept, updated, inserted, deleted } = result.diff;
+                updates.push(`Content updated in place (${kept} unchanged, ${updated} updated, ${inserted} inserted, ${deleted} deleted blocks)`);
+            } else {
+                pageId = result.newPageId; // Update to new page ID
+                updates.push(`Content replaced (${result.conversionResult.statistics?.convertedBlocks ?? 0} blocks) - NEW PAGE ID: ${result.newPageId}`);
+            }
         }
 
         // Handle metadata updates
@@ -767,7 +866,7 @@ export async function updatePageTool({ pageId, markdown, filePath, category, tag
         let responseText = `✅ Page updated successfully!\n\n**Page ID:** ${pageId}\n**Updates Applied:**\n${updates.map(u => `• ${u}`).join('\n')}`;
 
         if (conversionResult) {
-            responseText += `\n\n**Content Conversion:**\n- Blocks created: ${conversionResult.statistics?.convertedBlocks ?? 0}\n- Warnings: ${conversionResult.warnings?.length ?? 0}\n- Errors: ${conversionResult.errors?.length ?? 0}`;
+            responseText += `\n\n**Content Conversion:**\n- Blocks created: ${conversionResult.statistics?.convertedBlocks ?? 0}\n- Warnings: ${conversionResult.warnings?.length ?? 0}\n- Errors: ${conversionResult.errors?.length ?? 0}${formatUnresolvedLinks(conversionResult.unresolvedLinks)}`;
         }
 
         return {
@@ -780,12 +879,70 @@ export async function updatePageTool({ pageId, markdown, filePath, category, tag
         return {
             content: [{
                 type: 'text' as const,
-                text: `❌ Page update failed:\n${error instanceof Error ? error.message : String(error)}`,
+                text: formatToolError(error, 'Page update failed'),
             }],
         };
     }
 }
 
+/**
+ * Dry run for update-page: content and metadata requests combined, in the order the tool would send them
+ */
+async function previewPageUpdate({ pageId, markdown, filePath, category, tags, description, updateMode, conversionOptions }: {
+    pageId: string;
+    markdown?: string;
+    filePath?: string;
+    category?: string;
+    tags?: string[];
+    description?: string;
+    updateMode?: 'in-place' | 'replace';
+    conversionOptions: ConversionOptions;
+}, service: NotionService): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    const summary: string[] = [];
+    const preview: NotionWritePreview = { requests: [], appendChunks: [], schemaChanges: {} };
+    let targetPageId = pageId;
+
+    if ((markdown !== undefined && markdown !== '') || (filePath !== undefined && filePath !== '')) {
+        const contentPreview = await service.previewUpdatePageContent(pageId, { markdown, filePath, conversionOptions, updateMode });
+        Object.assign(preview, contentPreview.preview);
+        if (contentPreview.diff) {
+            const { kept, updated, inserted, deleted } = contentPreview.diff;
+            summary.push(`Content would be updated in place (${kept} unchanged, ${updated} updated, ${inserted} inserted, ${deleted} deleted blocks)`);
+        } else {
+            summary.push(`Content would be replaced (${contentPreview.conversionResult.statistics?.convertedBlocks ?? 0} blocks) on a new page; the current page would be archived`);
+            targetPageId = '{new-page-id}';
+        }
+    }
+
+    const metadata: Record<string, string | string[]> = {};
+    if (category !== undefined && category !== '') {
+        metadata.category = category;
+    }
+    if (tags !== undefined) {
+        metadata.tags = tags;
+    }
+    if (description !== undefined && description !== '') {
+        metadata.description = description;
+    }
+    if (Object.keys(metadata).length > 0) {
+        const metadataPreview = await service.previewUpdatePageMetadata(pageId, metadata);
+        // The real update applies metadata to the page that exists after the content update
+        preview.requests.push(...metadataPreview.requests.map(request => ({ ...request, endpoint: `/pages/${targetPageId}` })));
+        summary.push(`Metadata would be set: ${Object.keys(metadata).join(', ')}`);
+    }
+
+    if (summary.length === 0) {
+        summary.push('Nothing to update');
+    }
+
+    return {
+        content: [{
+            type: 'text' as const,
+            text: `📝 **Page ID:** ${pageId}\n${summary.map(line => `• ${line}`).join('\n')}\n\n${formatWritePreview(preview)}`,
+        }],
+    };
+}
+
 /**
  * Tool 3.5: Update Page Metadata Only
  */
@@ -795,24 +952,35 @@ export async function updatePageMetadataTool(args: {
         tags?: string[];
         status?: string;
         description?: string;
+        dryRun?: boolean;
+        database?: string;
     },
 ): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
     try {
-        if (notionService === undefined) {
+        const notionService = notionDatabases.getService(args.database);
+
+        // Validate at least one metadata field is provided
+        if (args.category === undefined && args.tags === undefined && args.status === undefined && args.description === undefined) {
             return {
                 content: [{
                     type: 'text' as const,
-                    text: '❌ Notion service not configured. Please set NOTION_TOKEN and NOTION_MCP_DATABASE_ID environment variables.',
+                    text: '❌ At least one metadata field must be provided (category, tags, status, or description)',
                 }],
             };
         }
 
-        // Validate at least one metadata field is provided
-        if (args.category === undefined && args.tags === undefined && args.status === undefined && args.description === undefined) {
+        if (args.dryRun === true) {
+            const preview = await notionService.previewUpdatePageMetadata(args.pageId, {
+                category: args.category,
+                tags: args.tags,
+                status: args.status,
+                description: args.description,
+            });
+
             return {
                 content: [{
                     type: 'text' as const,
-                    text: '❌ At least one metadata field must be provided (category, tags, status, or description)',
+                    text: `📝 Would update metadata of page ${args.pageId}\n\n${formatWritePreview(preview)}`,
                 }],
             };
         }
@@ -847,11 +1015,10 @@ export async function updatePageMetadataTool(args: {
             }],
         };
     } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
         return {
             content: [{
                 type: 'text' as const,
-                text: `❌ Failed to update page metadata: ${errorMessage}`,
+                text: formatToolError(error, 'Failed to update page metadata'),
             }],
         };
     }
@@ -860,15 +1027,21 @@ export async function updatePageMetadataTool(args: {
 /**
  * Tool 4: Archive Page
  */
-export async function archivePageTool({ pageId }: {
+export async function archivePageTool({ pageId, dryRun = false, database }: {
     pageId: string;
+    dryRun?: boolean;
+    database?: string;
 }): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
     try {
-        if (notionService === undefined) {
+        const notionService = notionDatabases.getService(database);
+
+        if (dryRun) {
+            const { page, preview } = await notionService.previewArchivePage(pageId);
+
             return {
                 content: [{
                     type: 'text' as const,
-                    text: '🔐 Notion API not configured: NOTION_TOKEN environment variable is required.\n\nTo use Notion tools, set NOTION_TOKEN and NOTION_MCP_DATABASE_ID in your MCP configuration.',
+                    text: `📝 Would archive "${extractPageTitle(page)}" (${page.url ?? pageId})\n\n${formatWritePreview(preview)}`,
                 }],
             };
         }
@@ -885,7 +1058,7 @@ export async function archivePageTool({ pageId }: {
         return {
             content: [{
                 type: 'text' as const,
-                text: `❌ Page archival failed:\n${error instanceof Error ? error.message : String(error)}`,
+                text: formatToolError(error, 'Page archival failed'),
             }],
         };
     }
@@ -894,27 +1067,34 @@ export async function archivePageTool({ pageId }: {
 /**
  * Tool 5: Export Page (to markdown)
  */
-export async function exportPageToMarkdownTool({ pageId, saveToFile }: {
+export async function exportPageToMarkdownTool({ pageId, saveToFile, downloadAssets, fidelity, preset, conversionOptions, database }: {
     pageId: string;
     saveToFile?: string; // absolute file path
+    downloadAssets?: boolean;
+    fidelity?: boolean;
+    preset?: ConversionPresetName;
+    conversionOptions?: Partial<ConversionOptions>;
+    database?: string;
 }): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
     try {
-        if (notionService === undefined) {
-            return {
-                content: [{
-                    type: 'text' as const,
-                    text: '🔐 Notion API not configured: NOTION_TOKEN environment variable is required.\n\nTo use Notion tools, set NOTION_TOKEN and NOTION_MCP_DATABASE_ID in your MCP configuration.',
-                }],
-            };
+        const notionService = notionDatabases.getService(database);
+
+        const saving = saveToFile !== undefined && saveToFile !== '';
+        if (saving && !isAbsolute(saveToFile)) {
+            throw new Error(`saveToFile must be an absolute path. Received: ${saveToFile}`);
+        }
+        if (downloadAssets === true && !saving) {
+            throw new Error('downloadAssets needs saveToFile, to place the assets folder next to');
         }
 
-        const result = await notionService.exportPageToMarkdown(pageId) as NotionPageExportResult;
+        const options = resolveConversionOptions(preset, { ...conversionOptions, ...(fidelity !== undefined ? { fidelity } : {}) });
+        const result = await notionService.exportPageToMarkdown(pageId, options, saving ? { markdownPath: saveToFile, downloadAssets } : undefined) as NotionPageExportResult;
         const pageTitle = extractPageTitle(result.page);
 
-        let responseText = `✅ Page exported successfully!\n\n**Page Title:** ${pageTitle}\n\n**Markdown Content:**\n\`\`\`markdown\n${result.markdown}\n\`\`\`\n\n**Statistics:**\n- Blocks processed: ${result.conversionResult.statistics?.totalBlocks ?? 0}\n- Warnings: ${result.conversionResult.warnings?.length ?? 0}`;
+        let responseText = `✅ Page exported successfully!\n\n**Page Title:** ${pageTitle}\n\n**Markdown Content:**\n\`\`\`markdown\n${result.markdown}\n\`\`\`\n\n**Statistics:**\n- Blocks processed: ${result.conversionResult.statistics?.totalBlocks ?? 0}\n- Warnings: ${result.conversionResult.warnings?.length ?? 0}${formatUnresolvedLinks(result.conversionResult.unresolvedLinks)}`;
 
         // Show warning details only in development mode
-        if (process.env.NODE_ENV === 'development' && result.conversionResult.warnings && result.conversionResult.warnings.length > 0) {
+        if (getKnowledgeHubConfig().debug && result.conversionResult.warnings && result.conversionResult.warnings.length > 0) {
             responseText += '\n\n**🔧 WARNING DETAILS (dev mode):**\n';
             result.conversionResult.warnings.forEach((warning, index) => {
                 responseText += `${index + 1}. ${warning}\n`;
@@ -922,22 +1102,22 @@ export async function exportPageToMarkdownTool({ pageId, saveToFile }: {
         }
 
         // Save to file if path specified
-        if (saveToFile !== undefined && saveToFile !== '') {
+        if (saving) {
             const fs = await import('fs');
             const path = await import('path');
 
             try {
-                // Validate absolute path
-                if (!path.isAbsolute(saveToFile)) {
-                    throw new Error(`saveToFile must be an absolute path. Received: ${saveToFile}`);
-                }
-
                 // Create directory if needed
                 await fs.promises.mkdir(path.dirname(saveToFile), { recursive: true });
 
                 // Write file
                 await fs.promises.writeFile(saveToFile, result.markdown, 'utf8');
                 responseText += `\n\n**Saved to:** \`${saveToFile}\``;
+
+                if (result.assets !== undefined) {
+                    const downloaded = result.assets.filter(asset => asset.downloaded).length;
+                    responseText += `\n**Assets:** ${result.assets.length} in \`${path.join(path.dirname(saveToFile), ASSETS_DIRECTORY)}\` (${downloaded} downloaded, ${result.assets.length - downloaded} unchanged)`;
+                }
             } catch (fileError) {
                 responseText += `\n\n**File save failed:** ${fileError instanceof Error ? fileError.message : String(fileError)}`;
             }
@@ -953,7 +1133,7 @@ export async function exportPageToMarkdownTool({ pageId, saveToFile }: {
         return {
             content: [{
                 type: 'text' as const,
-                text: `❌ Page export failed:\n${error instanceof Error ? error.message : String(error)}`,
+                text: formatToolError(error, 'Page export failed'),
             }],
         };
     }
@@ -963,21 +1143,56 @@ export async function exportPageToMarkdownTool({ pageId, saveToFile }: {
 // MCP TOOL CONFIGURATION
 // ========================================
 
+/**
+ * Tool 6: List Database Profiles
+ */
+export function listDatabasesTool(): { content: Array<{ type: 'text'; text: string }> } {
+    const profiles = notionDatabases.list();
+    const problems = notionDatabases.getProblems();
+    const problemText = problems.length > 0 ? `\n\n⚠️ **Configuration problems:**\n${problems.map(problem => `• ${problem}`).join('\n')}` : '';
+
+    if (profiles.length === 0) {
+        return {
+            content: [{
+                type: 'text' as const,
+                text: `🔐 No Notion databases configured.\n\nSet NOTION_TOKEN and NOTION_MCP_DATABASE_ID, or NOTION_DATABASES with named profiles, in your MCP configuration.${problemText}`,
+            }],
+        };
+    }
+
+    const defaultAlias = notionDatabases.getDefaultAlias();
+    const entries = profiles.map(profile => {
+        const details = [
+            `  Database ID: ${profile.databaseId ?? 'none (pages by ID only)'}`,
+            ...(profile.description !== undefined ? [`  Description: ${profile.description}`] : []),
+            ...(profile.defaultCategory !== undefined ? [`  Default category: ${profile.defaultCategory}`] : []),
+            ...(profile.defaultStatus !== undefined ? [`  Default status: ${profile.defaultStatus}`] : []),
+        ];
+        return `• **${profile.alias}**${profile.alias === defaultAlias ? ' (default)' : ''}\n${details.join('\n')}`;
+    });
+
+    return {
+        content: [{
+            type: 'text' as const,
+            text: `🗂️ Notion Databases (${profiles.length})\n\n${entries.join('\n\n')}${problemText}\n\n💡 Pass \`database: "<alias>"\` to any Notion tool to use another database.`,
+        }],
+    };
+}
+
 /**
  * Configure Notion tools for MCP server
  */
 export function configureNotionTools(server: McpServer): void {
-    // Initialize the notion service (it will handle token checking internally)
-    try {
-        initializeNotionService();
-    } catch {
-        // Note: Failed to initialize Notion service - tools will not be functional
+    initializeNotionService();
+    if (!getKnowledgeHubConfig().sources.notion.enabled) {
+        // Notion is disabled in the config file - its tools aren't offered
         return;
     }
+
     // Tool 1: List/Query/Search Database Pages
     server.tool(
         'list-database-pages',
-        'Query and search documentation pages in the Notion database. Supports advanced filtering by search terms, categories, tags, status, and flexible sorting. NEW: Use searchMode parameter to control search behavior - \'tags\' (default) for better relevance, \'full-text\' for previous behavior, or \'combined\' to search everywhere with tag match indicators.',
+        'Query and search documentation pages in the Notion database. Supports advanced filtering by search terms, categories, tags, status, and flexible sorting. NEW: Use searchMode parameter to control search behavior - \'tags\' (default) for better relevance, \'full-text\' to also search page bodies, or \'combined\' to search everywhere with tag match indicators.',
         {
             limit: z.number().optional().describe('Maximum number of pages to return (default: 10, max: 100). Use smaller limits for focused results.'),
             search: z.string().optional().describe('Search text that will be matched against page titles and descriptions. Case-insensitive partial matching. Example: "riverpod testing" finds pages with those terms.'),
@@ -987,7 +1202,8 @@ export function configureNotionTools(server: McpServer): void {
             sortBy: z.enum(['title', 'last_edited', 'created', 'category', 'status']).optional().describe('Sort field (default: last_edited). Use "last_edited" for newest content, "title" for alphabetical, "created" for chronological, "category" to group by type.'),
             sortOrder: z.enum(['ascending', 'descending']).optional().describe('Sort direction (default: descending). Descending shows newest/latest first, ascending shows oldest/earliest first.'),
             startCursor: z.string().optional().describe('Pagination cursor from previous response to get next page of results. Only use if previous response indicated "has_more: true".'),
-            searchMode: z.enum(['tags', 'full-text', 'combined']).default('tags').optional().describe('Search mode controls where to search. "tags" (default): Search only in page tags for better relevance. "full-text": Search in all content (previous behavior). "combined": Search everywhere but indicate tag matches.'),
+            searchMode: z.enum(['tags', 'full-text', 'combined', 'semantic', 'hybrid']).default('tags').optional().describe('Search mode controls where to search. "tags" (default): Search only in page tags for better relevance. "full-text": Search titles, descriptions and page bodies (body matches come from a local BM25 index and include a snippet with its heading path). "combined": Search everywhere but indicate tag matches. "semantic": Rank page sections by meaning using local embeddings - use for natural-language questions. "hybrid": Fuse combined and semantic rankings.'),
+            ...databaseArg,
         },
         async (args: {
             limit?: number;
@@ -998,7 +1214,8 @@ export function configureNotionTools(server: McpServer): void {
             sortBy?: 'title' | 'last_edited' | 'created' | 'category' | 'status';
             sortOrder?: 'ascending' | 'descending';
             startCursor?: string;
-            searchMode?: 'tags' | 'full-text' | 'combined';
+            searchMode?: NotionSearchMode;
+            database?: string;
         }) => {
             return listDatabasePagesTool(args);
         },
@@ -1007,7 +1224,7 @@ export function configureNotionTools(server: McpServer): void {
     // Tool 2: Create Page from Markdown
     server.tool(
         'create-page-from-markdown',
-        'Create a new documentation page in Notion from markdown content or a markdown file. Automatically converts markdown syntax to Notion blocks and sets proper metadata. Choose either markdown content OR filePath, not both. If page creation fails after the page is created, it will be automatically archived to prevent orphaned pages.',
+        'Create a new documentation page in Notion from markdown content or a markdown file. Automatically converts markdown syntax to Notion blocks and sets proper metadata. Choose either markdown content OR filePath, not both. Blocks are appended in journaled chunks: if appending fails partway, the page is kept and the error returns a resumeToken - call again with the same content and that resumeToken to continue from the last appended chunk, or set rollbackOnFailure to archive the page instead (all-or-nothing).',
         {
             markdown: z.string().optional().describe('Raw markdown content to convert and create as a page. Supports standard markdown: headers, lists, code blocks, links, etc. Cannot be used with filePath.'),
             filePath: z.string().optional().describe('Absolute file system path to markdown file (e.g., "/Users/username/code/ai-docs-mcp/mcp_server/docs/code_guidelines/flutter/architecture/providers.md"). File will be read and converted. Cannot be used with markdown.'),
@@ -1018,6 +1235,11 @@ export function configureNotionTools(server: McpServer): void {
                 description: z.string().optional().describe('Brief description of the page content. Will be searchable and shown in listings. Keep concise but descriptive.'),
                 status: z.string().optional().describe('Publication status. Use "published" for live docs, "draft" for work in progress, "review" for pending approval. Default is usually "published".'),
             }).optional().describe('Metadata object containing category, tags, description, and status for the page. All fields optional but recommended for discoverability.'),
+            ...conversionArgs,
+            dryRun: z.boolean().optional().describe('Preview only: return the exact request payloads, append chunk sizes and database schema changes without changing anything in Notion'),
+            resumeToken: z.string().optional().describe('Resume token from a failed creation: appends the remaining blocks to the page it created instead of creating a new page. Requires the same markdown or file content; title and metadata are not applied again.'),
+            rollbackOnFailure: z.boolean().optional().describe('Archive the page if appending its blocks fails (all-or-nothing) instead of keeping it for a resume. Default: false'),
+            ...databaseArg,
         },
         async (args: {
             markdown?: string;
@@ -1029,6 +1251,12 @@ export function configureNotionTools(server: McpServer): void {
                 description?: string;
                 status?: string;
             };
+            preset?: ConversionPresetName;
+            conversionOptions?: Partial<ConversionOptions>;
+            dryRun?: boolean;
+            resumeToken?: string;
+            rollbackOnFailure?: boolean;
+            database?: string;
         }) => {
             return createPageFromMarkdownTool(args);
         },
@@ -1038,16 +1266,28 @@ export function configureNotionTools(server: McpServer): void {
     server.tool(
         'list-categories',
         'List all available categories in the Notion database with their type (select/multi_select). Shows the category options that can be used when creating or updating pages.',
+        {
+            ...databaseArg,
+        },
+        async (args: { database?: string }) => {
+            return listCategoriesTool(args);
+        },
+    );
+
+    // Tool 2.6: List Databases
+    server.tool(
+        'list-databases',
+        'List the Notion databases the tools can target, by alias: the database ID, description and default category/status of each, and which one is used when a tool call names no database.',
         {},
-        async () => {
-            return listCategoriesTool();
+        () => {
+            return listDatabasesTool();
         },
     );
 
     // Tool 3: Update Page
     server.tool(
         'update-page',
-        'Update an existing Notion page\'s content and/or metadata. Can replace entire page content with new markdown or just update metadata properties. Content updates create a new page and archive the old one to preserve history.',
+        'Update an existing Notion page\'s content and/or metadata. Can replace entire page content with new markdown or just update metadata properties. Content updates are applied in place by diffing blocks, so the page ID, comments and history are kept; updateMode "replace" instead creates a new page and archives the old one.',
         {
             pageId: z.string().describe('Notion page ID to update (from list-database-pages results). Format: "20de87a1-81d0-8197-931a-ece2d3207b4b"'),
             markdown: z.string().optional().describe('New markdown content to completely replace page content. Supports all markdown syntax. Cannot be used with filePath. WARNING: This replaces ALL existing content.'),
@@ -1055,6 +1295,10 @@ export function configureNotionTools(server: McpServer): void {
             category: z.string().optional().describe('Update page category. Must be one of: "best-practices", "architecture", "api-reference", "testing", "examples", "guides", "reference". Leave blank to keep existing.'),
             tags: z.array(z.string()).optional().describe('Replace page tags completely with this array. Examples: ["flutter", "riverpod", "updated"]. Leave blank to keep existing tags. This REPLACES all tags, not adds to them.'),
             description: z.string().optional().describe('Update page description. Will be searchable. Leave blank to keep existing description.'),
+            updateMode: z.enum(['in-place', 'replace']).optional().describe('How content updates are applied: "in-place" (default) changes only the blocks that differ and keeps the page ID; "replace" creates a new page and archives the old one.'),
+            ...conversionArgs,
+            dryRun: z.boolean().optional().describe('Preview only: return the exact request payloads and a markdown diff against the current page without changing anything in Notion'),
+            ...databaseArg,
         },
         async (args: {
             pageId: string;
@@ -1063,6 +1307,11 @@ export function configureNotionTools(server: McpServer): void {
             category?: string;
             tags?: string[];
             description?: string;
+            updateMode?: 'in-place' | 'replace';
+            preset?: ConversionPresetName;
+            conversionOptions?: Partial<ConversionOptions>;
+            dryRun?: boolean;
+            database?: string;
         }) => {
             return updatePageTool(args);
         },
@@ -1078,6 +1327,8 @@ export function configureNotionTools(server: McpServer): void {
             tags: z.array(z.string()).optional().describe('New tags for the page (replaces existing tags)'),
             status: z.string().optional().describe('New status for the page'),
             description: z.string().optional().describe('New description for the page'),
+            dryRun: z.boolean().optional().describe('Preview only: return the exact request payloads without changing anything in Notion'),
+            ...databaseArg,
         },
         async (args: {
             pageId: string;
@@ -1085,6 +1336,8 @@ export function configureNotionTools(server: McpServer): void {
             tags?: string[];
             status?: string;
             description?: string;
+            dryRun?: boolean;
+            database?: string;
         }) => {
             return updatePageMetadataTool(args);
         },
@@ -1096,8 +1349,10 @@ export function configureNotionTools(server: McpServer): void {
         'Archive (soft delete) a Notion page by moving it to trash. The page will be removed from the database and no longer visible in listings. Use this to remove outdated or incorrect documentation. Cannot be undone via API.',
         {
             pageId: z.string().describe('Notion page ID to archive (from list-database-pages results). Format: "20de87a1-81d0-8197-931a-ece2d3207b4b". Page will be moved to trash.'),
+            dryRun: z.boolean().optional().describe('Preview only: return the exact request payloads without changing anything in Notion'),
+            ...databaseArg,
         },
-        async (args: { pageId: string }) => {
+        async (args: { pageId: string; dryRun?: boolean; database?: string }) => {
             return archivePageTool(args);
         },
     );
@@ -1108,9 +1363,13 @@ export function configureNotionTools(server: McpServer): void {
         'Export a Notion page to clean markdown format. Converts all Notion blocks back to standard markdown syntax. Uses optimized parallel block fetching for improved performance.',
         {
             pageId: z.string().describe('Notion page ID to export (from list-database-pages results). Format: "20de87a1-81d0-8197-931a-ece2d3207b4b"'),
-            saveToFile: z.string().optional().describe('Absolute file system path to save the markdown file (e.g., "/Users/username/docs/export.md"). If provided, file will be created/overwritten. Directory must exist or will be created.'),
+            saveToFile: z.string().optional().describe('Absolute file system path to save the markdown file (e.g., "/Users/username/docs/export.md"). If provided, file will be created/overwritten. Directory must exist or will be created. Links to pages that have local markdown files (created, updated, synced or exported from or to them) become relative links to those files.'),
+            downloadAssets: z.boolean().optional().describe('With saveToFile: download Notion-hosted images and files (whose URLs expire after an hour) into an "assets" folder next to the markdown and link them relatively. assets/manifest.json records the block each file came from, so updating the page from the markdown keeps unchanged images and files'),
+            fidelity: z.boolean().optional().describe('Round-trip fidelity: keep Notion-only features (block and text colors, callout icons, toggleable headings, underline) as HTML comments and attributes, so re-importing the markdown restores them'),
+            ...conversionArgs,
+            ...databaseArg,
         },
-        async (args: { pageId: string; saveToFile?: string }) => {
+        async (args: { pageId: string; saveToFile?: string; downloadAssets?: boolean; fidelity?: boolean; preset?: ConversionPresetName; conversionOptions?: Partial<ConversionOptions>; database?: string }) => {
             return exportPageToMarkdownTool(args);
         },
     );
@@ -0,0 +1,169 @@
+/**
+ * MCP Tools for searching across every knowledge source at once
+ * Combines Guru cards, Notion pages and local docs into one ranked result list
+ */
+
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { GuruService } from '../services/guru.js';
+import { KnowledgeSearchService, KnowledgeSearchSources } from '../services/knowledge-search.js';
+import type { NotionDatabaseTarget } from '../services/notion-databases.js';
+import type { KnowledgeSearchHit, KnowledgeSource, KnowledgeSourceStatus } from '../types/search.js';
+import { NotConfiguredError } from '../utils/errors.js';
+import { getKnowledgeHubConfig } from '../utils/config.js';
+import { getDocsService } from './docs.js';
+import { getNotionDatabases } from './notion.js';
+
+const SOURCE_LABELS: Record<KnowledgeSource, string> = {
+    guru: '🧠 Guru',
+    notion: '📝 Notion',
+    docs: '📁 Docs',
+};
+
+const TRUST_LABELS: Record<KnowledgeSearchHit['trust'], string> = {
+    'verified': '✅ Verified',
+    'needs-verification': '⚠️ Needs verification',
+    'unverified': '❔ Unverified',
+    'unknown': '',
+};
+
+/**
+ * Collect the sources that are configured and enabled (Notion: the given databases, else all of them).
+ * Notion is left out when it isn't requested; unknown databases are reported in its status.
+ */
+function getConfiguredSources(databases?: string[], requested?: KnowledgeSource[]): KnowledgeSearchSources {
+    const sources: KnowledgeSearchSources = {};
+
+    const guru = getKnowledgeHubConfig().sources.guru;
+    if (guru.enabled && guru.token !== undefined) {
+        sources.guru = new GuruService();
+    }
+
+    if (requested === undefined || requested.includes('notion')) {
+        const registry = getNotionDatabases();
+        const targets: NotionDatabaseTarget[] = databases === undefined ? registry.getDatabases() : [];
+        const problems: string[] = [];
+        for (const alias of databases ?? []) {
+            try {
+                targets.push(registry.getDatabase(alias));
+            } catch (error) {
+                if (!(error instanceof NotConfiguredError)) {
+                    throw error;
+                }
+                problems.push(`${alias}: ${error.message}`);
+            }
+        }
+        sources.notion = targets.map(({ profile, service, databaseId }) => ({
+            alias: profile.alias,
+            service,
+            databaseId,
+        }));
+        sources.notionProblems = problems;
+    }
+
+    sources.docs = getDocsService();
+
+    return sources;
+}
+
+function formatSourceStatus(status: KnowledgeSourceStatus): string {
+    const label = SOURCE_LABELS[status.source];
+    switch (status.status) {
+        case 'ok':
+            return `• ${label}: ${status.resultCount} results${status.executionTime !== undefined ? ` (${status.executionTime}ms)` : ''}${status.error !== undefined ? ` - ⚠️ ${status.error}` : ''}`;
+        case 'skipped':
+            return `• ${label}: not configured`;
+        case 'error':
+            return `• ${label}: ❌ ${status.error ?? 'Unknown error'}`;
+    }
+}
+
+function formatHit(hit: KnowledgeSearchHit, index: number): string {
+    let entry = `${index + 1}. **${hit.title}** — ${SOURCE_LABELS[hit.source]}${hit.database !== undefined ? ` · ${hit.database}` : ''}`;
+    entry += `\n  ID: \`${hit.id}\``;
+
+    const details: string[] = [];
+    if (TRUST_LABELS[hit.trust] !== '') {
+        details.push(TRUST_LABELS[hit.trust]);
+    }
+    if (hit.lastModified !== undefined && hit.lastModified !== '') {
+        details.push(`Last modified: ${new Date(hit.lastModified).toLocaleDateString()}`);
+    }
+    details.push(`Score: ${hit.score.toFixed(2)}`);
+    entry += `\n  ${details.join(' | ')}`;
+
+    if (hit.url !== undefined) {
+        entry += `\n  URL: ${hit.url}`;
+    }
+    if (hit.duplicates.length > 0) {
+        entry += `\n  Also in: ${hit.duplicates.map(duplicate => `${SOURCE_LABELS[duplicate.source]} (\`${duplicate.id}\`)`).join(', ')}`;
+    }
+    if (hit.snippet !== '') {
+        entry += `\n  > ${hit.snippet}`;
+    }
+
+    return entry;
+}
+
+/**
+ * Tool: Search Guru, Notion and local docs together
+ */
+export async function knowledgeSearchTool({ query, sources, limit = getKnowledgeHubConfig().search.defaultLimit, databases }: {
+    query: string;
+    sources?: KnowledgeSource[];
+    limit?: number;
+    databases?: string[];
+}): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+        const searchService = new KnowledgeSearchService(getConfiguredSources(databases, sources));
+        const response = await searchService.search(query, { limit, sources });
+
+        const sourceLines = response.sources.map(formatSourceStatus).join('\n');
+
+        if (response.results.length === 0) {
+            return {
+                content: [{
+                    type: 'text' as const,
+                    text: `🔍 No results found for "${query}"\n\n**Sources:**\n${sourceLines}\n\n💡 Try shorter or more general terms.`,
+                }],
+            };
+        }
+
+        const mergedText = response.duplicatesMerged > 0 ? `\n🔗 Merged ${response.duplicatesMerged} near-duplicate results` : '';
+
+        return {
+            content: [{
+                type: 'text' as const,
+                text: `🔍 Knowledge Search Results (${response.results.length} found)\n📝 Query: "${query}"${mergedText}\n\n` +
+                    `**Sources:**\n${sourceLines}\n\n${response.results.map(formatHit).join('\n\n')}\n\n` +
+                    '💡 Read a result with guru-read-card (Guru), export-page-to-markdown (Notion - pass the result\'s database) or docs-read (Docs, ID is category/name).',
+            }],
+        };
+    } catch (error) {
+        return {
+            content: [{
+                type: 'text' as const,
+                text: `❌ Knowledge search failed:\n${error instanceof Error ? error.message : String(error)}`,
+            }],
+        };
+    }
+}
+
+/**
+ * Configure cross-source search tools
+ */
+export function configureSearchTools(server: McpServer): void {
+    server.tool(
+        'knowledge-search',
+        'Search Guru cards, Notion pages and local docs in one call. Every configured Notion database is searched, and Notion results are tagged with their database. Returns a single ranked list with source, trust state and last-modified date; sources that fail are reported without failing the search.',
+        {
+            query: z.string().describe('Search terms'),
+            sources: z.array(z.enum(['guru', 'notion', 'docs'])).optional().describe('Limit the search to these sources (default: all configured)'),
+            limit: z.number().optional().describe('Maximum number of merged results (default: search.defaultLimit from the config file, else 10)'),
+            databases: z.array(z.string()).optional().describe('Notion databases to search, by alias (default: every configured database - see list-databases)'),
+        },
+        async (args: { query: string; sources?: KnowledgeSource[]; limit?: number; databases?: string[] }) => {
+            return knowledgeSearchTool(args);
+        },
+    );
+}
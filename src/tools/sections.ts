@@ -0,0 +1,153 @@
+/**
+ * MCP Tools for reading a single section of a document
+ * Works across Notion pages, Guru cards and local docs to keep agent context small
+ */
+
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { GuruService } from '../services/guru.js';
+import type { KnowledgeSource } from '../types/search.js';
+import { extractPageTitle } from '../utils/converters.js';
+import { htmlToMarkdown } from '../utils/html-to-markdown.js';
+import { NotConfiguredError, formatToolError } from '../utils/errors.js';
+import { findSection, formatTableOfContents, parseSections } from '../utils/sections.js';
+import { getDocsService } from './docs.js';
+import { getNotionDatabases } from './notion.js';
+
+interface LoadedDocument {
+    title: string;
+    markdown: string;
+}
+
+/**
+ * Fetch a document as markdown from its source
+ */
+async function loadDocument(source: KnowledgeSource, id: string, database?: string): Promise<LoadedDocument> {
+    switch (source) {
+        case 'notion': {
+            const notionService = getNotionDatabases().getService(database);
+            const { markdown, page } = await notionService.exportPageToMarkdown(id, { includeMetadata: false });
+            return { title: extractPageTitle(page), markdown };
+        }
+        case 'guru': {
+            const card = await new GuruService().getCard(id) as { title?: string; preferredPhrase?: string; content?: string };
+            return {
+                title: card.preferredPhrase ?? card.title ?? 'Untitled',
+                markdown: htmlToMarkdown(card.content ?? ''),
+            };
+        }
+        case 'docs': {
+            const docsService = getDocsService();
+            if (docsService === undefined) {
+                throw new NotConfiguredError('Local docs', 'DOCS_ROOT environment variable is required.');
+            }
+            // Docs IDs are "category/name", as returned by knowledge-search
+            const separator = id.lastIndexOf('/');
+            const category = separator === -1 ? 'general' : id.substring(0, separator);
+            const name = id.substring(separator + 1).replace(/\.(md|markdown)$/, '');
+            const document = await docsService.readDocument(category, name);
+            return { title: document.metadata.title ?? document.name, markdown: document.content };
+        }
+    }
+}
+
+/**
+ * Tool: Read one section (or the table of contents) of a document
+ */
+export async function readSectionTool({ source, id, headingPath, anchor, query, toc = false, database }: {
+    source: KnowledgeSource;
+    id: string;
+    headingPath?: string[];
+    anchor?: string;
+    query?: string;
+    toc?: boolean;
+    database?: string;
+}): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+        const document = await loadDocument(source, id, database);
+        const sections = parseSections(document.markdown);
+
+        if (sections.length === 0) {
+            return {
+                content: [{
+                    type: 'text' as const,
+                    text: `📄 "${document.title}" has no headings to select from.\n\n💡 Read the whole document with ${source === 'notion' ? 'export-page-to-markdown' : source === 'guru' ? 'guru-read-card' : 'docs-read'} instead.`,
+                }],
+            };
+        }
+
+        const hasSelector = (headingPath !== undefined && headingPath.length > 0) ||
+            (anchor !== undefined && anchor !== '') ||
+            (query !== undefined && query !== '');
+
+        if (toc || !hasSelector) {
+            return {
+                content: [{
+                    type: 'text' as const,
+                    text: `📑 Table of Contents: ${document.title}\n**Source:** ${source} | **ID:** ${id} | **Sections:** ${sections.length}\n\n` +
+                        `${formatTableOfContents(sections)}\n\n` +
+                        '💡 Call read-section again with an anchor or headingPath to read one section.',
+                }],
+            };
+        }
+
+        const section = findSection(sections, { headingPath, anchor, query });
+        if (!section) {
+            const requested = headingPath && headingPath.length > 0
+                ? `heading path "${headingPath.join(' › ')}"`
+                : anchor !== undefined && anchor !== '' ? `anchor "${anchor}"` : `query "${query ?? ''}"`;
+            return {
+                content: [{
+                    type: 'text' as const,
+                    text: `❌ No section matching ${requested} in "${document.title}"\n\n**Available sections:**\n${formatTableOfContents(sections)}`,
+                }],
+            };
+        }
+
+        const breadcrumb = [document.title, ...section.breadcrumb, section.title].join(' › ');
+
+        return {
+            content: [{
+                type: 'text' as const,
+                text: `📍 ${breadcrumb}\n**Anchor:** \`#${section.anchor}\` | **Words:** ${section.wordCount}\n\n---\n\n${section.content}`,
+            }],
+        };
+    } catch (error) {
+        return {
+            content: [{
+                type: 'text' as const,
+                text: formatToolError(error, 'Failed to read section'),
+            }],
+        };
+    }
+}
+
+/**
+ * Configure section-level retrieval tools
+ */
+export function configureSectionTools(server: McpServer): void {
+    server.tool(
+        'read-section',
+        'Read a single section of a Notion page, Guru card or local doc instead of the whole document. Select the section by heading path, anchor or a free-text query; the result includes the parent heading breadcrumb. Without a selector (or with toc=true) returns the table of contents with anchors and word counts.',
+        {
+            source: z.enum(['notion', 'guru', 'docs']).describe('Where the document lives'),
+            id: z.string().describe('Notion page ID, Guru card ID, or "category/name" for local docs (as returned by knowledge-search)'),
+            headingPath: z.array(z.string()).optional().describe('Heading titles from outer to inner, e.g. ["Testing", "Mocking providers"]. Intermediate levels may be skipped.'),
+            anchor: z.string().optional().describe('Heading anchor as shown in the table of contents, e.g. "mocking-providers"'),
+            query: z.string().optional().describe('Free-text query - returns the best-matching section'),
+            toc: z.boolean().optional().describe('Return the table of contents instead of a section'),
+            database: z.string().optional().describe('Notion only: alias of the database the page belongs to, for pages in another workspace (see list-databases)'),
+        },
+        async (args: {
+            source: KnowledgeSource;
+            id: string;
+            headingPath?: string[];
+            anchor?: string;
+            query?: string;
+            toc?: boolean;
+            database?: string;
+        }) => {
+            return readSectionTool(args);
+        },
+    );
+}
@@ -0,0 +1,125 @@
+/**
+ * MCP Tools for syncing a local markdown folder with the Notion database
+ */
+
+import { z } from 'zod';
+import { resolve } from 'path';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { DocsSyncService, SYNC_LOCK_FILE, SyncAction, SyncConflictStrategy, SyncDirection, SyncReport } from '../services/docs-sync.js';
+import { getNotionDatabases } from './notion.js';
+import { getKnowledgeHubConfig } from '../utils/config.js';
+import { NotConfiguredError, formatToolError } from '../utils/errors.js';
+
+const ACTION_ICONS: Record<SyncAction, string> = {
+    created: '🆕',
+    pushed: '⬆️',
+    pulled: '⬇️',
+    unchanged: '✔️',
+    conflict: '⚠️',
+    skipped: '⏭️',
+    failed: '❌',
+};
+
+/**
+ * Format a sync report (shared by the tool and the sync-docs CLI command)
+ */
+export function formatSyncReport(report: SyncReport): string {
+    const { counts } = report;
+    const lines = [
+        `🔄 ${report.dryRun ? 'Sync preview (dry run - nothing changed)' : 'Sync complete'}: ${report.directory}`,
+        `**Direction:** ${report.direction} | **Created:** ${counts.created} | **Pushed:** ${counts.pushed} | **Pulled:** ${counts.pulled} | ` +
+            `**Unchanged:** ${counts.unchanged} | **Conflicts:** ${counts.conflict} | **Skipped:** ${counts.skipped} | **Failed:** ${counts.failed}`,
+    ];
+
+    // Unchanged files are only counted, to keep large folders readable
+    const changed = report.files.filter(file => file.action !== 'unchanged');
+    if (changed.length > 0) {
+        lines.push('');
+        for (const file of changed) {
+            const pageId = file.pageId !== undefined ? ` (${file.pageId})` : '';
+            const detail = file.detail !== undefined ? ` - ${file.detail}` : '';
+            lines.push(`${ACTION_ICONS[file.action]} ${file.action}: ${file.path}${pageId}${detail}`);
+        }
+    }
+
+    if (counts.conflict > 0) {
+        lines.push('', '💡 Resolve conflicts by merging by hand, or re-run with conflictStrategy "local" or "remote" to keep one side.');
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Tool: Sync a local markdown folder with the Notion database
+ */
+export async function syncDocsTool({ directory, direction, conflictStrategy, dryRun, database }: {
+    directory: string;
+    direction?: SyncDirection;
+    conflictStrategy?: SyncConflictStrategy;
+    dryRun?: boolean;
+    database?: string;
+}): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+        const { profile, service, databaseId } = getNotionDatabases().getDatabase(database);
+        const defaults = { category: profile.defaultCategory, status: profile.defaultStatus };
+
+        const report = await new DocsSyncService(service, databaseId, defaults).sync(resolve(directory), {
+            direction,
+            conflictStrategy,
+            dryRun,
+        });
+
+        return {
+            content: [{
+                type: 'text' as const,
+                text: formatSyncReport(report),
+            }],
+        };
+    } catch (error) {
+        if (error instanceof NotConfiguredError) {
+            return {
+                content: [{
+                    type: 'text' as const,
+                    text: formatToolError(error, 'Sync failed'),
+                }],
+            };
+        }
+        return {
+            content: [{
+                type: 'text' as const,
+                text: `❌ Sync failed:\n${error instanceof Error ? error.message : String(error)}`,
+            }],
+        };
+    }
+}
+
+/**
+ * Configure folder sync tools
+ */
+export function configureSyncTools(server: McpServer): void {
+    if (!getKnowledgeHubConfig().sources.notion.enabled) {
+        // Syncing needs Notion, which is disabled in the config file
+        return;
+    }
+
+    server.tool(
+        'sync-docs',
+        `Two-way sync between a local markdown folder and the Notion database. New files become pages, local edits are pushed in place, Notion edits are pulled back into the files, and files changed on both sides since the last sync are reported as conflicts. Page IDs and content hashes are kept in ${SYNC_LOCK_FILE} at the folder root - commit it alongside the docs.`,
+        {
+            directory: z.string().describe('Absolute path of the local docs folder (all .md files below it are synced)'),
+            direction: z.enum(['push', 'pull', 'both']).optional().describe('"push" only sends local changes, "pull" only fetches Notion edits, "both" (default) does both'),
+            conflictStrategy: z.enum(['report', 'local', 'remote']).optional().describe('What to do when a file changed on both sides: "report" (default) leaves it untouched, "local" or "remote" keeps that side'),
+            dryRun: z.boolean().optional().describe('Report what would be synced without changing files or Notion'),
+            database: z.string().optional().describe('Alias of the Notion database to sync with (see list-databases). Defaults to the default database.'),
+        },
+        async (args: {
+            directory: string;
+            direction?: SyncDirection;
+            conflictStrategy?: SyncConflictStrategy;
+            dryRun?: boolean;
+            database?: string;
+        }) => {
+            return syncDocsTool(args);
+        },
+    );
+}
@@ -0,0 +1,264 @@
+/**
+ * HTTP transport for sharing one knowledge hub instance between several agents
+ * Serves MCP Streamable HTTP (/mcp) and the legacy SSE transport (/sse + /messages)
+ */
+
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { createServer as createHttpServer } from 'http';
+import express, { NextFunction, Request, Response } from 'express';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { getRequestStats } from '../utils/request-scheduler.js';
+
+// Streamable HTTP sessions without requests or open streams for this long are closed
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60_000;
+
+export interface HttpTransportOptions {
+    port: number;
+    host: string;
+    authToken?: string; // When set, every MCP request must send "Authorization: Bearer <token>"
+    sessionIdleTimeoutMs?: number;
+}
+
+export interface HttpServerHandle {
+    url: string;
+    close(): Promise<void>;
+}
+
+interface Session<T> {
+    transport: T;
+    server: McpServer;
+}
+
+interface StreamableSession extends Session<StreamableHTTPServerTransport> {
+    // Requests still being served (including open GET streams), and when the last one ended
+    openRequests: number;
+    lastActiveAt: number;
+}
+
+/**
+ * Send a JSON-RPC error without a request id (transport-level failures)
+ */
+function sendJsonRpcError(res: Response, status: number, code: number, message: string): void {
+    res.status(status).json({
+        jsonrpc: '2.0',
+        error: { code, message },
+        id: null,
+    });
+}
+
+/**
+ * Constant-time bearer token check
+ */
+function isAuthorized(req: Request, authToken: string): boolean {
+    const header = req.headers.authorization ?? '';
+    const match = /^Bearer\s+(.+)$/i.exec(header);
+    if (!match) {
+        return false;
+    }
+
+    const provided = Buffer.from(match[1]);
+    const expected = Buffer.from(authToken);
+    return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * Start the HTTP server. Resolves once it is listening.
+ */
+export async function startHttpServer(
+    createServer: () => McpServer,
+    options: HttpTransportOptions,
+): Promise<HttpServerHandle> {
+    const app = express();
+    app.use(express.json({ limit: '4mb' }));
+
+    const streamableSessions = new Map<string, StreamableSession>();
+    const sseSessions = new Map<string, Session<SSEServerTransport>>();
+
+    // Health check (unauthenticated so load balancers can probe it)
+    app.get('/health', (_req: Request, res: Response) => {
+        res.json({
+            status: 'ok',
+            sessions: {
+                streamableHttp: streamableSessions.size,
+                sse: sseSessions.size,
+            },
+            // Retry and throttling counters of the upstream APIs
+            requests: getRequestStats(),
+        });
+    });
+
+    // Bearer token auth for all MCP endpoints
+    const requireAuth = (req: Request, res: Response, next: NextFunction): void => {
+        if (options.authToken !== undefined && options.authToken !== '' && !isAuthorized(req, options.authToken)) {
+            res.setHeader('WWW-Authenticate', 'Bearer');
+            sendJsonRpcError(res, 401, -32001, 'Unauthorized: missing or invalid bearer token');
+            return;
+        }
+        next();
+    };
+
+    // ========================================
+    // STREAMABLE HTTP (/mcp)
+    // ========================================
+
+    // Keep a session alive while the response is open
+    const trackRequest = (session: StreamableSession, res: Response): void => {
+        session.openRequests++;
+        res.on('close', () => {
+            session.openRequests--;
+            session.lastActiveAt = Date.now();
+        });
+    };
+
+    const handleStreamablePost = async (req: Request, res: Response): Promise<void> => {
+        const sessionId = req.headers['mcp-session-id'];
+        const existing = typeof sessionId === 'string' ? streamableSessions.get(sessionId) : undefined;
+
+        if (existing) {
+            trackRequest(existing, res);
+            await existing.transport.handleRequest(req, res, req.body);
+            return;
+        }
+
+        if (sessionId !== undefined || !isInitializeRequest(req.body)) {
+            sendJsonRpcError(res, 400, -32000, 'Bad Request: no valid session ID provided');
+            return;
+        }
+
+        const server = createServer();
+        const transport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => randomUUID(),
+            onsessioninitialized: (newSessionId) => {
+                streamableSessions.set(newSessionId, { transport, server, openRequests: 0, lastActiveAt: Date.now() });
+            },
+        });
+
+        transport.onclose = (): void => {
+            if (transport.sessionId !== undefined) {
+                streamableSessions.delete(transport.sessionId);
+            }
+        };
+
+        try {
+            await server.connect(transport);
+            await transport.handleRequest(req, res, req.body);
+        } finally {
+            // A failed or rejected initialize leaves no session to close the server later
+            if (transport.sessionId === undefined || !streamableSessions.has(transport.sessionId)) {
+                await server.close();
+            }
+        }
+    };
+
+    // GET opens the server-to-client notification stream, DELETE ends the session
+    const handleStreamableSessionRequest = async (req: Request, res: Response): Promise<void> => {
+        const sessionId = req.headers['mcp-session-id'];
+        const existing = typeof sessionId === 'string' ? streamableSessions.get(sessionId) : undefined;
+
+        if (!existing) {
+            sendJsonRpcError(res, 400, -32000, 'Bad Request: invalid or missing session ID');
+            return;
+        }
+
+        trackRequest(existing, res);
+        await existing.transport.handleRequest(req, res);
+    };
+
+    app.post('/mcp', requireAuth, (req: Request, res: Response, next: NextFunction) => {
+        handleStreamablePost(req, res).catch(next);
+    });
+    app.get('/mcp', requireAuth, (req: Request, res: Response, next: NextFunction) => {
+        handleStreamableSessionRequest(req, res).catch(next);
+    });
+    app.delete('/mcp', requireAuth, (req: Request, res: Response, next: NextFunction) => {
+        handleStreamableSessionRequest(req, res).catch(next);
+    });
+
+    // ========================================
+    // LEGACY SSE (/sse + /messages)
+    // ========================================
+
+    const handleSseConnect = async (_req: Request, res: Response): Promise<void> => {
+        const server = createServer();
+        const transport = new SSEServerTransport('/messages', res);
+        sseSessions.set(transport.sessionId, { transport, server });
+
+        res.on('close', () => {
+            sseSessions.delete(transport.sessionId);
+            void server.close();
+        });
+
+        await server.connect(transport);
+    };
+
+    const handleSseMessage = async (req: Request, res: Response): Promise<void> => {
+        const sessionId = typeof req.query.sessionId === 'string' ? req.query.sessionId : '';
+        const session = sseSessions.get(sessionId);
+
+        if (!session) {
+            sendJsonRpcError(res, 400, -32000, `No SSE session found for sessionId "${sessionId}"`);
+            return;
+        }
+
+        await session.transport.handlePostMessage(req, res, req.body);
+    };
+
+    app.get('/sse', requireAuth, (req: Request, res: Response, next: NextFunction) => {
+        handleSseConnect(req, res).catch(next);
+    });
+    app.post('/messages', requireAuth, (req: Request, res: Response, next: NextFunction) => {
+        handleSseMessage(req, res).catch(next);
+    });
+
+    // Last-resort error handler - keep errors in JSON-RPC shape
+    app.use((error: unknown, _req: Request, res: Response, _next: NextFunction) => {
+        console.error('HTTP transport error:', error);
+        if (!res.headersSent) {
+            sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        }
+    });
+
+    // Not app.listen: Express 5 also calls its callback on 'error', which would resolve with a server that isn't listening
+    const httpServer = createHttpServer(app);
+    await new Promise<void>((resolve, reject) => {
+        httpServer.once('error', reject);
+        httpServer.listen(options.port, options.host, () => {
+            httpServer.off('error', reject);
+            resolve();
+        });
+    });
+
+    // Clients that go away without DELETE would keep their server (and its Notion polling) forever
+    const sessionIdleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+    const idleSweep = setInterval(() => {
+        const idleSince = Date.now() - sessionIdleTimeoutMs;
+        for (const session of streamableSessions.values()) {
+            if (session.openRequests === 0 && session.lastActiveAt < idleSince) {
+                // onclose removes the session and closes its server
+                void session.transport.close();
+            }
+        }
+    }, Math.min(sessionIdleTimeoutMs, 60_000));
+    idleSweep.unref();
+
+    return {
+        url: `http://${options.host}:${options.port}`,
+        close: async (): Promise<void> => {
+            clearInterval(idleSweep);
+
+            // Close every MCP session first so clients see a clean disconnect
+            const sessions = [...streamableSessions.values(), ...sseSessions.values()];
+            await Promise.allSettled(sessions.map(session => session.server.close()));
+            streamableSessions.clear();
+            sseSessions.clear();
+
+            await new Promise<void>((resolve, reject) => {
+                httpServer.close(error => (error ? reject(error) : resolve()));
+                httpServer.closeAllConnections();
+            });
+        },
+    };
+}
@@ -2,6 +2,8 @@
  * Documentation type definitions
  */
 
+import type { MarkdownMetadata } from './markdown.js';
+
 export interface DocumentInfo {
     category: string;
     name: string;
@@ -14,3 +16,16 @@ export interface DocumentResource {
     description: string;
     mimeType: string;
 }
+
+// Document listing entry with frontmatter-derived metadata
+export interface DocumentSummary extends DocumentInfo {
+    metadata: MarkdownMetadata;
+}
+
+export interface DocumentSearchResult {
+    document: DocumentSummary;
+    score: number;
+    matchLocation: 'title' | 'tags' | 'headings' | 'content';
+    matchedTerms: string[];
+    snippet?: string;
+}
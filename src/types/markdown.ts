@@ -3,10 +3,12 @@
  */
 
 import { DocumentInfo } from './docs.js';
+import type { PageLinkResolver, UnresolvedLink } from '../utils/notion-links.js';
 
 // Core AST representation
 export interface MarkdownNode {
-    type: 'heading' | 'paragraph' | 'list' | 'list_item' | 'code' | 'quote' | 'table' | 'table_row' | 'table_cell' | 'image' | 'divider' | 'text';
+    type: 'heading' | 'paragraph' | 'list' | 'list_item' | 'code' | 'quote' | 'table' | 'table_row' | 'table_cell' | 'image' | 'divider' | 'text'
+        | 'equation' | 'toggle' | 'callout' | 'footnotes';
     content?: string;
     level?: number; // For headings (1-6)
     ordered?: boolean; // For lists
@@ -16,6 +18,7 @@ export interface MarkdownNode {
     alt?: string; // For images
     title?: string; // For images and links
     align?: 'left' | 'center' | 'right'; // For table cells
+    admonition?: AdmonitionKind; // For callouts from GitHub-style > [!NOTE] blockquotes
     children?: MarkdownNode[];
     attributes?: Record<string, unknown>;
     // Rich text formatting
@@ -23,9 +26,15 @@ export interface MarkdownNode {
     italic?: boolean;
     strikethrough?: boolean;
     code?: boolean; // For inline code
-    link?: { url: string; title?: string };
+    equation?: boolean; // For inline math (content is the expression)
+    underline?: boolean; // From <u> fidelity markup
+    color?: string; // Notion color name, from <span data-notion-color> fidelity markup
+    link?: { url: string; title?: string; pageId?: string }; // pageId: link to a local file of that page, imported as a mention
 }
 
+// GitHub-style admonition markers
+export type AdmonitionKind = 'note' | 'tip' | 'important' | 'warning' | 'caution';
+
 // Document metadata extracted from frontmatter
 export interface MarkdownMetadata {
     title?: string;
@@ -48,39 +57,44 @@ export interface MarkdownDocument extends DocumentInfo {
     size?: number;
 }
 
-// Conversion configuration options
+// Conversion configuration options - each applies to export (Notion -> markdown), import (markdown -> Notion) or both
 export interface ConversionOptions {
     // Formatting options
-    preserveColors: boolean;
-    preserveFormatting: boolean;
-    maxHeadingLevel: number; // 1-6, levels above this become text annotations
+    preserveColors: boolean; // Both: text colors as <span style="color: ..."> HTML
+    preserveFormatting: boolean; // Both: bold, italic, strikethrough and inline code (off = plain text)
+    maxHeadingLevel: number; // Both: 1-6, levels above this become bold paragraphs
 
     // Block handling
     handleUnsupportedBlocks: 'ignore' | 'convert' | 'error';
-    convertCallouts: boolean; // Convert Notion callouts to blockquotes
-    convertToggles: boolean; // Convert Notion toggles to HTML details
+    convertCallouts: boolean; // Both: callouts as blockquotes (off = skipped on export, plain quotes on import)
+    convertToggles: boolean; // Both: toggles as HTML details (off = plain paragraphs)
 
     // Content options
-    includeMetadata: boolean;
+    includeMetadata: boolean; // Export: generated frontmatter
     extractFrontMatter: boolean;
-    preserveImageCaptions: boolean;
-    tableAlignment: boolean;
+    preserveImageCaptions: boolean; // Both: image captions as alt text
+    tableAlignment: boolean; // Import: first table row is a header row
 
     // Image handling
-    imageHandling: 'link' | 'upload' | 'ignore';
-    imageBaseUrl?: string;
+    imageHandling: 'link' | 'upload' | 'ignore'; // Both: 'upload' uploads local images and attachments under the docs/sync root (else the markdown file's folder) on import, 'ignore' drops images
+    imageBaseUrl?: string; // Both: relative image paths resolve against it on import and are made relative to it on export
 
     // Links and references
-    preserveNotionLinks: boolean;
-    convertInternalLinks: boolean;
+    preserveNotionLinks: boolean; // Both: links to Notion pages (off = link text only)
+    convertInternalLinks: boolean; // Both: write links to Notion pages as `${linkBaseUrl}/<page id>` and read them back
     linkBaseUrl?: string;
+    linkResolver?: PageLinkResolver; // Both: links between pages and their local markdown files (takes precedence over linkBaseUrl)
 
-    // Output formatting
-    lineBreaks: 'lf' | 'crlf' | 'auto';
-    indentSize: number;
+    // Output formatting - export only, the importer reads every markdown style
+    lineBreaks: 'lf' | 'crlf' | 'auto'; // 'auto' uses the platform's line ending
+    indentSize: number; // Indentation of content nested under list items (at least the marker's width)
     codeBlockStyle: 'fenced' | 'indented';
     listMarker: '-' | '*' | '+';
     emphasisMarker: '*' | '_';
+
+    // Round-trip fidelity: encode Notion-only features (block colors, callout icons, toggleable
+    // headings, underline, text colors) as HTML comments and attributes the importer understands
+    fidelity: boolean;
 }
 
 // Result of a conversion operation
@@ -91,6 +105,7 @@ export interface ConversionResult {
     metadata: ConversionMetadata;
     sourceDocument?: MarkdownDocument;
     statistics?: ConversionStatistics;
+    unresolvedLinks?: UnresolvedLink[]; // Links the linkResolver couldn't map
 }
 
 // Metadata about the conversion process
@@ -145,6 +160,7 @@ export interface ParserOptions {
     preserveWhitespace: boolean;
     allowHtml: boolean;
     allowUnsafeHtml: boolean;
+    parseHtmlColors: boolean; // Read <span style="color: ..."> as Notion text colors
 }
 
 // Default conversion options
@@ -178,6 +194,9 @@ export const DEFAULT_CONVERSION_OPTIONS: ConversionOptions = {
     codeBlockStyle: 'fenced',
     listMarker: '-',
     emphasisMarker: '*',
+
+    // Round trip
+    fidelity: false,
 };
 
 // Default parser options
@@ -188,4 +207,44 @@ export const DEFAULT_PARSER_OPTIONS: ParserOptions = {
     preserveWhitespace: false,
     allowHtml: true,
     allowUnsafeHtml: false,
+    parseHtmlColors: false,
+};
+
+export const CONVERSION_PRESET_NAMES = ['github', 'obsidian', 'docusaurus'] as const;
+
+export type ConversionPresetName = typeof CONVERSION_PRESET_NAMES[number];
+
+// Named option sets for common markdown targets, applied on top of the defaults
+// Every preset sets the same fields, so selecting one fully replaces another
+export const CONVERSION_PRESETS: Record<ConversionPresetName, Partial<ConversionOptions>> = {
+    // GitHub renders <details> but strips inline styles
+    github: {
+        includeMetadata: false,
+        preserveColors: false,
+        convertToggles: true,
+        indentSize: 2,
+        listMarker: '-',
+        emphasisMarker: '*',
+        codeBlockStyle: 'fenced',
+    },
+    // Obsidian keeps frontmatter as note properties, renders inline HTML and nests lists by tab width
+    obsidian: {
+        includeMetadata: true,
+        preserveColors: true,
+        convertToggles: true,
+        indentSize: 4,
+        listMarker: '-',
+        emphasisMarker: '*',
+        codeBlockStyle: 'fenced',
+    },
+    // Docusaurus reads front matter, and MDX rejects string style attributes
+    docusaurus: {
+        includeMetadata: true,
+        preserveColors: false,
+        convertToggles: true,
+        indentSize: 2,
+        listMarker: '-',
+        emphasisMarker: '_',
+        codeBlockStyle: 'fenced',
+    },
 };
@@ -3,6 +3,18 @@ export interface NotionConfig {
     version?: string;
 }
 
+// A named database (and the integration token of its workspace) the Notion tools can target
+export interface NotionDatabaseProfile {
+    alias: string;
+    token: string;
+    // Unset for a profile that only reads and writes pages by ID
+    databaseId?: string;
+    description?: string;
+    // Metadata for new pages that don't set their own
+    defaultCategory?: string;
+    defaultStatus?: string;
+}
+
 export interface NotionPage {
     object: 'page';
     id: string;
@@ -183,6 +195,17 @@ export interface NotionFile {
     };
 }
 
+// File uploaded through the File Upload API, attached to blocks by ID
+export interface NotionFileUpload {
+    object: 'file_upload';
+    id: string;
+    status: 'pending' | 'uploaded' | 'expired' | 'failed';
+    filename?: string | null;
+    content_type?: string | null;
+    content_length?: number | null;
+    expiry_time?: string | null;
+}
+
 export type NotionColor =
     | 'default'
     | 'gray' | 'brown' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple' | 'pink' | 'red'
@@ -270,6 +293,12 @@ export interface AppendBlockChildrenRequest {
     after?: string;
 }
 
+export interface CreateFileUploadRequest {
+    mode: 'single_part';
+    filename: string;
+    content_type: string;
+}
+
 export interface CreateCommentRequest {
     parent: NotionParent;
     rich_text: NotionRichText[];
@@ -296,3 +325,21 @@ export interface SearchRequest {
     start_cursor?: string;
     page_size?: number;
 }
+
+// A mutating API call recorded by a dry run instead of being sent
+export interface NotionWriteRequest {
+    method: 'POST' | 'PATCH' | 'DELETE';
+    endpoint: string;
+    body?: unknown;
+}
+
+export interface NotionWritePreview {
+    // Requests in the order they would be sent
+    requests: NotionWriteRequest[];
+    // Block count of each append request
+    appendChunks: number[];
+    // Database properties that would be added or retyped
+    schemaChanges: Record<string, unknown>;
+    // Line diff of the page markdown, for content updates
+    markdownDiff?: string;
+}
@@ -1,10 +1,16 @@
 import { NotionPage } from './notion.js';
 
+// 'semantic' ranks by embedding similarity, 'hybrid' fuses 'combined' and 'semantic' rankings
+export type NotionSearchMode = 'tags' | 'full-text' | 'combined' | 'semantic' | 'hybrid';
+
 export interface SearchResultMetadata {
-  searchMode: 'tags' | 'full-text' | 'combined';
+  searchMode: NotionSearchMode;
   matchLocation: 'tags' | 'title' | 'description' | 'content';
   matchedTerms: string[];
   relevanceScore?: number;
+  // Set for matches inside the page body (from the local full-text index)
+  snippet?: string;
+  headingPath?: string[];
 }
 
 export interface EnhancedSearchResult {
@@ -24,3 +30,37 @@ export interface SearchStatistics {
   searchTerm: string;
   executionTime?: number;
 }
+
+export type KnowledgeSource = 'guru' | 'notion' | 'docs';
+
+export type KnowledgeTrustState = 'verified' | 'needs-verification' | 'unverified' | 'unknown';
+
+export interface KnowledgeSearchHit {
+  source: KnowledgeSource;
+  id: string;
+  title: string;
+  snippet: string;
+  lastModified?: string;
+  trust: KnowledgeTrustState;
+  url?: string;
+  // Notion database profile the hit comes from
+  database?: string;
+  score: number;
+  // Other sources that returned a near-identical title (merged into this hit)
+  duplicates: Array<{ source: KnowledgeSource; id: string }>;
+}
+
+export interface KnowledgeSourceStatus {
+  source: KnowledgeSource;
+  status: 'ok' | 'skipped' | 'error';
+  resultCount: number;
+  error?: string;
+  executionTime?: number;
+}
+
+export interface KnowledgeSearchResponse {
+  query: string;
+  results: KnowledgeSearchHit[];
+  sources: KnowledgeSourceStatus[];
+  duplicatesMerged: number;
+}
@@ -0,0 +1,300 @@
+/**
+ * Diff existing Notion blocks against freshly converted blocks
+ * Produces the minimal update/insert/delete operations to turn one into the other
+ */
+
+import { NotionBlock } from '../types/notion.js';
+import { NotionBlockData } from './notion-blocks.js';
+
+export type BlockOperation =
+    | { kind: 'update'; blockId: string; type: string; data: Record<string, unknown> }
+    | { kind: 'insert'; parentId: string; afterBlockId?: string; blocks: NotionBlockData[] }
+    | { kind: 'delete'; blockId: string };
+
+export interface BlockDiffSummary {
+    kept: number;
+    updated: number;
+    inserted: number;
+    deleted: number;
+}
+
+export interface BlockDiffPlan {
+    operations: BlockOperation[];
+    summary: BlockDiffSummary;
+}
+
+type ExistingBlock = NotionBlock & { children?: NotionBlock[] };
+
+// Block types whose content can be changed with PATCH /blocks/{id}
+const UPDATABLE_TYPES = new Set([
+    'paragraph', 'heading_1', 'heading_2', 'heading_3', 'bulleted_list_item', 'numbered_list_item',
+    'to_do', 'toggle', 'quote', 'callout', 'code', 'table', 'table_row', 'bookmark', 'embed', 'equation', 'divider',
+]);
+
+// Never produced from markdown and deleting them destroys content - always left in place
+const PRESERVED_TYPES = new Set(['child_page', 'child_database']);
+
+// Read-only or derived fields Notion returns that the converter never sets
+const IGNORED_KEYS = new Set(['children', 'plain_text', 'href']);
+
+/**
+ * Reduce rich text to the parts that affect rendering
+ */
+function normalizeRichText(richText: unknown): unknown {
+    if (!Array.isArray(richText)) {
+        return richText;
+    }
+
+    return richText.map((item: { type?: string; text?: { content?: string; link?: { url?: string } | null }; plain_text?: string; href?: string | null; annotations?: Record<string, unknown>; equation?: { expression?: string } }) => ({
+        text: item.text?.content ?? item.equation?.expression ?? item.plain_text ?? '',
+        link: item.text?.link?.url ?? item.href ?? null,
+        annotations: normalizeValue(item.annotations ?? {}),
+    }));
+}
+
+/**
+ * Drop defaults so a block returned by the API compares equal to the one built by the converter
+ */
+function normalizeValue(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(normalizeValue);
+    }
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+
+    const normalized: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b))) {
+        if (IGNORED_KEYS.has(key) || entry === undefined || entry === null || entry === false || entry === 'default' ||
+            (Array.isArray(entry) && entry.length === 0)) {
+            continue;
+        }
+        if (key === 'rich_text' || key === 'caption') {
+            normalized[key] = normalizeRichText(entry);
+        } else if (key === 'cells' && Array.isArray(entry)) {
+            normalized[key] = entry.map(normalizeRichText);
+        } else {
+            normalized[key] = normalizeValue(entry);
+        }
+    }
+    return normalized;
+}
+
+function getBlockData(block: NotionBlock | NotionBlockData): Record<string, unknown> {
+    const data = block[block.type];
+    return data !== null && typeof data === 'object' ? data as Record<string, unknown> : {};
+}
+
+function getExistingChildren(block: ExistingBlock): ExistingBlock[] {
+    return block.has_children ? (block.children ?? []) : [];
+}
+
+function getDesiredChildren(block: NotionBlockData): NotionBlockData[] {
+    const children = getBlockData(block).children;
+    return Array.isArray(children) ? children as NotionBlockData[] : [];
+}
+
+/**
+ * Move converter-style nested children (block[type].children) onto block.children, the shape
+ * fetched blocks have, so both can be rendered by the same notion-to-markdown converter
+ */
+export function withAttachedChildren(blocks: NotionBlockData[]): NotionBlockData[] {
+    return blocks.map(block => {
+        const children = getDesiredChildren(block);
+        if (children.length === 0) {
+            return block;
+        }
+        const { children: _children, ...data } = getBlockData(block);
+        return { ...block, [block.type]: data, has_children: true, children: withAttachedChildren(children) };
+    });
+}
+
+/**
+ * Signature of a block's own content (type and rendered fields, not children)
+ */
+export function blockContentSignature(block: NotionBlock | NotionBlockData): string {
+    return `${block.type}:${JSON.stringify(normalizeValue(getBlockData(block)))}`;
+}
+
+function existingSignature(block: ExistingBlock): string {
+    return `${blockContentSignature(block)}[${getExistingChildren(block).map(existingSignature).join(',')}]`;
+}
+
+function desiredSignature(block: NotionBlockData): string {
+    return `${blockContentSignature(block)}[${getDesiredChildren(block).map(desiredSignature).join(',')}]`;
+}
+
+/**
+ * Longest common subsequence of two signature lists - returns matched index pairs
+ */
+function longestCommonSubsequence(a: string[], b: string[]): Array<[number, number]> {
+    const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const pairs: Array<[number, number]> = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            pairs.push([i, j]);
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+    return pairs;
+}
+
+function canUpdateInPlace(existing: ExistingBlock, desired: NotionBlockData): boolean {
+    if (existing.type !== desired.type || !UPDATABLE_TYPES.has(existing.type)) {
+        return false;
+    }
+    // Table width is fixed once created
+    if (existing.type === 'table') {
+        return getBlockData(existing).table_width === getBlockData(desired).table_width;
+    }
+    return true;
+}
+
+/**
+ * Build the update payload for a block (content only - children are diffed separately)
+ */
+function buildUpdateData(desired: NotionBlockData): Record<string, unknown> {
+    const { children: _children, table_width: _tableWidth, ...data } = getBlockData(desired);
+    return data;
+}
+
+type PlannedEntry =
+    | { kind: 'keep'; existing: ExistingBlock }
+    | { kind: 'update'; existing: ExistingBlock; desired: NotionBlockData }
+    | { kind: 'insert'; desired: NotionBlockData };
+
+/**
+ * Diff one list of sibling blocks, recursing into children of updated blocks
+ */
+function diffChildren(
+    parentId: string,
+    existingBlocks: ExistingBlock[],
+    desiredBlocks: NotionBlockData[],
+    plan: BlockDiffPlan,
+): void {
+    const existing = existingBlocks.filter(block => !PRESERVED_TYPES.has(block.type));
+    const matches = longestCommonSubsequence(existing.map(existingSignature), desiredBlocks.map(desiredSignature));
+
+    // Assign each desired block: unchanged, updated in place from an unmatched block in the same gap, or inserted
+    const entries: PlannedEntry[] = [];
+    const survivors = new Set<ExistingBlock>();
+    let previousExisting = 0;
+    let previousDesired = 0;
+
+    for (const [existingIndex, desiredIndex] of [...matches, [existing.length, desiredBlocks.length] as [number, number]]) {
+        const gapExisting = existing.slice(previousExisting, existingIndex);
+        const gapDesired = desiredBlocks.slice(previousDesired, desiredIndex);
+
+        let candidate = 0;
+        for (const desired of gapDesired) {
+            // Pair in order so updated blocks keep their relative position
+            const matchIndex = gapExisting.slice(candidate).findIndex(block => canUpdateInPlace(block, desired));
+            if (matchIndex === -1) {
+                entries.push({ kind: 'insert', desired });
+                continue;
+            }
+            const block = gapExisting[candidate + matchIndex];
+            candidate += matchIndex + 1;
+            survivors.add(block);
+            entries.push({ kind: 'update', existing: block, desired });
+        }
+
+        if (existingIndex < existing.length) {
+            survivors.add(existing[existingIndex]);
+            entries.push({ kind: 'keep', existing: existing[existingIndex] });
+        }
+        previousExisting = existingIndex + 1;
+        previousDesired = desiredIndex + 1;
+    }
+
+    // The API can only insert *after* a block. If new blocks lead the list, anchor them on the first
+    // existing block - recreating it when it would otherwise survive.
+    let anchorId: string | undefined;
+    if (entries[0]?.kind === 'insert' && existing.length > 0) {
+        const first = existing[0];
+        anchorId = first.id;
+        const survivorIndex = entries.findIndex(entry => entry.kind !== 'insert' && entry.existing === first);
+        if (survivorIndex !== -1) {
+            const entry = entries[survivorIndex];
+            const desired = entry.kind === 'update' ? entry.desired : desiredBlocks[survivorIndex];
+            entries[survivorIndex] = { kind: 'insert', desired };
+            survivors.delete(first);
+        }
+    }
+
+    let run: NotionBlockData[] = [];
+    const flush = (): void => {
+        if (run.length > 0) {
+            plan.operations.push({ kind: 'insert', parentId, afterBlockId: anchorId, blocks: run });
+            plan.summary.inserted += run.length;
+            run = [];
+        }
+    };
+
+    for (const entry of entries) {
+        if (entry.kind === 'insert') {
+            run.push(entry.desired);
+            continue;
+        }
+
+        flush();
+        anchorId = entry.existing.id;
+
+        if (entry.kind === 'keep') {
+            plan.summary.kept++;
+            continue;
+        }
+
+        if (blockContentSignature(entry.existing) !== blockContentSignature(entry.desired)) {
+            plan.operations.push({
+                kind: 'update',
+                blockId: entry.existing.id,
+                type: entry.desired.type,
+                data: buildUpdateData(entry.desired),
+            });
+            plan.summary.updated++;
+        } else {
+            plan.summary.kept++;
+        }
+        diffChildren(entry.existing.id, getExistingChildren(entry.existing), getDesiredChildren(entry.desired), plan);
+    }
+    flush();
+
+    for (const block of existing) {
+        if (!survivors.has(block)) {
+            plan.operations.push({ kind: 'delete', blockId: block.id });
+            plan.summary.deleted++;
+        }
+    }
+}
+
+/**
+ * Plan the operations that turn a page's current top-level blocks (with nested children attached)
+ * into the desired blocks. Apply updates and inserts in order before deletes - inserts may be
+ * anchored on blocks that are deleted afterwards.
+ */
+export function diffBlocks(pageId: string, existingBlocks: NotionBlock[], desiredBlocks: NotionBlockData[]): BlockDiffPlan {
+    const plan: BlockDiffPlan = {
+        operations: [],
+        summary: { kept: 0, updated: 0, inserted: 0, deleted: 0 },
+    };
+
+    diffChildren(pageId, existingBlocks as ExistingBlock[], desiredBlocks, plan);
+
+    // Deletes last so insert anchors still exist
+    plan.operations.sort((a, b) => Number(a.kind === 'delete') - Number(b.kind === 'delete'));
+    return plan;
+}
@@ -0,0 +1,335 @@
+/**
+ * Knowledge Hub configuration
+ * Read from knowledge-hub.config.{json,yaml,yml} (or the file named by --config / KNOWLEDGE_HUB_CONFIG),
+ * validated with zod. ${VAR} and ${VAR:-fallback} in string values are replaced from the environment;
+ * settings the file leaves out fall back to the environment variables used before config files existed.
+ */
+
+import { z } from 'zod';
+import fs from 'fs-extra';
+import { homedir } from 'os';
+import { dirname, extname, join, resolve } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { CONVERSION_PRESET_NAMES, ConversionOptions, ConversionPresetName } from '../types/markdown.js';
+
+export const CONFIG_FILE_NAMES = ['knowledge-hub.config.json', 'knowledge-hub.config.yaml', 'knowledge-hub.config.yml'];
+
+const DEFAULT_SEARCH_LIMIT = 10;
+const DEFAULT_RESOURCE_POLL_INTERVAL_MS = 60_000;
+
+const ENV_REFERENCE_PATTERN = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+/**
+ * Conversion options as accepted by the tools and the config file (everything but the link resolver)
+ */
+export const conversionOptionsSchema = z.object({
+    preserveColors: z.boolean().describe('Text colors as <span style="color: ..."> HTML (both directions)'),
+    preserveFormatting: z.boolean().describe('Bold, italic, strikethrough and inline code; false converts plain text'),
+    maxHeadingLevel: z.number().int().min(1).max(6).describe('Deepest heading level kept; deeper headings become bold paragraphs'),
+    handleUnsupportedBlocks: z.enum(['ignore', 'convert', 'error']).describe('What to do with blocks that have no equivalent'),
+    convertCallouts: z.boolean().describe('Callouts as blockquotes; false skips them on export and imports admonitions as plain quotes'),
+    convertToggles: z.boolean().describe('Toggles as <details>; false converts them to plain paragraphs'),
+    includeMetadata: z.boolean().describe('Export: write a frontmatter block'),
+    preserveImageCaptions: z.boolean().describe('Image captions as alt text'),
+    tableAlignment: z.boolean().describe('Import: treat the first table row as a header row'),
+    imageHandling: z.enum(['link', 'upload', 'ignore']).describe('"link" (default) links every image by URL, "upload" uploads local images and attachments from the docs or sync root (else the markdown file\'s folder), "ignore" drops images'),
+    imageBaseUrl: z.string().describe('Base URL relative image paths resolve against (and are made relative to on export)'),
+    preserveNotionLinks: z.boolean().describe('Keep links to Notion pages; false keeps only the link text'),
+    convertInternalLinks: z.boolean().describe('Write links to Notion pages as linkBaseUrl/<page id>, and read them back on import'),
+    linkBaseUrl: z.string().describe('Base URL of internal page links'),
+    lineBreaks: z.enum(['lf', 'crlf', 'auto']).describe('Export: line endings'),
+    indentSize: z.number().int().min(1).max(8).describe('Export: indentation of content nested under list items'),
+    codeBlockStyle: z.enum(['fenced', 'indented']).describe('Export: code block style'),
+    listMarker: z.enum(['-', '*', '+']).describe('Export: bullet list marker'),
+    emphasisMarker: z.enum(['*', '_']).describe('Export: italic/bold marker'),
+    fidelity: z.boolean().describe('Round-trip fidelity markers for Notion-only features'),
+});
+
+// A Notion database profile - the token is given directly, by environment variable name, or falls back to the Notion token
+const notionDatabaseSchema = z.object({
+    databaseId: z.string().optional(),
+    token: z.string().optional(),
+    tokenEnv: z.string().optional(),
+    description: z.string().optional(),
+    defaultCategory: z.string().optional(),
+    defaultStatus: z.string().optional(),
+}).strict();
+
+const embeddingProviderSchema = z.enum(['hashing', 'transformers']);
+
+const configFileSchema = z.object({
+    sources: z.object({
+        docs: z.object({
+            enabled: z.boolean().optional(),
+            root: z.string().optional(),
+        }).strict().optional(),
+        guru: z.object({
+            enabled: z.boolean().optional(),
+            token: z.string().optional(),
+        }).strict().optional(),
+        notion: z.object({
+            enabled: z.boolean().optional(),
+            token: z.string().optional(),
+            databaseId: z.string().optional(),
+            databases: z.record(notionDatabaseSchema).optional(),
+            defaultDatabase: z.string().optional(),
+            resourcePollIntervalMs: z.number().int().positive().optional(),
+        }).strict().optional(),
+    }).strict().optional(),
+    conversion: z.object({
+        preset: z.enum(CONVERSION_PRESET_NAMES).optional(),
+        options: conversionOptionsSchema.partial().strict().optional(),
+    }).strict().optional(),
+    search: z.object({
+        defaultLimit: z.number().int().min(1).max(100).optional(),
+        indexDir: z.string().optional(),
+        embeddingProvider: embeddingProviderSchema.optional(),
+        embeddingModel: z.string().optional(),
+    }).strict().optional(),
+    debug: z.boolean().optional(),
+}).strict();
+
+type ConfigFile = z.infer<typeof configFileSchema>;
+
+export type NotionDatabaseConfig = z.infer<typeof notionDatabaseSchema>;
+
+/**
+ * Effective settings - the config file, then the environment, then the defaults
+ */
+export interface KnowledgeHubConfig {
+    sources: {
+        docs: { enabled: boolean; root?: string };
+        guru: { enabled: boolean; token?: string };
+        notion: {
+            enabled: boolean;
+            // Token of the "default" profile and of profiles without their own
+            token?: string;
+            // Database of the "default" profile
+            databaseId?: string;
+            databases: Record<string, NotionDatabaseConfig>;
+            defaultDatabase?: string;
+            resourcePollIntervalMs: number;
+        };
+    };
+    conversion: {
+        preset?: ConversionPresetName;
+        options: Partial<ConversionOptions>;
+    };
+    search: {
+        defaultLimit: number;
+        indexDir: string;
+        embeddingProvider: z.infer<typeof embeddingProviderSchema>;
+        embeddingModel?: string;
+    };
+    // Extra diagnostics in tool responses (default: NODE_ENV=development)
+    debug: boolean;
+}
+
+export interface LoadedKnowledgeHubConfig {
+    config: KnowledgeHubConfig;
+    // Config file the settings came from (undefined: environment variables only)
+    path?: string;
+    // Variables referenced as ${VAR} in the file that aren't set
+    missingVariables: string[];
+    // Environment values that were ignored, with the reason
+    problems: string[];
+}
+
+/**
+ * The config file can't be read or doesn't match the schema
+ */
+export class InvalidConfigError extends Error {
+    readonly path: string;
+    // One line per problem, e.g. "sources.notion.token: Expected string, received number"
+    readonly issues: string[];
+
+    constructor(path: string, issues: string[]) {
+        super(`Invalid configuration in ${path}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+        this.name = 'InvalidConfigError';
+        this.path = path;
+        this.issues = issues;
+    }
+}
+
+let activeConfig: LoadedKnowledgeHubConfig | undefined;
+
+/**
+ * Config file to use: the given path, else KNOWLEDGE_HUB_CONFIG, else the first knowledge-hub.config.* in the directory
+ */
+export async function findConfigFile(
+    path?: string,
+    env: NodeJS.ProcessEnv = process.env,
+    directory = process.cwd(),
+): Promise<string | undefined> {
+    const configured = path ?? nonEmpty(env.KNOWLEDGE_HUB_CONFIG);
+    if (configured !== undefined) {
+        return resolve(directory, configured);
+    }
+
+    for (const name of CONFIG_FILE_NAMES) {
+        const candidate = join(directory, name);
+        if (await fs.pathExists(candidate)) {
+            return candidate;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Load and validate the config file (if there is one) and resolve the effective settings
+ * Throws InvalidConfigError when the file is missing, unparsable or invalid.
+ */
+export async function loadKnowledgeHubConfig(
+    options: { path?: string; env?: NodeJS.ProcessEnv; directory?: string } = {},
+): Promise<LoadedKnowledgeHubConfig> {
+    const env = options.env ?? process.env;
+    const path = await findConfigFile(options.path, env, options.directory);
+    if (path === undefined) {
+        return resolveConfig(undefined, undefined, env, []);
+    }
+
+    let raw: unknown;
+    try {
+        const text = await fs.readFile(path, 'utf-8');
+        raw = extname(path) === '.json' ? JSON.parse(text) as unknown : parseYaml(text) as unknown;
+    } catch (error) {
+        throw new InvalidConfigError(path, [error instanceof Error ? error.message : String(error)]);
+    }
+
+    const missing = new Set<string>();
+    const parsed = configFileSchema.safeParse(interpolateEnv(raw ?? {}, env, missing));
+    if (!parsed.success) {
+        throw new InvalidConfigError(path, parsed.error.issues.map(issue =>
+            `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`));
+    }
+
+    return resolveConfig(parsed.data, path, env, [...missing]);
+}
+
+/**
+ * Use these settings for the rest of the process (called once at startup)
+ */
+export function setKnowledgeHubConfig(loaded: LoadedKnowledgeHubConfig): void {
+    activeConfig = loaded;
+}
+
+/**
+ * Settings loaded at startup, or - when nothing was loaded, e.g. in scripts - the environment variables
+ */
+export function getLoadedKnowledgeHubConfig(): LoadedKnowledgeHubConfig {
+    return activeConfig ?? resolveConfig(undefined, undefined, process.env, []);
+}
+
+export function getKnowledgeHubConfig(): KnowledgeHubConfig {
+    return getLoadedKnowledgeHubConfig().config;
+}
+
+/**
+ * Replace ${VAR} and ${VAR:-fallback} in every string of a parsed config file
+ */
+function interpolateEnv(value: unknown, env: NodeJS.ProcessEnv, missing: Set<string>): unknown {
+    if (typeof value === 'string') {
+        return value.replace(ENV_REFERENCE_PATTERN, (_match, name: string, fallback: string | undefined) => {
+            const resolved = nonEmpty(env[name]) ?? fallback;
+            if (resolved === undefined) {
+                missing.add(name);
+            }
+            return resolved ?? '';
+        });
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => interpolateEnv(item, env, missing));
+    }
+    if (value !== null && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, interpolateEnv(item, env, missing)]));
+    }
+    return value;
+}
+
+/**
+ * Effective settings from the parsed file and the environment
+ * Relative paths in the file resolve against the file's directory.
+ */
+function resolveConfig(
+    file: ConfigFile | undefined,
+    path: string | undefined,
+    env: NodeJS.ProcessEnv,
+    missingVariables: string[],
+): LoadedKnowledgeHubConfig {
+    const problems: string[] = [];
+    const baseDir = path !== undefined ? dirname(path) : process.cwd();
+
+    // An environment variable checked against the schema of its setting
+    const fromEnv = <T>(name: string, schema: z.ZodType<T>): T | undefined => {
+        const value = nonEmpty(env[name]);
+        if (value === undefined) {
+            return undefined;
+        }
+        const parsed = schema.safeParse(value);
+        if (!parsed.success) {
+            const issue = parsed.error.issues[0];
+            problems.push(`${name} is ignored: ${issue.path.length > 0 ? `${issue.path.join('.')}: ` : ''}${issue.message}`);
+            return undefined;
+        }
+        return parsed.data;
+    };
+
+    const { docs, guru, notion } = file?.sources ?? {};
+    const docsRoot = nonEmpty(docs?.root);
+    const indexDir = nonEmpty(file?.search?.indexDir);
+    const pollInterval = fromEnv('NOTION_RESOURCE_POLL_INTERVAL_MS', z.coerce.number().int().positive());
+
+    const config: KnowledgeHubConfig = {
+        sources: {
+            docs: {
+                enabled: docs?.enabled ?? true,
+                root: docsRoot !== undefined ? resolve(baseDir, docsRoot) : nonEmpty(env.DOCS_ROOT),
+            },
+            guru: {
+                enabled: guru?.enabled ?? true,
+                token: nonEmpty(guru?.token) ?? nonEmpty(env.GURU_TOKEN),
+            },
+            notion: {
+                enabled: notion?.enabled ?? true,
+                token: nonEmpty(notion?.token) ?? nonEmpty(env.NOTION_TOKEN),
+                databaseId: nonEmpty(notion?.databaseId) ?? nonEmpty(env.NOTION_MCP_DATABASE_ID),
+                databases: notion?.databases ?? fromEnv('NOTION_DATABASES', jsonSchema(z.record(notionDatabaseSchema))) ?? {},
+                defaultDatabase: nonEmpty(notion?.defaultDatabase) ?? nonEmpty(env.NOTION_DEFAULT_DATABASE),
+                resourcePollIntervalMs: notion?.resourcePollIntervalMs ?? pollInterval ?? DEFAULT_RESOURCE_POLL_INTERVAL_MS,
+            },
+        },
+        conversion: {
+            preset: file?.conversion?.preset ?? fromEnv('NOTION_CONVERSION_PRESET', z.enum(CONVERSION_PRESET_NAMES)),
+            options: file?.conversion?.options ?? {},
+        },
+        search: {
+            defaultLimit: file?.search?.defaultLimit ?? DEFAULT_SEARCH_LIMIT,
+            indexDir: indexDir !== undefined
+                ? resolve(baseDir, indexDir)
+                : nonEmpty(env.NOTION_SEARCH_INDEX_DIR) ?? join(homedir(), '.cache', 'ai-knowledge-hub'),
+            embeddingProvider: file?.search?.embeddingProvider ?? fromEnv('SEMANTIC_EMBEDDING_PROVIDER', embeddingProviderSchema) ?? 'hashing',
+            embeddingModel: nonEmpty(file?.search?.embeddingModel) ?? nonEmpty(env.SEMANTIC_EMBEDDING_MODEL),
+        },
+        debug: file?.debug ?? env.NODE_ENV === 'development',
+    };
+
+    return { config, path, missingVariables, problems };
+}
+
+/**
+ * Schema of a JSON-encoded environment variable
+ */
+function jsonSchema<T>(schema: z.ZodType<T>): z.ZodType<T> {
+    return z.string().transform((value, context) => {
+        try {
+            return JSON.parse(value) as unknown;
+        } catch {
+            context.addIssue({ code: z.ZodIssueCode.custom, message: 'not valid JSON' });
+            return z.NEVER;
+        }
+    }).pipe(schema) as unknown as z.ZodType<T>;
+}
+
+function nonEmpty(value: string | undefined): string | undefined {
+    return value !== undefined && value.trim() !== '' ? value.trim() : undefined;
+}
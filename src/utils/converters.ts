@@ -7,13 +7,46 @@ import { MarkdownParser } from './markdown-parser.js';
 import { markdownASTToNotionBlocks } from './markdown-to-notion.js';
 import { notionBlocksToMarkdown } from './notion-to-markdown.js';
 import {
+    CONVERSION_PRESETS,
+    CONVERSION_PRESET_NAMES,
     ConversionOptions,
+    ConversionPresetName,
     ConversionResult,
     DEFAULT_CONVERSION_OPTIONS,
 } from '../types/markdown.js';
 import { NotionBlock } from '../types/notion.js';
+import { getKnowledgeHubConfig } from './config.js';
 import { NotionBlockData } from './notion-blocks.js';
 
+/**
+ * Options of a named preset
+ */
+export function getConversionPreset(name: string): Partial<ConversionOptions> {
+    if (!(CONVERSION_PRESET_NAMES as readonly string[]).includes(name)) {
+        throw new Error(`Unknown conversion preset "${name}". Available presets: ${CONVERSION_PRESET_NAMES.join(', ')}`);
+    }
+    return CONVERSION_PRESETS[name as ConversionPresetName];
+}
+
+/**
+ * Conversion options for one call: the defaults, then the configured preset and options (config file or
+ * NOTION_CONVERSION_PRESET), then the preset chosen for the call, then individual options
+ */
+export function resolveConversionOptions(
+    preset?: string,
+    options: Partial<ConversionOptions> = {},
+): ConversionOptions {
+    const configured = getKnowledgeHubConfig().conversion;
+
+    return {
+        ...DEFAULT_CONVERSION_OPTIONS,
+        ...(configured.preset !== undefined ? getConversionPreset(configured.preset) : {}),
+        ...configured.options,
+        ...(preset !== undefined ? getConversionPreset(preset) : {}),
+        ...options,
+    };
+}
+
 /**
  * Convert markdown content to Notion blocks
  */
@@ -22,14 +55,12 @@ export function markdownToNotion(
     options: Partial<ConversionOptions> = {},
 ): ConversionResult {
     try {
-        const conversionOptions = {
-            ...DEFAULT_CONVERSION_OPTIONS,
-            ...options,
-        };
+        const conversionOptions = resolveConversionOptions(undefined, options);
 
         const parser = new MarkdownParser({
             extractMetadata: true,
             validateSyntax: true,
+            parseHtmlColors: conversionOptions.preserveColors,
         });
 
         // Parse markdown to AST
@@ -52,10 +83,7 @@ export function notionToMarkdown(
     options: Partial<ConversionOptions> = {},
 ): ConversionResult {
     try {
-        const conversionOptions = {
-            ...DEFAULT_CONVERSION_OPTIONS,
-            ...options,
-        };
+        const conversionOptions = resolveConversionOptions(undefined, options);
 
         const result = notionBlocksToMarkdown(blocks, conversionOptions);
 
@@ -0,0 +1,165 @@
+/**
+ * Local embedding providers for semantic search
+ * Everything runs in-process - no document text leaves the machine
+ */
+
+import { getKnowledgeHubConfig } from './config.js';
+import { tokenize } from './search-index.js';
+
+export interface EmbeddingProvider {
+    // Stored with the index so vectors from different providers are never mixed
+    readonly id: string;
+    readonly dimensions: number;
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+const DEFAULT_HASHING_DIMENSIONS = 512;
+const DEFAULT_TRANSFORMERS_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+/**
+ * Cosine similarity of two vectors (providers return unit vectors, so this is a dot product)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * FNV-1a 32-bit hash
+ */
+function hashString(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Dependency-free fallback: feature hashing of words, word pairs and character trigrams
+ * Trigrams let "mocking" land near "mocks"; it does not understand synonyms
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+    readonly id: string;
+    readonly dimensions: number;
+
+    constructor(dimensions = DEFAULT_HASHING_DIMENSIONS) {
+        this.dimensions = dimensions;
+        this.id = `hashing-${dimensions}`;
+    }
+
+    embed(texts: string[]): Promise<number[][]> {
+        return Promise.resolve(texts.map(text => this.embedOne(text)));
+    }
+
+    private embedOne(text: string): number[] {
+        const features = new Map<string, number>();
+        const add = (feature: string, weight: number): void => {
+            features.set(feature, (features.get(feature) ?? 0) + weight);
+        };
+
+        const tokens = tokenize(text);
+        tokens.forEach((token, i) => {
+            add(`w:${token}`, 1);
+            if (i > 0) {
+                add(`b:${tokens[i - 1]} ${token}`, 0.5);
+            }
+            const padded = ` ${token} `;
+            for (let j = 0; j + 3 <= padded.length; j++) {
+                add(`c:${padded.substring(j, j + 3)}`, 0.25);
+            }
+        });
+
+        const vector = new Array<number>(this.dimensions).fill(0);
+        for (const [feature, count] of features) {
+            const hash = hashString(feature);
+            // Sublinear term frequency; the top bit picks the sign to reduce collision bias
+            const weight = (1 + Math.log(count)) * ((hash & 0x80000000) !== 0 ? -1 : 1);
+            vector[hash % this.dimensions] += weight;
+        }
+
+        const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+        return norm === 0 ? vector : vector.map(value => value / norm);
+    }
+}
+
+interface FeatureExtractor {
+    (texts: string[], options: { pooling: 'mean'; normalize: boolean }): Promise<{ tolist(): number[][] }>;
+}
+
+interface TransformersModule {
+    pipeline(task: 'feature-extraction', model: string): Promise<FeatureExtractor>;
+}
+
+/**
+ * Small CPU-only sentence embedding model via the optional @xenova/transformers package
+ * The model is downloaded once on first use and cached by the library
+ */
+export class TransformersEmbeddingProvider implements EmbeddingProvider {
+    readonly id: string;
+    readonly dimensions = 384;
+    private readonly model: string;
+    private extractor?: Promise<FeatureExtractor>;
+
+    constructor(model = DEFAULT_TRANSFORMERS_MODEL) {
+        this.model = model;
+        this.id = `transformers-${model}`;
+    }
+
+    /**
+     * Load the model (throws if @xenova/transformers is not installed)
+     */
+    async load(): Promise<void> {
+        await this.getExtractor();
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        if (texts.length === 0) {
+            return [];
+        }
+        const extractor = await this.getExtractor();
+        const output = await extractor(texts, { pooling: 'mean', normalize: true });
+        return output.tolist();
+    }
+
+    private getExtractor(): Promise<FeatureExtractor> {
+        this.extractor ??= (async (): Promise<FeatureExtractor> => {
+            // Optional dependency - resolved at runtime so the server works without it
+            const moduleName = '@xenova/transformers';
+            const transformers = await import(moduleName) as TransformersModule;
+            return transformers.pipeline('feature-extraction', this.model);
+        })();
+
+        // Allow a retry if loading failed (e.g. package installed later)
+        this.extractor.catch(() => {
+            this.extractor = undefined;
+        });
+        return this.extractor;
+    }
+}
+
+/**
+ * Create the configured embedding provider ("hashing" or "transformers" - search.embeddingProvider or SEMANTIC_EMBEDDING_PROVIDER)
+ * Falls back to hashing when the transformers package or model is unavailable
+ */
+export async function createEmbeddingProvider(name = getKnowledgeHubConfig().search.embeddingProvider): Promise<EmbeddingProvider> {
+    if (name === 'transformers') {
+        const provider = new TransformersEmbeddingProvider(getKnowledgeHubConfig().search.embeddingModel);
+        try {
+            await provider.load();
+            return provider;
+        } catch (error) {
+            console.error(`Semantic search: transformers provider unavailable, using hashing fallback (${error instanceof Error ? error.message : String(error)})`);
+        }
+    }
+
+    return new HashingEmbeddingProvider();
+}
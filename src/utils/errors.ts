@@ -0,0 +1,126 @@
+/**
+ * Typed errors for the upstream services (Notion, Guru) and the writes made to them
+ * Thrown by the shared HTTP client and the services so tools can tell failures apart without matching on messages
+ */
+
+export abstract class ServiceError extends Error {
+    // Name of the service in messages, e.g. "Guru API"
+    readonly service: string;
+    // What the user can do about it, shown under the message
+    readonly hint?: string;
+
+    constructor(service: string, message: string, options: { hint?: string; cause?: unknown } = {}) {
+        super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+        this.name = new.target.name;
+        this.service = service;
+        this.hint = options.hint;
+    }
+}
+
+/**
+ * Credentials or other required settings are missing
+ */
+export class NotConfiguredError extends ServiceError {
+    constructor(service: string, requirement: string, hint?: string) {
+        super(service, `${service} not configured: ${requirement}`, { hint });
+    }
+}
+
+/**
+ * The service rejected the credentials (401) or denied access (403)
+ */
+export class AuthError extends ServiceError {
+    readonly status: number;
+
+    constructor(service: string, status: number, message: string, hint?: string) {
+        super(service, message, { hint });
+        this.status = status;
+    }
+}
+
+/**
+ * The requested object doesn't exist or isn't visible to the credentials (404)
+ */
+export class NotFoundError extends ServiceError {
+    constructor(service: string, message: string, hint?: string) {
+        super(service, message, { hint });
+    }
+}
+
+/**
+ * Still rate limited (429) after the scheduler's retries
+ */
+export class RateLimitedError extends ServiceError {
+    readonly retryAfterMs?: number;
+
+    constructor(service: string, message: string, retryAfterMs?: number) {
+        super(service, message);
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+/**
+ * Any other failed request: an error response (status set), a timeout or a network error
+ */
+export class UpstreamError extends ServiceError {
+    readonly status?: number;
+    // The API's error code, e.g. Notion's "validation_error"
+    readonly code?: string;
+
+    constructor(service: string, message: string, options: { status?: number; code?: string; cause?: unknown } = {}) {
+        super(service, message, { cause: options.cause });
+        this.status = options.status;
+        this.code = options.code;
+    }
+}
+
+/**
+ * A page was created but only part of its blocks were appended
+ * The page is kept; writing the same content again with resumeToken continues after the last appended block.
+ */
+export class IncompleteWriteError extends Error {
+    readonly pageId: string;
+    readonly resumeToken: string;
+    readonly appendedBlocks: number;
+    readonly totalBlocks: number;
+
+    constructor(message: string, details: { pageId: string; resumeToken: string; appendedBlocks: number; totalBlocks: number; cause?: unknown }) {
+        super(message, details.cause !== undefined ? { cause: details.cause } : undefined);
+        this.name = 'IncompleteWriteError';
+        this.pageId = details.pageId;
+        this.resumeToken = details.resumeToken;
+        this.appendedBlocks = details.appendedBlocks;
+        this.totalBlocks = details.totalBlocks;
+    }
+}
+
+/**
+ * Tool response text for a failed action, e.g. formatToolError(error, 'Failed to read Guru card')
+ */
+export function formatToolError(error: unknown, action: string): string {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (error instanceof NotConfiguredError) {
+        return `🔐 ${message}${error.hint !== undefined ? `\n\n${error.hint}` : ''}`;
+    }
+
+    let text: string;
+    let hint = error instanceof ServiceError ? error.hint : undefined;
+    if (error instanceof AuthError) {
+        text = `🔑 ${action}: ${message}`;
+    } else if (error instanceof NotFoundError) {
+        text = `🔎 ${action}: ${message}`;
+    } else if (error instanceof RateLimitedError) {
+        text = `⏱️ ${action}: ${message}`;
+        hint = error.retryAfterMs !== undefined
+            ? `Try again in ${Math.ceil(error.retryAfterMs / 1000)} seconds.`
+            : 'Try again in a minute.';
+    } else {
+        text = `❌ ${action}: ${message}`;
+        if (error instanceof UpstreamError && (error.status === undefined || error.status >= 500)) {
+            hint = `${error.service} may be temporarily unavailable - try again shortly.`;
+        }
+    }
+
+    return hint !== undefined ? `${text}\n\n💡 ${hint}` : text;
+}
@@ -3,8 +3,8 @@
  * Handles all file operations for markdown documents
  */
 
-import * as fs from 'fs-extra';
-import { dirname, extname, resolve } from 'path';
+import fs from 'fs-extra';
+import { dirname, extname, join, resolve } from 'path';
 import { MarkdownMetadata } from '../types/index.js';
 
 /**
@@ -74,6 +74,39 @@ export async function ensureDirectory(dirPath: string): Promise<void> {
     }
 }
 
+/**
+ * Recursively list markdown files under a directory
+ * Hidden directories and node_modules are skipped
+ */
+export async function listMarkdownFiles(rootDir: string): Promise<string[]> {
+    const files: string[] = [];
+
+    let entries: fs.Dirent[];
+    try {
+        entries = await fs.readdir(rootDir, { withFileTypes: true });
+    } catch {
+        throw new Error(`Failed to read directory: ${rootDir}`);
+    }
+
+    for (const entry of entries) {
+        if (entry.name.startsWith('.') || entry.name === 'node_modules') {
+            continue;
+        }
+
+        const entryPath = join(rootDir, entry.name);
+        if (entry.isDirectory()) {
+            files.push(...await listMarkdownFiles(entryPath));
+        } else if (entry.isFile()) {
+            const ext = extname(entry.name).toLowerCase();
+            if (ext === '.md' || ext === '.markdown') {
+                files.push(entryPath);
+            }
+        }
+    }
+
+    return files.sort();
+}
+
 /**
  * Extract metadata from markdown frontmatter and content
  */
@@ -0,0 +1,56 @@
+/**
+ * Lightweight HTML to markdown conversion for Guru card content
+ * Covers the tags Guru's editor produces; anything else is reduced to its text
+ */
+
+const HTML_ENTITIES: Record<string, string> = {
+    '&amp;': '&',
+    '&lt;': '<',
+    '&gt;': '>',
+    '&quot;': '"',
+    '&#39;': "'",
+    '&nbsp;': ' ',
+};
+
+function decodeEntities(text: string): string {
+    return text
+        .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, entity => HTML_ENTITIES[entity] ?? entity)
+        .replace(/&#(\d+);/g, (_match, code: string) => String.fromCharCode(Number(code)));
+}
+
+/**
+ * Convert HTML to markdown
+ */
+export function htmlToMarkdown(html: string): string {
+    let markdown = html.replace(/\r\n?/g, '\n');
+
+    // Code blocks first so their content is left alone
+    const codeBlocks: string[] = [];
+    markdown = markdown.replace(/<pre[^>]*>([\s\S]*?)<\/pre>/gi, (_match, code: string) => {
+        const text = decodeEntities(code.replace(/<\/?code[^>]*>/gi, '').replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, ''));
+        codeBlocks.push(`\n\n\`\`\`\n${text.trim()}\n\`\`\`\n\n`);
+        return `@@CODE_BLOCK_${codeBlocks.length - 1}@@`;
+    });
+
+    markdown = markdown
+        .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_match, level: string, text: string) => `\n\n${'#'.repeat(Number(level))} ${text.trim()}\n\n`)
+        .replace(/<(strong|b)(\s[^>]*)?>([\s\S]*?)<\/\1>/gi, '**$3**')
+        .replace(/<(em|i)(\s[^>]*)?>([\s\S]*?)<\/\1>/gi, '*$3*')
+        .replace(/<code[^>]*>([\s\S]*?)<\/code>/gi, '`$1`')
+        .replace(/<a[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, '[$2]($1)')
+        .replace(/<img[^>]*src="([^"]*)"[^>]*>/gi, '![]($1)')
+        .replace(/<li[^>]*>([\s\S]*?)<\/li>/gi, (_match, text: string) => `\n- ${text.trim()}`)
+        .replace(/<\/(ul|ol)>/gi, '\n\n')
+        .replace(/<blockquote[^>]*>([\s\S]*?)<\/blockquote>/gi, (_match, text: string) => `\n\n> ${text.trim()}\n\n`)
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|div|tr|table)>/gi, '\n\n')
+        .replace(/<\/t[dh]>/gi, ' | ')
+        .replace(/<[^>]+>/g, '');
+
+    markdown = decodeEntities(markdown)
+        .replace(/@@CODE_BLOCK_(\d+)@@/g, (_match, index: string) => codeBlocks[Number(index)])
+        .replace(/[ \t]+\n/g, '\n')
+        .replace(/\n{3,}/g, '\n\n');
+
+    return markdown.trim();
+}
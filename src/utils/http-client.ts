@@ -0,0 +1,110 @@
+/**
+ * HTTP client shared by the API services
+ * Sends requests through a RequestScheduler (rate limiting, retries, timeouts) and turns failures
+ * into the typed errors of utils/errors.ts
+ */
+
+import { AuthError, NotFoundError, RateLimitedError, UpstreamError } from './errors.js';
+import { RequestScheduler } from './request-scheduler.js';
+
+export interface HttpClientOptions {
+    // Name of the API in error messages, e.g. "Guru API"
+    service: string;
+    scheduler: RequestScheduler;
+    // Headers of every request, e.g. authorization - throw NotConfiguredError when credentials are missing
+    getHeaders: () => Record<string, string>;
+    // Shown under auth and not-found errors
+    authHint?: string;
+    notFoundHint?: string;
+}
+
+export interface HttpRequestOptions {
+    method?: 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE';
+    // Sent as JSON, except FormData, which sets its own content type
+    body?: unknown;
+    headers?: Record<string, string>;
+    // Whether the request may be sent again when its outcome is unknown (default: every method but POST)
+    idempotent?: boolean;
+}
+
+export class HttpClient {
+    private readonly options: HttpClientOptions;
+
+    constructor(options: HttpClientOptions) {
+        this.options = options;
+    }
+
+    /**
+     * Send a request; returns the OK response (fully read) or throws a ServiceError
+     */
+    async request(url: string, options: HttpRequestOptions = {}): Promise<Response> {
+        const method = options.method ?? 'GET';
+        const isFormData = options.body instanceof FormData;
+        const init: RequestInit = {
+            method,
+            headers: {
+                ...this.options.getHeaders(),
+                ...(options.body !== undefined && !isFormData ? { 'Content-Type': 'application/json' } : {}),
+                ...options.headers,
+            },
+        };
+        if (options.body !== undefined) {
+            init.body = isFormData ? options.body as FormData : JSON.stringify(options.body);
+        }
+
+        let response: Response;
+        try {
+            response = await this.options.scheduler.run(signal => fetch(url, { ...init, signal }), {
+                idempotent: options.idempotent ?? method !== 'POST',
+            });
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new UpstreamError(this.options.service, `${this.options.service} request failed: ${reason}`, { cause: error });
+        }
+
+        if (!response.ok) {
+            throw await this.toError(response);
+        }
+        return response;
+    }
+
+    async requestJson<T>(url: string, options: HttpRequestOptions = {}): Promise<T> {
+        const response = await this.request(url, options);
+        return await response.json() as T;
+    }
+
+    async requestBuffer(url: string, options: HttpRequestOptions = {}): Promise<Buffer> {
+        const response = await this.request(url, options);
+        return Buffer.from(await response.arrayBuffer());
+    }
+
+    /**
+     * Typed error for a non-OK response, with the API's own message (JSON message or description, else the body text)
+     */
+    private async toError(response: Response): Promise<Error> {
+        const { service, authHint, notFoundHint } = this.options;
+        const text = (await response.text()).trim();
+        let detail: { message?: string; description?: string; code?: string } | undefined;
+        try {
+            detail = JSON.parse(text) as typeof detail;
+        } catch {
+            // Not JSON - the body text is the message
+        }
+        const reason = detail?.message ?? detail?.description ?? (detail === undefined && text !== '' ? text : response.statusText);
+        const message = `${service} error ${response.status}: ${reason}`;
+
+        switch (response.status) {
+            case 401:
+            case 403:
+                return new AuthError(service, response.status, message, authHint);
+            case 404:
+                return new NotFoundError(service, message, notFoundHint);
+            case 429: {
+                const seconds = Number(response.headers.get('retry-after'));
+                return new RateLimitedError(service, message, Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined);
+            }
+            default:
+                return new UpstreamError(service, message, { status: response.status, code: detail?.code });
+        }
+    }
+}
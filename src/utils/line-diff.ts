@@ -0,0 +1,84 @@
+/**
+ * Line-based text diff for previewing document changes
+ * Renders a unified-style diff with a few lines of context around each change
+ */
+
+const DEFAULT_CONTEXT_LINES = 3;
+
+type DiffLine = { kind: 'same' | 'added' | 'removed'; text: string };
+
+/**
+ * Align two line lists on their longest common subsequence
+ */
+function alignLines(before: string[], after: string[]): DiffLine[] {
+    // Trim the shared prefix and suffix so the quadratic table only covers the changed middle
+    let start = 0;
+    while (start < before.length && start < after.length && before[start] === after[start]) {
+        start++;
+    }
+    let endBefore = before.length;
+    let endAfter = after.length;
+    while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+        endBefore--;
+        endAfter--;
+    }
+
+    const a = before.slice(start, endBefore);
+    const b = after.slice(start, endAfter);
+    const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const lines: DiffLine[] = before.slice(0, start).map(text => ({ kind: 'same', text }));
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            lines.push({ kind: 'same', text: a[i] });
+            i++;
+            j++;
+        } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+            lines.push({ kind: 'removed', text: a[i] });
+            i++;
+        } else {
+            lines.push({ kind: 'added', text: b[j] });
+            j++;
+        }
+    }
+    lines.push(...before.slice(endBefore).map(text => ({ kind: 'same' as const, text })));
+
+    return lines;
+}
+
+/**
+ * Diff two texts line by line. Returns an empty string when they are identical.
+ */
+export function diffLines(before: string, after: string, contextLines = DEFAULT_CONTEXT_LINES): string {
+    const lines = alignLines(before.split('\n'), after.split('\n'));
+    const changed = lines.map(line => line.kind !== 'same');
+    if (!changed.includes(true)) {
+        return '';
+    }
+
+    // Keep changed lines plus their context, separating distant hunks
+    const output: string[] = [];
+    let lastPrinted = -1;
+    lines.forEach((line, index) => {
+        const nearChange = changed
+            .slice(Math.max(0, index - contextLines), index + contextLines + 1)
+            .includes(true);
+        if (!nearChange) {
+            return;
+        }
+        if (lastPrinted !== -1 && index > lastPrinted + 1) {
+            output.push('@@');
+        }
+        output.push(`${line.kind === 'added' ? '+' : line.kind === 'removed' ? '-' : ' '} ${line.text}`);
+        lastPrinted = index;
+    });
+
+    return output.join('\n');
+}
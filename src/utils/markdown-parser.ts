@@ -6,10 +6,12 @@ import { remark } from 'remark';
 import remarkParse from 'remark-parse';
 import remarkGfm from 'remark-gfm';
 import remarkFrontmatter from 'remark-frontmatter';
+import remarkMath from 'remark-math';
 import matter from 'gray-matter';
-import type { Content } from 'mdast';
+import type { Content, Html } from 'mdast';
 
 import {
+    AdmonitionKind,
     DEFAULT_PARSER_OPTIONS,
     MarkdownDocument,
     MarkdownMetadata,
@@ -20,6 +22,38 @@ import {
     ValidationWarning,
 } from '../types/markdown.js';
 import { DocumentInfo } from '../types/docs.js';
+import { getColorFromStyle } from './notion-blocks.js';
+
+// Annotations inherited from enclosing inline nodes
+type InlineFormatting = Pick<MarkdownNode, 'bold' | 'italic' | 'strikethrough' | 'code' | 'link' | 'underline' | 'color'>;
+
+// Fidelity marker written by the exporter, e.g. <!-- notion: color=red_background -->
+const MARKER_PATTERN = /^<!--\s*notion:\s*([\s\S]*?)\s*-->$/;
+
+// Heading anchor written by the exporter, e.g. "## Setup {#setup}"
+const HEADING_ANCHOR_PATTERN = /\s*\{#[\w-]*\}\s*$/;
+
+// GitHub-style admonition marker at the start of a blockquote, e.g. "> [!NOTE]"
+const ADMONITION_PATTERN = /^\[!(NOTE|TIP|IMPORTANT|WARNING|CAUTION)\][ \t]*\n?/i;
+
+const DETAILS_OPEN_PATTERN = /<details[\s>]/gi;
+const DETAILS_CLOSE_PATTERN = /<\/details\s*>/gi;
+
+/**
+ * Parse fidelity attributes: `key=value` pairs and bare flags
+ */
+function parseAttributes(serialized: string): Record<string, string | boolean> {
+    const attributes: Record<string, string | boolean> = {};
+    for (const token of serialized.split(/\s+/).filter(part => part !== '')) {
+        const separator = token.indexOf('=');
+        if (separator === -1) {
+            attributes[token] = true;
+        } else {
+            attributes[token.substring(0, separator)] = token.substring(separator + 1);
+        }
+    }
+    return attributes;
+}
 
 /**
  * Markdown parser class using remark
@@ -27,15 +61,23 @@ import { DocumentInfo } from '../types/docs.js';
 export class MarkdownParser {
     private processor: ReturnType<typeof remark>;
 
+    // Footnote numbers in order of first reference, and definitions by identifier, for the document being parsed
+    private footnoteNumbers = new Map<string, number>();
+    private footnoteDefinitions = new Map<string, MarkdownNode[]>();
+
+    private parseHtmlColors: boolean;
+
     constructor(options: Partial<ParserOptions> = {}) {
         const config = { ...DEFAULT_PARSER_OPTIONS, ...options };
+        this.parseHtmlColors = config.parseHtmlColors;
 
         this.processor = remark()
             .use(remarkParse, {
                 // Enable parsing of hard line breaks
                 breaks: true,
             })
-            .use(remarkGfm) as ReturnType<typeof remark>;
+            .use(remarkGfm)
+            .use(remarkMath) as ReturnType<typeof remark>;
 
         if (config.extractMetadata) {
             this.processor.use(remarkFrontmatter, ['yaml', 'toml']);
@@ -47,8 +89,14 @@ export class MarkdownParser {
      */
     parseToAST(content: string): MarkdownNode[] {
         try {
+            this.footnoteNumbers = new Map();
+            this.footnoteDefinitions = new Map();
+
             const tree = this.processor.parse(content);
-            return this.convertMdastToMarkdownNodes(tree.children);
+            const nodes = this.convertMdastToMarkdownNodes(tree.children);
+
+            const footnotes = this.buildFootnotes();
+            return footnotes !== null ? [...nodes, footnotes] : nodes;
         } catch (error) {
             throw new Error(`Failed to parse markdown: ${error instanceof Error ? error.message : String(error)}`);
         }
@@ -127,7 +175,210 @@ export class MarkdownParser {
      * Convert remark MDAST nodes to our MarkdownNode format
      */
     private convertMdastToMarkdownNodes(nodes: Content[]): MarkdownNode[] {
-        return nodes.map(node => this.convertMdastNode(node)).filter(Boolean) as MarkdownNode[];
+        const result: MarkdownNode[] = [];
+
+        for (let i = 0; i < nodes.length; i++) {
+            const node = nodes[i];
+
+            // <details> blocks span several sibling nodes when their content has blank lines
+            if (node.type === 'html' && /^<details[\s>]/i.test(node.value.trim())) {
+                const { toggle, end } = this.convertDetails(nodes, i);
+                result.push(toggle);
+                i = end;
+                continue;
+            }
+
+            // Images are blocks of their own in Notion, so paragraphs are split around them
+            if (node.type === 'paragraph' && node.children.some(child => child.type === 'image')) {
+                result.push(...this.splitParagraphAtImages(node.children));
+                continue;
+            }
+
+            const converted = this.convertMdastNode(node);
+            if (converted !== null) {
+                result.push(converted);
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Convert a paragraph's inline nodes to image nodes and paragraphs of the text between them
+     */
+    private splitParagraphAtImages(nodes: Content[]): MarkdownNode[] {
+        const result: MarkdownNode[] = [];
+        let run: Content[] = [];
+
+        const flush = (): void => {
+            const paragraph = this.convertBlockText(run);
+            if (paragraph.content.trim() !== '' || paragraph.attributes !== undefined) {
+                result.push({ type: 'paragraph', ...paragraph });
+            }
+            run = [];
+        };
+
+        for (const node of nodes) {
+            if (node.type !== 'image') {
+                run.push(node);
+                continue;
+            }
+            flush();
+            const image = this.convertMdastNode(node);
+            if (image !== null) {
+                result.push(image);
+            }
+        }
+        flush();
+
+        return result;
+    }
+
+    /**
+     * Convert a <details><summary> HTML block starting at nodes[start] into a toggle node
+     * whose first child is the summary paragraph. Returns the index of the closing node.
+     */
+    private convertDetails(nodes: Content[], start: number): { toggle: MarkdownNode; end: number } {
+        const opening = (nodes[start] as Html).value.trim();
+        const match = /^<details([^>]*)>\s*(?:<summary[^>]*>([\s\S]*?)<\/summary\s*>)?([\s\S]*)$/i.exec(opening);
+        let summary = match?.[2];
+        let leading = match?.[3] ?? '';
+
+        // Fidelity attributes, e.g. <details data-notion="heading=2">
+        const serialized = /data-notion="([^"]*)"/i.exec(match?.[1] ?? '')?.[1];
+        const attributes = serialized !== undefined ? parseAttributes(serialized) : undefined;
+
+        // Whole block in one node (no blank lines inside)
+        const countTags = (value: string, pattern: RegExp): number => (value.match(pattern) ?? []).length;
+        let depth = 1 + countTags(leading, DETAILS_OPEN_PATTERN) - countTags(leading, DETAILS_CLOSE_PATTERN);
+        if (depth <= 0) {
+            const body = leading.replace(/<\/details\s*>\s*$/i, '');
+            return { toggle: this.buildToggle(summary, this.parseFragment(body), attributes), end: start };
+        }
+
+        // Summary on its own line after a blank line
+        let end = start + 1;
+        const next = nodes[end];
+        if (summary === undefined && leading.trim() === '' && next?.type === 'html') {
+            const summaryMatch = /^<summary[^>]*>([\s\S]*?)<\/summary\s*>([\s\S]*)$/i.exec(next.value.trim());
+            if (summaryMatch !== null) {
+                summary = summaryMatch[1];
+                leading = summaryMatch[2];
+                end++;
+            }
+        }
+
+        const body: MarkdownNode[] = this.parseFragment(leading);
+        const contentStart = end;
+        for (; end < nodes.length; end++) {
+            const node = nodes[end];
+            if (node.type !== 'html') {
+                continue;
+            }
+            depth += countTags(node.value, DETAILS_OPEN_PATTERN) - countTags(node.value, DETAILS_CLOSE_PATTERN);
+            if (depth <= 0) {
+                break;
+            }
+        }
+
+        body.push(...this.convertMdastToMarkdownNodes(nodes.slice(contentStart, end)));
+        const closing = nodes[end];
+        if (closing?.type === 'html') {
+            body.push(...this.parseFragment(closing.value.replace(/<\/details\s*>\s*$/i, '')));
+        }
+
+        return { toggle: this.buildToggle(summary, body, attributes), end: Math.min(end, nodes.length - 1) };
+    }
+
+    private buildToggle(summary: string | undefined, body: MarkdownNode[], attributes?: Record<string, string | boolean>): MarkdownNode {
+        const summaryNodes = this.parseFragment((summary ?? 'Details').trim());
+        const summaryParagraph = summaryNodes[0]?.type === 'paragraph'
+            ? summaryNodes[0]
+            : { type: 'paragraph' as const, content: summary ?? 'Details', children: [{ type: 'text' as const, content: summary ?? 'Details' }] };
+
+        return {
+            type: 'toggle',
+            content: summaryParagraph.content,
+            children: [summaryParagraph, ...body],
+            ...(attributes !== undefined ? { attributes } : {}),
+        };
+    }
+
+    /**
+     * Convert a block's inline children, taking out a trailing fidelity marker as block attributes
+     */
+    private convertBlockText(nodes: Content[]): { content: string; children: MarkdownNode[]; attributes?: Record<string, string | boolean> } {
+        let attributes: Record<string, string | boolean> | undefined;
+        const text = nodes.filter(node => {
+            const marker = node.type === 'html' ? MARKER_PATTERN.exec(node.value.trim()) : null;
+            if (marker !== null) {
+                attributes = { ...attributes, ...parseAttributes(marker[1]) };
+            }
+            return marker === null;
+        });
+
+        const children = this.convertInlineNodes(text);
+        let content = this.extractTextContent(text);
+        if (attributes !== undefined) {
+            // The marker is separated from the text by a space
+            const last = children[children.length - 1];
+            if (last?.type === 'text' && last.content !== undefined) {
+                last.content = last.content.trimEnd();
+            }
+            content = content.trimEnd();
+        }
+
+        return { content, children, ...(attributes !== undefined ? { attributes } : {}) };
+    }
+
+    /**
+     * Move the attributes of a container's leading paragraph (its own text) onto the container
+     */
+    private hoistLeadAttributes(children: MarkdownNode[]): { children: MarkdownNode[]; attributes?: Record<string, unknown> } {
+        const [lead, ...rest] = children;
+        if (lead?.type !== 'paragraph' || lead.attributes === undefined) {
+            return { children };
+        }
+        const { attributes, ...paragraph } = lead;
+        return { children: [paragraph, ...rest], attributes };
+    }
+
+    /**
+     * Parse a markdown fragment found inside an HTML block
+     */
+    private parseFragment(markdown: string): MarkdownNode[] {
+        return markdown.trim() === '' ? [] : this.convertMdastToMarkdownNodes(this.processor.parse(markdown).children);
+    }
+
+    /**
+     * Number a footnote on its first reference
+     */
+    private getFootnoteNumber(identifier: string): number {
+        let number = this.footnoteNumbers.get(identifier);
+        if (number === undefined) {
+            number = this.footnoteNumbers.size + 1;
+            this.footnoteNumbers.set(identifier, number);
+        }
+        return number;
+    }
+
+    /**
+     * Collect footnote definitions into one numbered section, in reference order
+     * Definitions that are never referenced follow, so their text isn't lost
+     */
+    private buildFootnotes(): MarkdownNode | null {
+        for (const identifier of this.footnoteDefinitions.keys()) {
+            this.getFootnoteNumber(identifier);
+        }
+
+        const items = [...this.footnoteNumbers.entries()]
+            .sort(([, a], [, b]) => a - b)
+            .map(([identifier]): MarkdownNode => ({
+                type: 'list_item',
+                children: this.footnoteDefinitions.get(identifier) ?? [],
+            }));
+
+        return items.length > 0 ? { type: 'footnotes', children: items } : null;
     }
 
     /**
@@ -137,11 +388,19 @@ export class MarkdownParser {
         switch (node.type) {
             case 'heading': {
                 const heading = node;
+                const text = this.convertBlockText(heading.children);
+
+                // Drop the {#anchor} the exporter appends, so headings survive a round trip
+                const last = text.children[text.children.length - 1];
+                if (last?.type === 'text' && last.content !== undefined && HEADING_ANCHOR_PATTERN.test(last.content)) {
+                    last.content = last.content.replace(HEADING_ANCHOR_PATTERN, '');
+                    text.content = text.content.replace(HEADING_ANCHOR_PATTERN, '');
+                }
+
                 return {
                     type: 'heading',
                     level: heading.depth,
-                    content: this.extractTextContent(heading.children),
-                    children: this.convertInlineNodes(heading.children),
+                    ...text,
                 };
             }
 
@@ -149,8 +408,7 @@ export class MarkdownParser {
                 const paragraph = node;
                 return {
                     type: 'paragraph',
-                    content: this.extractTextContent(paragraph.children),
-                    children: this.convertInlineNodes(paragraph.children),
+                    ...this.convertBlockText(paragraph.children),
                 };
             }
 
@@ -165,10 +423,13 @@ export class MarkdownParser {
 
             case 'listItem': {
                 const listItem = node;
+                const children = this.convertMdastToMarkdownNodes(listItem.children);
+                const { children: itemChildren, attributes } = this.hoistLeadAttributes(children);
                 return {
                     type: 'list_item',
                     checked: listItem.checked ?? undefined,
-                    children: this.convertMdastToMarkdownNodes(listItem.children),
+                    children: itemChildren,
+                    ...(attributes !== undefined ? { attributes } : {}),
                 };
             }
 
@@ -183,12 +444,55 @@ export class MarkdownParser {
 
             case 'blockquote': {
                 const blockquote = node;
+                const { children, attributes } = this.hoistLeadAttributes(this.convertMdastToMarkdownNodes(blockquote.children));
+
+                // Callouts exported in fidelity mode carry their icon and color
+                if (attributes?.callout === true) {
+                    return {
+                        type: 'callout',
+                        attributes,
+                        children,
+                    };
+                }
+
+                // > [!NOTE] marks a GitHub-style admonition
+                const lead = children[0];
+                const marker = lead?.type === 'paragraph' && lead.children?.[0]?.type === 'text'
+                    ? ADMONITION_PATTERN.exec(lead.children[0].content ?? '')
+                    : null;
+                if (marker !== null && lead.children !== undefined) {
+                    const [firstText, ...rest] = lead.children;
+                    const remaining = (firstText.content ?? '').substring(marker[0].length);
+                    const leadChildren = remaining !== '' ? [{ ...firstText, content: remaining }, ...rest] : rest;
+                    return {
+                        type: 'callout',
+                        admonition: marker[1].toLowerCase() as AdmonitionKind,
+                        children: leadChildren.length > 0
+                            ? [{ ...lead, children: leadChildren, content: (lead.content ?? '').replace(ADMONITION_PATTERN, '') }, ...children.slice(1)]
+                            : children.slice(1),
+                    };
+                }
+
                 return {
                     type: 'quote',
-                    children: this.convertMdastToMarkdownNodes(blockquote.children),
+                    children,
+                    ...(attributes !== undefined ? { attributes } : {}),
+                };
+            }
+
+            case 'math': {
+                return {
+                    type: 'equation',
+                    content: node.value,
                 };
             }
 
+            case 'footnoteDefinition': {
+                // Rendered in the footnotes section at the end of the document
+                this.footnoteDefinitions.set(node.identifier, this.convertMdastToMarkdownNodes(node.children));
+                return null;
+            }
+
             case 'table': {
                 const table = node;
                 return {
@@ -254,50 +558,73 @@ export class MarkdownParser {
 
     /**
      * Convert inline nodes (for rich text)
+     * Formatting accumulates down the tree, so `**bold _italic_ [link](x)**` yields one text run
+     * per formatting change: bold, bold+italic, bold+link
      */
-    private convertInlineNodes(nodes: Content[]): MarkdownNode[] {
-        return nodes.map(node => {
-            if (node.type === 'text') {
-                return { type: 'text' as const, content: node.value };
-            } else if (node.type === 'break') {
-                return { type: 'text' as const, content: '\n' }; // Preserve hard line breaks
-            } else if (node.type === 'strong') {
-                return {
-                    type: 'text' as const,
-                    content: this.extractTextContent(node.children),
-                    bold: true,
-                };
-            } else if (node.type === 'emphasis') {
-                return {
-                    type: 'text' as const,
-                    content: this.extractTextContent(node.children),
-                    italic: true,
-                };
-            } else if (node.type === 'delete') {
-                return {
-                    type: 'text' as const,
-                    content: this.extractTextContent(node.children),
-                    strikethrough: true,
-                };
-            } else if (node.type === 'inlineCode') {
-                return {
-                    type: 'text' as const,
-                    content: node.value,
-                    code: true,
-                };
-            } else if (node.type === 'link') {
-                return {
-                    type: 'text' as const,
-                    content: this.extractTextContent(node.children),
-                    link: {
-                        url: node.url,
-                        title: node.title ?? undefined,
-                    },
-                };
+    private convertInlineNodes(nodes: Content[], inherited: InlineFormatting = {}): MarkdownNode[] {
+        // <u> and <span> formatting open and close in separate sibling html nodes
+        const htmlFormatting: InlineFormatting[] = [];
+
+        return nodes.flatMap((node): MarkdownNode[] => {
+            const formatting = htmlFormatting[htmlFormatting.length - 1] ?? inherited;
+
+            switch (node.type) {
+                case 'text':
+                    return [{ type: 'text', content: node.value, ...formatting }];
+                case 'break':
+                    return [{ type: 'text', content: '\n', ...formatting }]; // Preserve hard line breaks
+                case 'strong':
+                    return this.convertInlineNodes(node.children, { ...formatting, bold: true });
+                case 'emphasis':
+                    return this.convertInlineNodes(node.children, { ...formatting, italic: true });
+                case 'delete':
+                    return this.convertInlineNodes(node.children, { ...formatting, strikethrough: true });
+                case 'inlineCode':
+                    return [{ type: 'text', content: node.value, ...formatting, code: true }];
+                case 'inlineMath':
+                    return [{ type: 'text', content: node.value, ...formatting, equation: true }];
+                case 'footnoteReference':
+                    return [{ type: 'text', content: `[${this.getFootnoteNumber(node.identifier)}]`, ...formatting }];
+                case 'link':
+                    return this.convertInlineNodes(node.children, {
+                        ...formatting,
+                        link: {
+                            url: node.url,
+                            title: node.title ?? undefined,
+                        },
+                    });
+                case 'html': {
+                    const tag = node.value.trim();
+                    if (MARKER_PATTERN.test(tag)) {
+                        return [];
+                    }
+                    if (/^<u>$/i.test(tag)) {
+                        htmlFormatting.push({ ...formatting, underline: true });
+                        return [];
+                    }
+                    const color = /^<span\s+data-notion-color="(\w+)"\s*>$/i.exec(tag);
+                    if (color !== null) {
+                        htmlFormatting.push({ ...formatting, color: color[1] });
+                        return [];
+                    }
+                    // Styled spans are unwrapped, keeping their color only when HTML colors are parsed
+                    const style = /^<span\s+style="([^"]*)"\s*>$/i.exec(tag);
+                    if (style !== null) {
+                        const styleColor = this.parseHtmlColors ? getColorFromStyle(style[1]) : undefined;
+                        htmlFormatting.push(styleColor !== undefined ? { ...formatting, color: styleColor } : formatting);
+                        return [];
+                    }
+                    if (/^<\/(u|span)\s*>$/i.test(tag) && htmlFormatting.length > 0) {
+                        htmlFormatting.pop();
+                        return [];
+                    }
+                    return [{ type: 'text', content: node.value, ...formatting }];
+                }
+                default: {
+                    const nodeWithValue = node as { value?: string };
+                    return [{ type: 'text', content: nodeWithValue.value ?? '', ...formatting }];
+                }
             }
-
-            const nodeWithValue = node as { value?: string };
-            return { type: 'text' as const, content: nodeWithValue.value ?? '' };
         });
     }
 
@@ -444,14 +771,14 @@ export class MarkdownParser {
      * Get filename from path
      */
     private getFileNameFromPath(filePath: string): string {
-        return filePath.split('/').pop()?.replace(/\.md$/, '') ?? 'untitled';
+        return filePath.split('/').pop()?.replace(/\.(md|markdown)$/, '') ?? 'untitled';
     }
 
     /**
-     * Get category from path
+     * Get category from path (the directory portion, e.g. "code_guidelines/flutter")
      */
     private getCategoryFromPath(filePath: string): string {
-        const parts = filePath.split('/');
-        return parts.length > 1 ? parts[parts.length - 2] : 'general';
+        const parts = filePath.split('/').filter(part => part.length > 0);
+        return parts.length > 1 ? parts.slice(0, -1).join('/') : 'general';
     }
 }
@@ -2,25 +2,40 @@
  * Markdown to Notion conversion engine
  */
 
-import { ConversionMetadata, ConversionOptions, ConversionResult, ConversionStatistics, DEFAULT_CONVERSION_OPTIONS, MarkdownNode } from '../types/markdown.js';
-
-// Notion API limits
-const NOTION_CODE_BLOCK_MAX_CHARACTERS = 2000;
+import { NotionColor } from '../types/notion.js';
+import { AdmonitionKind, ConversionMetadata, ConversionOptions, ConversionResult, ConversionStatistics, DEFAULT_CONVERSION_OPTIONS, MarkdownNode } from '../types/markdown.js';
 import {
     NotionBlockData,
     buildBulletedListItemBlock,
+    buildCalloutBlock,
     buildCodeBlock,
     buildDividerBlock,
+    buildEquationBlock,
     buildFallbackBlock,
     buildHeadingBlock,
     buildImageBlock,
+    buildLocalFileBlock,
     buildNumberedListItemBlock,
     buildParagraphBlock,
     buildQuoteBlock,
     buildTableBlockFromNodes,
     buildToDoBlock,
+    buildToggleBlock,
+    getFileBlockType,
+    isLocalFileReference,
     normalizeHeadingLevel,
 } from './notion-blocks.js';
+import { enforceNotionLimits } from './notion-limits.js';
+import { fromInternalLink, getNotionPageUrl, isLocalMarkdownLink, isNotionUrl } from './notion-links.js';
+
+// Callout icon and color per GitHub admonition, after GitHub's own rendering
+const ADMONITION_STYLES: Record<AdmonitionKind, { icon: string; color: NotionColor }> = {
+    note: { icon: 'ℹ️', color: 'blue_background' },
+    tip: { icon: '💡', color: 'green_background' },
+    important: { icon: '❗', color: 'purple_background' },
+    warning: { icon: '⚠️', color: 'yellow_background' },
+    caution: { icon: '🛑', color: 'red_background' },
+};
 
 /**
  * Convert markdown AST to Notion blocks
@@ -42,7 +57,9 @@ export function markdownASTToNotionBlocks(
     let errorBlocks = 0;
 
     try {
-        const blocks = convertNodeArray(ast, config, warnings, errors, unsupportedBlocks);
+        // Split oversized text, code and rich-text arrays so the API accepts them
+        const nodes = prepareInlineNodes(ast, config);
+        const blocks = enforceNotionLimits(convertNodeArray(nodes, config, warnings, errors, unsupportedBlocks), warnings);
 
         // Count blocks
         totalBlocks = countBlocks(ast);
@@ -106,6 +123,49 @@ export function markdownASTToNotionBlocks(
     }
 }
 
+/**
+ * Apply the inline options to the whole tree before conversion: links to Notion pages
+ * (linkResolver, convertInternalLinks, preserveNotionLinks) and text formatting (preserveFormatting)
+ */
+function prepareInlineNodes(nodes: MarkdownNode[], options: ConversionOptions): MarkdownNode[] {
+    return nodes.map(node => {
+        const prepared: MarkdownNode = { ...node };
+
+        if (node.link !== undefined && options.linkResolver !== undefined && isLocalMarkdownLink(node.link.url)) {
+            // Links to local files of pages become page mentions; Notion can't link to other local files
+            const pageId = options.linkResolver.toPageId(node.link.url);
+            prepared.link = pageId !== undefined && options.preserveNotionLinks ? { url: getNotionPageUrl(pageId), pageId } : undefined;
+        } else if (node.link !== undefined) {
+            const url = resolveLinkUrl(node.link.url, options);
+            prepared.link = url !== undefined ? { ...node.link, url } : undefined;
+        }
+
+        if (!options.preserveFormatting && node.type === 'text') {
+            prepared.bold = undefined;
+            prepared.italic = undefined;
+            prepared.strikethrough = undefined;
+            prepared.code = undefined;
+        }
+
+        if (node.children !== undefined) {
+            prepared.children = prepareInlineNodes(node.children, options);
+        }
+
+        return prepared;
+    });
+}
+
+/**
+ * Resolve a link target: internal links written on export point back to their Notion page,
+ * and links to Notion are dropped (undefined) unless preserveNotionLinks is set
+ */
+function resolveLinkUrl(url: string, options: ConversionOptions): string | undefined {
+    const linkBaseUrl = options.linkBaseUrl ?? '';
+    const resolved = (options.convertInternalLinks && linkBaseUrl !== '' ? fromInternalLink(url, linkBaseUrl) : undefined) ?? url;
+
+    return !options.preserveNotionLinks && isNotionUrl(resolved) ? undefined : resolved;
+}
+
 /**
  * Convert an array of markdown nodes to Notion blocks
  */
@@ -121,6 +181,7 @@ function convertNodeArray(
     for (const node of nodes) {
         try {
             const convertedBlocks = convertMarkdownNode(node, options, warnings, errors, unsupportedBlocks);
+            applyBlockAttributes(convertedBlocks, node);
             blocks.push(...convertedBlocks);
         } catch (error) {
             errors.push(`Error converting node ${node.type}: ${error instanceof Error ? error.message : String(error)}`);
@@ -164,7 +225,7 @@ function convertMarkdownNode(
             return convertListItem(node, options, warnings, errors, unsupportedBlocks);
 
         case 'code':
-            return convertCodeBlock(node, options, errors);
+            return convertCodeBlock(node, options);
 
         case 'quote':
             return convertQuote(node, options, warnings, errors, unsupportedBlocks);
@@ -178,6 +239,49 @@ function convertMarkdownNode(
         case 'divider':
             return [buildDividerBlock()];
 
+        case 'equation':
+            return node.content !== undefined && node.content.trim() !== '' ? [buildEquationBlock(node.content.trim())] : [];
+
+        case 'toggle': {
+            const { content, rest } = splitLeadParagraph(node);
+            const children = convertNodeArray(rest, options, warnings, errors, unsupportedBlocks);
+
+            // Toggleable heading exported in fidelity mode
+            const headingLevel = Number(node.attributes?.heading);
+            const isHeading = headingLevel >= 1 && headingLevel <= 3;
+
+            if (!options.convertToggles) {
+                // Without toggles the summary is plain text with the content after it
+                return [isHeading ? buildHeadingBlock(content, normalizeHeadingLevel(headingLevel)) : buildParagraphBlock(content), ...children];
+            }
+
+            if (isHeading) {
+                const heading = buildHeadingBlock(content, normalizeHeadingLevel(headingLevel));
+                return [{ ...heading, [heading.type]: { ...(heading[heading.type] as Record<string, unknown>), is_toggleable: true, children } }];
+            }
+
+            return [buildToggleBlock(content, children)];
+        }
+
+        case 'callout': {
+            const { content, rest } = splitLeadParagraph(node);
+            const children = convertNodeArray(rest, options, warnings, errors, unsupportedBlocks);
+            if (!options.convertCallouts) {
+                return [buildQuoteBlock(content, children)];
+            }
+
+            const style = ADMONITION_STYLES[node.admonition ?? 'note'];
+            const icon = typeof node.attributes?.icon === 'string' ? node.attributes.icon : style.icon;
+            return [buildCalloutBlock(content, icon, style.color, children)];
+        }
+
+        case 'footnotes':
+            // Numbered to match the [n] references in the text
+            return [
+                buildDividerBlock(),
+                ...convertList({ type: 'list', ordered: true, children: node.children }, options, warnings, errors, unsupportedBlocks),
+            ];
+
         default:
             unsupportedBlocks.push(node.type);
             warnings.push(`Unsupported block type: ${node.type}`);
@@ -204,14 +308,17 @@ function convertHeading(
     _warnings: string[],
 ): NotionBlockData[] {
     const level = node.level ?? 1;
+    const content = node.children ?? node.content ?? '';
 
-    // Silently normalize heading levels to Notion's supported range (H1-H3)
-    const notionLevel = normalizeHeadingLevel(Math.min(level, options.maxHeadingLevel));
+    // Levels past maxHeadingLevel become bold paragraphs
+    if (level > options.maxHeadingLevel) {
+        return [buildParagraphBlock(typeof content === 'string'
+            ? [{ type: 'text', content, bold: true }]
+            : content.map(child => ({ ...child, bold: true })))];
+    }
 
-    return [buildHeadingBlock(
-        node.children ?? node.content ?? '',
-        notionLevel,
-    )];
+    // Silently normalize heading levels to Notion's supported range (H1-H3)
+    return [buildHeadingBlock(content, normalizeHeadingLevel(level))];
 }
 
 /**
@@ -223,6 +330,12 @@ function convertParagraph(
 ): NotionBlockData[] {
     const content = node.children ?? node.content ?? '';
 
+    // The link stays a link if the file turns out not to exist under the document's folder
+    const attachment = options.imageHandling === 'upload' ? getLocalAttachment(node) : undefined;
+    if (attachment !== undefined) {
+        return [buildLocalFileBlock(getFileBlockType(attachment.path), attachment.path, attachment.caption, buildParagraphBlock(content))];
+    }
+
     // Skip empty paragraphs unless explicitly preserving formatting
     if ((content === '' || content === null || content === undefined) && !options.preserveFormatting) {
         return [];
@@ -247,6 +360,25 @@ function convertParagraph(
     return [buildParagraphBlock(content)];
 }
 
+/**
+ * A paragraph that is nothing but a relative link to a file with an extension (not another markdown document)
+ * is an attachment candidate - the service checks that the file exists under the document's folder
+ */
+function getLocalAttachment(node: MarkdownNode): { path: string; caption?: string } | undefined {
+    const children = (node.children ?? []).filter(child => (child.content ?? '').trim() !== '' || child.link !== undefined);
+    const path = children[0]?.link?.url;
+    if (path === undefined || !isLocalFileReference(path) || path.startsWith('/') || path.startsWith('file:') ||
+        !/\.[a-z0-9]+$/i.test(path.split(/[?#]/)[0]) || /\.(md|markdown)([?#].*)?$/i.test(path) ||
+        !children.every(child => child.link?.url === path)) {
+        return undefined;
+    }
+
+    // The link text is kept as a caption unless it just repeats the file name
+    const label = children.map(child => child.content ?? '').join('').trim();
+    const fileName = decodeURIComponent(path.split(/[?#]/)[0].split('/').pop() ?? '');
+    return { path, caption: label !== fileName ? label : undefined };
+}
+
 /**
  * Convert list node
  */
@@ -274,6 +406,7 @@ function convertList(
                 unsupportedBlocks,
                 node.ordered === true ? 'numbered' : 'bulleted',
             );
+            applyBlockAttributes(childBlocks, child);
             blocks.push(...childBlocks);
         } else {
             warnings.push(`Non-list-item child in list: ${child.type}`);
@@ -332,7 +465,7 @@ function convertListItem(
                 return false;
             }
             // Include block-level children
-            return ['list', 'paragraph', 'code', 'quote'].includes(child.type);
+            return ['list', 'paragraph', 'code', 'quote', 'equation', 'toggle', 'callout', 'image'].includes(child.type);
         });
 
         if (blockChildren.length > 0) {
@@ -352,23 +485,38 @@ function convertListItem(
     }
 }
 
+/**
+ * Apply fidelity attributes from the markdown (see ConversionOptions.fidelity) to the block built for a node
+ */
+function applyBlockAttributes(blocks: NotionBlockData[], node: MarkdownNode): void {
+    const color = node.attributes?.color;
+    const data = blocks[0]?.[blocks[0].type] as Record<string, unknown> | undefined;
+    if (typeof color === 'string' && data !== undefined && 'color' in data) {
+        data.color = color;
+    }
+}
+
+/**
+ * Split a container node into its leading paragraph (the block's own text) and the nested blocks after it
+ */
+function splitLeadParagraph(node: MarkdownNode): { content: string | MarkdownNode[]; rest: MarkdownNode[] } {
+    const [first, ...rest] = node.children ?? [];
+    if (first?.type === 'paragraph') {
+        return { content: first.children ?? first.content ?? '', rest };
+    }
+    return { content: '', rest: node.children ?? [] };
+}
+
 /**
  * Convert code block node
  */
 function convertCodeBlock(
     node: MarkdownNode,
-    options: ConversionOptions,
-    errors: string[],
+    _options: ConversionOptions,
 ): NotionBlockData[] {
+    // Code over Notion's character limit is split into consecutive blocks by enforceNotionLimits
     const content = node.content ?? '';
 
-    // Validate code block length against Notion's limit
-    if (content.length > NOTION_CODE_BLOCK_MAX_CHARACTERS) {
-        const error = `Code block exceeds Notion's ${NOTION_CODE_BLOCK_MAX_CHARACTERS} character limit: ${content.length} characters found. Language: ${node.language ?? 'none'}`;
-        errors.push(error);
-        throw new Error(error);
-    }
-
     return [buildCodeBlock(
         content,
         node.language,
@@ -386,13 +534,9 @@ function convertQuote(
     errors: string[],
     unsupportedBlocks: string[],
 ): NotionBlockData[] {
-    const content = node.children ?? node.content ?? '';
-
-    // Convert nested children
-    let childBlocks: NotionBlockData[] = [];
-    if (node.children && Array.isArray(node.children)) {
-        childBlocks = convertNodeArray(node.children, options, warnings, errors, unsupportedBlocks);
-    }
+    // The first paragraph is the quote's own text, anything after it is nested
+    const { content, rest } = splitLeadParagraph(node);
+    const childBlocks = convertNodeArray(rest, options, warnings, errors, unsupportedBlocks);
 
     return [buildQuoteBlock(content, childBlocks)];
 }
@@ -469,16 +613,18 @@ function convertImage(
         imageUrl = `${options.imageBaseUrl.replace(/\/$/, '')}/${imageUrl.replace(/^\//, '')}`;
     }
 
+    const caption = options.preserveImageCaptions ? node.alt : undefined;
+
     // Handle image processing based on options
     switch (options.imageHandling) {
         case 'ignore':
             return [];
         case 'upload':
-            warnings.push('Image upload not implemented, using link');
-            return [buildImageBlock(imageUrl, node.alt)];
+            // Local images are uploaded by the service; remote ones stay linked
+            return [isLocalFileReference(imageUrl) ? buildLocalFileBlock('image', imageUrl, caption) : buildImageBlock(imageUrl, caption)];
         case 'link':
         default:
-            return [buildImageBlock(imageUrl, node.alt)];
+            return [buildImageBlock(imageUrl, caption)];
     }
 }
 
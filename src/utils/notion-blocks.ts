@@ -5,6 +5,7 @@
 
 import { NotionColor, NotionRichText } from '../types/notion.js';
 import { MarkdownNode } from '../types/markdown.js';
+import { getNotionPageUrl } from './notion-links.js';
 
 // Type for building blocks (without server-generated metadata)
 export interface NotionBlockData {
@@ -22,6 +23,7 @@ export function createRichText(
         bold?: boolean;
         italic?: boolean;
         strikethrough?: boolean;
+        underline?: boolean;
         code?: boolean;
         color?: NotionColor;
         link?: { url: string };
@@ -41,7 +43,7 @@ export function createRichText(
             bold: formatting?.bold ?? false,
             italic: formatting?.italic ?? false,
             strikethrough: formatting?.strikethrough ?? false,
-            underline: false,
+            underline: formatting?.underline ?? false,
             code: formatting?.code ?? false,
             color: formatting?.color ?? 'default',
         },
@@ -52,11 +54,60 @@ export function createRichText(
     return [richText];
 }
 
+/**
+ * Create an inline equation rich text item
+ */
+function createEquationRichText(
+    expression: string,
+    formatting: { bold?: boolean; italic?: boolean; strikethrough?: boolean; underline?: boolean; color?: NotionColor },
+): NotionRichText {
+    return {
+        type: 'equation',
+        equation: { expression },
+        annotations: {
+            bold: formatting.bold ?? false,
+            italic: formatting.italic ?? false,
+            strikethrough: formatting.strikethrough ?? false,
+            underline: formatting.underline ?? false,
+            code: false,
+            color: formatting.color ?? 'default',
+        },
+        plain_text: expression,
+        href: null,
+    };
+}
+
+/**
+ * Create a page mention rich text item; text is what the link said, Notion shows the page title
+ */
+function createPageMentionRichText(
+    pageId: string,
+    text: string,
+    formatting: { bold?: boolean; italic?: boolean; strikethrough?: boolean; underline?: boolean; code?: boolean; color?: NotionColor },
+): NotionRichText {
+    return {
+        type: 'mention',
+        mention: { type: 'page', page: { id: pageId } },
+        annotations: {
+            bold: formatting.bold ?? false,
+            italic: formatting.italic ?? false,
+            strikethrough: formatting.strikethrough ?? false,
+            underline: formatting.underline ?? false,
+            code: formatting.code ?? false,
+            color: formatting.color ?? 'default',
+        },
+        plain_text: text,
+        href: getNotionPageUrl(pageId),
+    };
+}
+
 /**
  * Create rich text from markdown nodes with formatting
+ * Adjacent nodes with identical formatting are merged into one segment
  */
 export function createRichTextFromNodes(nodes: MarkdownNode[]): NotionRichText[] {
     const richTextArray: NotionRichText[] = [];
+    let previousKey: string | undefined;
 
     for (const node of nodes) {
         if (node.type === 'text' && node.content !== null && node.content !== undefined && node.content.length > 0) {
@@ -64,11 +115,42 @@ export function createRichTextFromNodes(nodes: MarkdownNode[]): NotionRichText[]
                 bold: node.bold,
                 italic: node.italic,
                 strikethrough: node.strikethrough,
+                underline: node.underline,
                 code: node.code,
-                link: node.link,
+                color: node.color as NotionColor | undefined,
+                // Notion links only take a URL
+                link: node.link ? { url: node.link.url } : undefined,
             };
 
+            // Inline math becomes an equation item, never merged with text
+            if (node.equation === true) {
+                richTextArray.push(createEquationRichText(node.content, formatting));
+                previousKey = undefined;
+                continue;
+            }
+
+            // Links to pages become one page mention, which Notion renders with the page title
+            if (node.link?.pageId !== undefined) {
+                const previous = richTextArray[richTextArray.length - 1];
+                if (previous?.mention?.page?.id === node.link.pageId) {
+                    previous.plain_text += node.content;
+                } else {
+                    richTextArray.push(createPageMentionRichText(node.link.pageId, node.content, formatting));
+                }
+                previousKey = undefined;
+                continue;
+            }
+
+            const key = JSON.stringify(formatting);
+            const previous = richTextArray[richTextArray.length - 1];
+            if (key === previousKey && previous?.text !== undefined) {
+                previous.text.content += node.content;
+                previous.plain_text += node.content;
+                continue;
+            }
+
             richTextArray.push(...createRichText(node.content, formatting));
+            previousKey = key;
         }
     }
 
@@ -299,6 +381,19 @@ export function buildToggleBlock(
     };
 }
 
+/**
+ * Build an equation block (display math, KaTeX syntax)
+ */
+export function buildEquationBlock(expression: string): NotionBlockData {
+    return {
+        object: 'block',
+        type: 'equation',
+        equation: {
+            expression,
+        },
+    };
+}
+
 /**
  * Build a table block
  * Note: Notion tables require table_row blocks as children within the table block
@@ -418,6 +513,57 @@ export function buildImageBlock(
     };
 }
 
+// Block types that hold a file
+export type NotionFileBlockType = 'image' | 'file' | 'pdf' | 'video' | 'audio';
+
+// File block type per extension of a local attachment (anything else is a plain file block)
+const FILE_BLOCK_TYPES: Record<string, NotionFileBlockType> = {
+    png: 'image', jpg: 'image', jpeg: 'image', gif: 'image', webp: 'image', svg: 'image', heic: 'image',
+    pdf: 'pdf',
+    mp4: 'video', mov: 'video', webm: 'video',
+    mp3: 'audio', wav: 'audio', m4a: 'audio', ogg: 'audio',
+};
+
+/**
+ * Whether a markdown URL refers to a file on disk (a relative or absolute path, or a file: URL)
+ */
+export function isLocalFileReference(url: string): boolean {
+    if (url === '' || url.startsWith('#') || url.startsWith('//')) {
+        return false;
+    }
+    return url.startsWith('file:') || !/^[a-z][a-z0-9+.-]*:/i.test(url);
+}
+
+/**
+ * File block type for a local attachment, by extension
+ */
+export function getFileBlockType(path: string): NotionFileBlockType {
+    const extension = path.split(/[?#]/)[0].split('.').pop()?.toLowerCase() ?? '';
+    return FILE_BLOCK_TYPES[extension] ?? 'file';
+}
+
+/**
+ * Build a block for a local file referenced from markdown
+ * The `local_file` source is a placeholder: the service uploads the file and swaps in a file_upload reference before sending.
+ * fallback is sent instead when the file can't be used, e.g. the paragraph a link to a missing file came from.
+ */
+export function buildLocalFileBlock(
+    type: NotionFileBlockType,
+    path: string,
+    caption?: string,
+    fallback?: NotionBlockData,
+): NotionBlockData {
+    return {
+        object: 'block',
+        type,
+        [type]: {
+            type: 'local_file',
+            local_file: fallback !== undefined ? { path, fallback } : { path },
+            caption: caption !== undefined && caption !== '' ? createRichText(caption) : [],
+        },
+    };
+}
+
 /**
  * Build an embed block
  */
@@ -494,3 +640,50 @@ export function buildFallbackBlock(
 
     return buildParagraphBlock(fallbackContent, { color: 'gray' });
 }
+
+// CSS values of Notion's text and background colors, for exporting colors as inline styles
+const NOTION_COLOR_VALUES: Partial<Record<NotionColor, string>> = {
+    gray: '#9B9A97',
+    brown: '#64473A',
+    orange: '#D9730D',
+    yellow: '#DFAB01',
+    green: '#0F7B6C',
+    blue: '#0B6E99',
+    purple: '#6940A5',
+    pink: '#AD1A72',
+    red: '#E03E3E',
+    gray_background: '#EBECED',
+    brown_background: '#E9E5E3',
+    orange_background: '#FAEBDD',
+    yellow_background: '#FBF3DB',
+    green_background: '#DDEDEA',
+    blue_background: '#DDEBF1',
+    purple_background: '#EAE4F2',
+    pink_background: '#F4DFEB',
+    red_background: '#FBE4E4',
+};
+
+/**
+ * Inline CSS for a Notion color, e.g. `color: #E03E3E` or `background-color: #FBE4E4`
+ */
+export function getColorStyle(color: NotionColor): string | undefined {
+    const value = NOTION_COLOR_VALUES[color];
+    if (value === undefined) {
+        return undefined;
+    }
+    return color.endsWith('_background') ? `background-color: ${value}` : `color: ${value}`;
+}
+
+/**
+ * Notion color for an inline style written by getColorStyle (unknown values are ignored)
+ */
+export function getColorFromStyle(style: string): NotionColor | undefined {
+    const match = /^\s*(background-color|color)\s*:\s*(#[0-9a-f]{6})\s*;?\s*$/i.exec(style);
+    if (match === null) {
+        return undefined;
+    }
+    const background = match[1].toLowerCase() === 'background-color';
+    const entry = Object.entries(NOTION_COLOR_VALUES).find(([color, value]) =>
+        color.endsWith('_background') === background && value.toLowerCase() === match[2].toLowerCase());
+    return entry?.[0] as NotionColor | undefined;
+}
@@ -0,0 +1,266 @@
+/**
+ * Notion API payload limits
+ * Splits converted blocks so they are accepted by the API instead of failing the whole request
+ */
+
+import { NotionRichText } from '../types/notion.js';
+import { NotionBlockData, createRichText } from './notion-blocks.js';
+
+// Characters per rich-text item (text.content)
+export const NOTION_RICH_TEXT_MAX_CHARACTERS = 2000;
+
+// Items per rich-text array
+export const NOTION_RICH_TEXT_MAX_ITEMS = 100;
+
+// Blocks per children array in one request
+export const NOTION_MAX_CHILDREN_PER_REQUEST = 100;
+
+// Levels of nested children accepted in one append request
+export const NOTION_MAX_NESTING_DEPTH = 2;
+
+// Children held back from an append request, to be appended once their parent exists
+export interface DeferredAppend {
+    // Index path of the parent within the request payload, e.g. [3, 0] = first child of the fourth block
+    path: number[];
+    children: NotionBlockData[];
+}
+
+// Block types whose rich text can continue in a following block of the same type
+const CONTINUABLE_TYPES = new Set([
+    'paragraph', 'heading_1', 'heading_2', 'heading_3', 'bulleted_list_item', 'numbered_list_item', 'to_do', 'quote', 'callout', 'toggle',
+]);
+
+/**
+ * Split text into pieces of at most maxLength, preferring line breaks, then spaces
+ */
+export function splitText(text: string, maxLength = NOTION_RICH_TEXT_MAX_CHARACTERS): string[] {
+    const pieces: string[] = [];
+    let remaining = text;
+
+    while (remaining.length > maxLength) {
+        const window = remaining.substring(0, maxLength);
+        let cut = window.lastIndexOf('\n') + 1;
+        if (cut < maxLength / 2) {
+            cut = window.lastIndexOf(' ') + 1;
+        }
+        if (cut < maxLength / 2) {
+            cut = maxLength;
+            // Don't cut a surrogate pair in half
+            const code = remaining.charCodeAt(cut - 1);
+            if (code >= 0xd800 && code <= 0xdbff) {
+                cut--;
+            }
+        }
+        pieces.push(remaining.substring(0, cut));
+        remaining = remaining.substring(cut);
+    }
+    pieces.push(remaining);
+
+    return pieces;
+}
+
+/**
+ * Split code into chunks of at most maxLength on line boundaries
+ * A single line longer than the limit is cut with splitText
+ */
+export function splitCode(code: string, maxLength = NOTION_RICH_TEXT_MAX_CHARACTERS): string[] {
+    const chunks: string[] = [];
+    let current = '';
+
+    for (const line of code.split('\n')) {
+        const candidate = current === '' ? line : `${current}\n${line}`;
+        if (candidate.length <= maxLength) {
+            current = candidate;
+            continue;
+        }
+
+        if (current !== '') {
+            chunks.push(current);
+        }
+        if (line.length <= maxLength) {
+            current = line;
+        } else {
+            const pieces = splitText(line, maxLength);
+            chunks.push(...pieces.slice(0, -1));
+            current = pieces[pieces.length - 1];
+        }
+    }
+    chunks.push(current);
+
+    return chunks;
+}
+
+/**
+ * Split rich-text items whose content is over the character limit into consecutive items with the same formatting
+ */
+function splitRichTextItems(richText: NotionRichText[]): { richText: NotionRichText[]; split: boolean } {
+    let split = false;
+    const result = richText.flatMap(item => {
+        if (item.text === undefined || item.text.content.length <= NOTION_RICH_TEXT_MAX_CHARACTERS) {
+            return [item];
+        }
+        split = true;
+        return splitText(item.text.content).map(content => ({
+            ...item,
+            text: { ...item.text!, content },
+            plain_text: content,
+        }));
+    });
+    return { richText: result, split };
+}
+
+/**
+ * Fit a rich-text array that can't continue in another block (captions, table cells):
+ * items beyond the limit are folded into the last allowed item as plain text
+ */
+function foldRichText(richText: NotionRichText[]): NotionRichText[] {
+    if (richText.length <= NOTION_RICH_TEXT_MAX_ITEMS) {
+        return richText;
+    }
+    const overflow = richText.slice(NOTION_RICH_TEXT_MAX_ITEMS - 1).map(item => item.plain_text).join('');
+    return [
+        ...richText.slice(0, NOTION_RICH_TEXT_MAX_ITEMS - 1),
+        ...splitRichTextItems(createRichText(overflow)).richText,
+    ].slice(0, NOTION_RICH_TEXT_MAX_ITEMS);
+}
+
+function describeBlock(block: NotionBlockData): string {
+    const data = block[block.type] as { rich_text?: NotionRichText[] } | undefined;
+    const text = (data?.rich_text ?? []).map(item => item.plain_text).join('').replace(/\s+/g, ' ').trim();
+    return text === '' ? block.type : `${block.type} "${text.length > 40 ? `${text.substring(0, 40)}...` : text}"`;
+}
+
+/**
+ * Split a code block whose content is over the limit into consecutive code blocks with the same language
+ */
+function splitCodeBlock(block: NotionBlockData, warnings: string[]): NotionBlockData[] {
+    const data = block.code as { rich_text: NotionRichText[]; caption?: NotionRichText[]; language?: string };
+    const code = data.rich_text.map(item => item.plain_text).join('');
+    if (code.length <= NOTION_RICH_TEXT_MAX_CHARACTERS) {
+        return [block];
+    }
+
+    const chunks = splitCode(code);
+    warnings.push(`Split ${data.language ?? 'plain text'} code block (${code.length} characters) into ${chunks.length} blocks to fit Notion's ${NOTION_RICH_TEXT_MAX_CHARACTERS} character limit`);
+
+    // The caption describes the whole snippet, so it stays with the last part
+    return chunks.map((chunk, index) => ({
+        ...block,
+        code: {
+            ...data,
+            rich_text: createRichText(chunk),
+            caption: index === chunks.length - 1 ? data.caption ?? [] : [],
+        },
+    }));
+}
+
+function enforceBlockLimits(block: NotionBlockData, warnings: string[]): NotionBlockData[] {
+    if (block.type === 'code') {
+        return splitCodeBlock(block, warnings);
+    }
+
+    const data = { ...(block[block.type] as Record<string, unknown> | undefined) };
+    const fitted: NotionBlockData = { ...block, [block.type]: data };
+
+    if (Array.isArray(data.children) && data.children.length > 0) {
+        data.children = enforceNotionLimits(data.children as NotionBlockData[], warnings);
+    }
+
+    if (Array.isArray(data.caption)) {
+        data.caption = foldRichText(splitRichTextItems(data.caption as NotionRichText[]).richText);
+    }
+
+    if (block.type === 'table_row' && Array.isArray(data.cells)) {
+        data.cells = (data.cells as NotionRichText[][]).map(cell => {
+            const { richText, split } = splitRichTextItems(cell);
+            if (split) {
+                warnings.push(`Split a table cell over ${NOTION_RICH_TEXT_MAX_CHARACTERS} characters into multiple rich-text items`);
+            }
+            return foldRichText(richText);
+        });
+    }
+
+    if (!Array.isArray(data.rich_text)) {
+        return [fitted];
+    }
+
+    const { richText, split } = splitRichTextItems(data.rich_text as NotionRichText[]);
+    if (split) {
+        warnings.push(`Split text over ${NOTION_RICH_TEXT_MAX_CHARACTERS} characters in ${describeBlock(block)} into multiple rich-text items`);
+    }
+    data.rich_text = richText;
+
+    if (richText.length <= NOTION_RICH_TEXT_MAX_ITEMS) {
+        return [fitted];
+    }
+
+    if (!CONTINUABLE_TYPES.has(block.type)) {
+        data.rich_text = foldRichText(richText);
+        warnings.push(`Folded formatting of ${describeBlock(block)} to fit Notion's ${NOTION_RICH_TEXT_MAX_ITEMS} rich-text item limit`);
+        return [fitted];
+    }
+
+    // Continue the text in further blocks of the same type; nested children follow the last part
+    const parts: NotionBlockData[] = [];
+    for (let i = 0; i < richText.length; i += NOTION_RICH_TEXT_MAX_ITEMS) {
+        const isLast = i + NOTION_RICH_TEXT_MAX_ITEMS >= richText.length;
+        const { children, ...partData } = data;
+        parts.push({
+            ...block,
+            [block.type]: {
+                ...partData,
+                rich_text: richText.slice(i, i + NOTION_RICH_TEXT_MAX_ITEMS),
+                ...(isLast && children !== undefined ? { children } : {}),
+            },
+        });
+    }
+    warnings.push(`Split ${describeBlock(block)} (${richText.length} rich-text items) into ${parts.length} blocks to fit Notion's ${NOTION_RICH_TEXT_MAX_ITEMS} item limit`);
+
+    return parts;
+}
+
+/**
+ * Trim one append request's blocks to what Notion accepts: children below the nesting limit,
+ * and nested children beyond the first 100, are cut out and returned as deferred appends
+ */
+export function splitAppendPayload(
+    blocks: NotionBlockData[],
+    depth = 0,
+    path: number[] = [],
+): { blocks: NotionBlockData[]; deferred: DeferredAppend[] } {
+    const deferred: DeferredAppend[] = [];
+
+    const trimmed = blocks.map((block, index) => {
+        const data = block[block.type] as { children?: NotionBlockData[] } | undefined;
+        const children = data?.children;
+        if (data === undefined || !Array.isArray(children) || children.length === 0) {
+            return block;
+        }
+
+        const blockPath = [...path, index];
+        if (depth >= NOTION_MAX_NESTING_DEPTH) {
+            deferred.push({ path: blockPath, children });
+            const { children: _children, ...rest } = data;
+            return { ...block, [block.type]: rest };
+        }
+
+        // Nested arrays over the limit: the overflow is appended after the parent's first 100 children
+        const inline = splitAppendPayload(children.slice(0, NOTION_MAX_CHILDREN_PER_REQUEST), depth + 1, blockPath);
+        deferred.push(...inline.deferred);
+        if (children.length > NOTION_MAX_CHILDREN_PER_REQUEST) {
+            deferred.push({ path: blockPath, children: children.slice(NOTION_MAX_CHILDREN_PER_REQUEST) });
+        }
+
+        return { ...block, [block.type]: { ...data, children: inline.blocks } };
+    });
+
+    return { blocks: trimmed, deferred };
+}
+
+/**
+ * Split blocks so every rich-text item, rich-text array and code block fits Notion's limits
+ * Each split is reported in warnings
+ */
+export function enforceNotionLimits(blocks: NotionBlockData[], warnings: string[]): NotionBlockData[] {
+    return blocks.flatMap(block => enforceBlockLimits(block, warnings));
+}
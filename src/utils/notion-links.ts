@@ -0,0 +1,140 @@
+/**
+ * Links between Notion pages in converted markdown
+ * Internal links are written as `${linkBaseUrl}/<page id>` and read back as notion.so links,
+ * or - with a PageLinkResolver - as relative links to the pages' local markdown files
+ */
+
+import { dirname, relative, resolve, sep } from 'path';
+import { fileURLToPath } from 'url';
+
+const NOTION_HOST_PATTERN = /^https?:\/\/([\w-]+\.)?notion\.(so|site)\//i;
+
+// Page IDs are 32 hex digits, with or without the dashes of the UUID form
+const PAGE_ID_PATTERN = /([0-9a-f]{8})-?([0-9a-f]{4})-?([0-9a-f]{4})-?([0-9a-f]{4})-?([0-9a-f]{12})$/i;
+
+/**
+ * Whether a URL points into Notion
+ */
+export function isNotionUrl(url: string): boolean {
+    return NOTION_HOST_PATTERN.test(url);
+}
+
+/**
+ * The page ID of a Notion URL (dashes removed), e.g. https://www.notion.so/Setup-1f2e...c3d4 -> 1f2e...c3d4
+ */
+export function getNotionPageId(url: string): string | undefined {
+    if (!isNotionUrl(url)) {
+        return undefined;
+    }
+    const path = url.replace(NOTION_HOST_PATTERN, '').split(/[?#]/)[0];
+    const match = PAGE_ID_PATTERN.exec(path);
+    return match !== null ? normalizePageId(match.slice(1).join('')) : undefined;
+}
+
+/**
+ * Canonical notion.so URL of a page
+ */
+export function getNotionPageUrl(pageId: string): string {
+    return `https://www.notion.so/${normalizePageId(pageId)}`;
+}
+
+/**
+ * Internal link to a page under a base URL, e.g. https://docs.example.com/pages/<id>
+ */
+export function toInternalLink(pageId: string, linkBaseUrl: string): string {
+    return `${linkBaseUrl.replace(/\/$/, '')}/${pageId.replace(/-/g, '')}`;
+}
+
+/**
+ * The notion.so URL an internal link written by toInternalLink points to (undefined for any other URL)
+ */
+export function fromInternalLink(url: string, linkBaseUrl: string): string | undefined {
+    const prefix = `${linkBaseUrl.replace(/\/$/, '')}/`;
+    if (!url.startsWith(prefix)) {
+        return undefined;
+    }
+    const match = /^([0-9a-f]{32}|[0-9a-f]{8}(-[0-9a-f]{4}){3}-[0-9a-f]{12})$/i.exec(url.substring(prefix.length).split(/[?#]/)[0]);
+    return match !== null ? getNotionPageUrl(match[1]) : undefined;
+}
+
+export interface UnresolvedLink {
+    // The link as found: a notion.so URL on export, the markdown href on import
+    link: string;
+    reason: string;
+}
+
+/**
+ * Resolves links between Notion pages and local markdown files for one document:
+ * page links become relative file links on export, relative .md links become page mentions on import.
+ * Links that can't be resolved are collected in unresolved.
+ */
+export class PageLinkResolver {
+    readonly unresolved: UnresolvedLink[] = [];
+
+    private readonly directory: string;
+    private readonly pagePaths: Map<string, string>;
+    private readonly pathPages: Map<string, string>;
+
+    /**
+     * @param documentPath - The markdown file being exported or imported
+     * @param pages - Local file of each known page, by page ID
+     */
+    constructor(documentPath: string, pages: Record<string, string>) {
+        this.directory = dirname(resolve(documentPath));
+        this.pagePaths = new Map(Object.entries(pages).map(([pageId, path]) => [normalizePageId(pageId), resolve(path)]));
+        this.pathPages = new Map([...this.pagePaths].map(([pageId, path]) => [path, pageId]));
+    }
+
+    /**
+     * Relative link from the document to a page's local file (undefined when the page has none)
+     */
+    toLocalLink(pageId: string): string | undefined {
+        const path = this.pagePaths.get(normalizePageId(pageId));
+        if (path === undefined) {
+            this.addUnresolved(getNotionPageUrl(pageId), 'no local file for this page');
+            return undefined;
+        }
+        return relative(this.directory, path).split(sep).map(encodeURIComponent).join('/');
+    }
+
+    /**
+     * Page ID behind a relative link to a local markdown file (undefined for other links, or unknown files)
+     */
+    toPageId(url: string): string | undefined {
+        if (!isLocalMarkdownLink(url)) {
+            return undefined;
+        }
+
+        const target = url.startsWith('file:')
+            ? fileURLToPath(url.split('#')[0])
+            : resolve(this.directory, decodeURIComponent(url.split(/[?#]/)[0]));
+        const pageId = this.pathPages.get(target);
+        if (pageId === undefined) {
+            this.addUnresolved(url, `no Notion page for ${target}`);
+        }
+        return pageId;
+    }
+
+    private addUnresolved(link: string, reason: string): void {
+        if (!this.unresolved.some(entry => entry.link === link)) {
+            this.unresolved.push({ link, reason });
+        }
+    }
+}
+
+/**
+ * Whether a link points to a local markdown file (relative path or file: URL, optionally with an anchor)
+ */
+export function isLocalMarkdownLink(url: string): boolean {
+    if (url === '' || url.startsWith('#') || url.startsWith('//') || (/^[a-z][a-z0-9+.-]*:/i.test(url) && !url.startsWith('file:'))) {
+        return false;
+    }
+    return /\.(md|markdown)$/i.test(url.split(/[?#]/)[0]);
+}
+
+/**
+ * Page ID without dashes, lowercase - the form page IDs are compared in
+ */
+export function normalizePageId(pageId: string): string {
+    return pageId.replace(/-/g, '').toLowerCase();
+}
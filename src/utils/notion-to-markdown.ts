@@ -2,9 +2,19 @@
  * Notion to Markdown conversion engine
  */
 
-import { NotionBlock, NotionColor, NotionRichText } from '../types/notion.js';
+import { EOL } from 'os';
+import { NotionBlock, NotionRichText } from '../types/notion.js';
 import { ConversionMetadata, ConversionOptions, ConversionResult, ConversionStatistics, DEFAULT_CONVERSION_OPTIONS } from '../types/markdown.js';
-import { NotionBlockData } from './notion-blocks.js';
+import { NotionBlockData, getColorStyle } from './notion-blocks.js';
+import { getNotionPageId, getNotionPageUrl, isNotionUrl, toInternalLink } from './notion-links.js';
+
+// Converted markdown of one block; the block type decides the spacing around it
+type BlockMarkdown = { type: string; markdown: string };
+
+const LIST_TYPES = new Set(['bulleted_list_item', 'numbered_list_item', 'to_do']);
+
+// Blocks whose color is written as a trailing fidelity marker
+const MARKED_TYPES = new Set([...LIST_TYPES, 'paragraph', 'heading_1', 'heading_2', 'heading_3']);
 
 /**
  * Convert Notion blocks to Markdown
@@ -36,10 +46,14 @@ export function notionBlocksToMarkdown(
             markdownLines.push('');
         }
 
+        // Table of contents blocks render the page's headings
+        const tableOfContents = buildTableOfContents(blocks, config);
+
         // Process blocks with proper list tracking
         let numberedListCounter = 0;
         let lastBlockType = '';
         const processedBlockIds = new Set<string>(); // Track blocks already processed by parents
+        const blockMarkdown: BlockMarkdown[] = [];
 
         for (let i = 0; i < blocks.length; i++) {
             const block = blocks[i];
@@ -61,27 +75,9 @@ export function notionBlocksToMarkdown(
                     numberedListCounter = 0; // Reset for non-list items
                 }
 
-                const markdown = convertNotionBlock(block, config, warnings, errors, unsupportedBlocks, numberedListCounter, 0, processedBlockIds);
+                const markdown = convertNotionBlock(block, config, warnings, errors, unsupportedBlocks, numberedListCounter, 0, processedBlockIds, tableOfContents);
                 if (markdown !== null) {
-                    markdownLines.push(markdown);
-
-                    // Add spacing based on block type and what follows
-                    const nextBlock = blocks[i + 1];
-                    if (nextBlock !== null) {
-                        // Always add blank line after numbered list items
-                        if (block.type === 'numbered_list_item') {
-                            markdownLines.push('');
-                        }
-                        // Add blank line after headings
-                        else if (block.type.startsWith('heading_')) {
-                            markdownLines.push('');
-                        }
-                        // Add blank line before headings (except after another heading)
-                        else if (nextBlock.type.startsWith('heading_') && !block.type.startsWith('heading_')) {
-                            markdownLines.push('');
-                        }
-                    }
-
+                    blockMarkdown.push({ type: block.type, markdown });
                     convertedBlocks++;
                 } else {
                     skippedBlocks++;
@@ -93,14 +89,16 @@ export function notionBlocksToMarkdown(
                 errorBlocks++;
 
                 if (config.handleUnsupportedBlocks === 'convert') {
-                    markdownLines.push(`<!-- Error converting ${block.type} block -->`);
+                    blockMarkdown.push({ type: block.type, markdown: `<!-- Error converting ${block.type} block -->` });
                 } else if (config.handleUnsupportedBlocks === 'error') {
                     throw new Error(`Failed to convert ${block.type}: ${error instanceof Error ? error.message : String(error)}`);
                 }
             }
         }
 
-        const markdown = markdownLines.join(config.lineBreaks === 'crlf' ? '\r\n' : '\n');
+        markdownLines.push(joinBlockMarkdown(blockMarkdown));
+        const lineBreak = config.lineBreaks === 'crlf' ? '\r\n' : config.lineBreaks === 'auto' ? EOL : '\n';
+        const markdown = markdownLines.join('\n').replace(/\n/g, lineBreak);
         const processingTime = Date.now() - startTime;
 
         const metadata: ConversionMetadata = {
@@ -170,9 +168,15 @@ function convertNotionBlock(
     numberedListCounter = 0,
     indentLevel = 0,
     processedBlockIds?: Set<string>,
+    tableOfContents = '',
 ): string | null {
     let result = '';
 
+    const childBlocks = Array.isArray(block.children) ? block.children as (NotionBlock | NotionBlockData)[] : [];
+    const convertChildren = (): BlockMarkdown[] => convertChildBlocks(
+        childBlocks, options, warnings, errors, unsupportedBlocks, 0, processedBlockIds, tableOfContents,
+    );
+
     switch (block.type) {
         case 'paragraph':
             result = convertParagraph(block as { paragraph?: { rich_text?: NotionRichText[] } }, options);
@@ -180,9 +184,23 @@ function convertNotionBlock(
 
         case 'heading_1':
         case 'heading_2':
-        case 'heading_3':
+        case 'heading_3': {
+            const heading = block[block.type] as { rich_text?: NotionRichText[]; is_toggleable?: boolean; color?: string } | undefined;
+            if (options.fidelity && heading?.is_toggleable === true && options.convertToggles) {
+                // Toggleable headings become toggles that remember the heading level
+                const level = String(getHeadingLevel(block.type));
+                return convertToggle(heading, { heading: level, color: getMarkedColor(heading) }, convertChildren(), options);
+            }
+            if (getHeadingLevel(block.type) > options.maxHeadingLevel) {
+                // Levels past maxHeadingLevel become bold paragraphs
+                const text = convertRichTextToMarkdown(heading?.rich_text ?? [], options);
+                const marker = options.emphasisMarker === '*' ? '**' : '__';
+                result = text !== '' ? `${marker}${text}${marker}` : '';
+                break;
+            }
             result = convertHeading(block as { type: string; [key: string]: { rich_text?: NotionRichText[] } | string }, options);
             break;
+        }
 
         case 'bulleted_list_item':
             result = convertBulletedListItem(block as { bulleted_list_item?: { rich_text?: NotionRichText[] } }, options, indentLevel);
@@ -200,24 +218,35 @@ function convertNotionBlock(
             result = convertCodeBlock(block as { code?: { rich_text?: NotionRichText[]; language?: string } }, options);
             break;
 
-        case 'quote':
-            result = convertQuote(block as { quote?: { rich_text?: NotionRichText[] } }, options);
-            break;
+        case 'quote': {
+            const quote = block.quote as { rich_text?: NotionRichText[]; color?: string } | undefined;
+            const marker = options.fidelity ? formatMarker({ color: getMarkedColor(quote) }) : '';
+            return convertQuote(`${convertRichTextToMarkdown(quote?.rich_text ?? [], options)}${marker}`, convertChildren());
+        }
 
         case 'divider':
             result = convertDivider();
             break;
 
         case 'callout':
-            result = convertCallout(block as { callout?: { rich_text?: NotionRichText[]; icon?: { emoji?: string } } }, options, warnings);
-            break;
-
-        case 'toggle':
-            result = convertToggle(block as { toggle?: { rich_text?: NotionRichText[] } }, options, warnings);
-            break;
+            if (!options.convertCallouts) {
+                warnings.push('Callout block skipped (convertCallouts disabled)');
+                break;
+            }
+            return convertCallout(block as { callout?: NotionCalloutData }, convertChildren(), options);
+
+        case 'toggle': {
+            const toggle = block.toggle as { rich_text?: NotionRichText[]; color?: string } | undefined;
+            if (!options.convertToggles) {
+                warnings.push('Toggle block converted to paragraph (convertToggles disabled)');
+                result = convertRichTextToMarkdown(toggle?.rich_text ?? [], options);
+                break;
+            }
+            return convertToggle(toggle, { color: options.fidelity ? getMarkedColor(toggle) : undefined }, convertChildren(), options);
+        }
 
         case 'image':
-            result = convertImage(block as { image?: { external?: { url?: string }; file?: { url?: string }; caption?: NotionRichText[] } }, options, warnings);
+            result = convertImage(block as { image?: NotionFileData }, options, warnings);
             break;
 
         case 'table':
@@ -238,6 +267,53 @@ function convertNotionBlock(
             result = convertBookmark(block as { bookmark?: { url?: string; caption?: NotionRichText[] } }, options);
             break;
 
+        case 'link_preview':
+            result = (block.link_preview as { url?: string } | undefined)?.url ?? '';
+            break;
+
+        case 'equation':
+            result = convertEquation(block as { equation?: { expression?: string } });
+            break;
+
+        case 'file':
+        case 'pdf':
+        case 'video':
+        case 'audio':
+            result = convertFileBlock(block as { type: string; [key: string]: unknown }, options, warnings);
+            break;
+
+        case 'child_page':
+        case 'child_database':
+            result = convertChildPage(block as { type: string; [key: string]: unknown });
+            break;
+
+        case 'link_to_page':
+            result = convertLinkToPage(block as { link_to_page?: { type?: string; page_id?: string; database_id?: string; title?: string } }, options);
+            break;
+
+        case 'table_of_contents':
+            result = tableOfContents;
+            break;
+
+        case 'breadcrumb':
+            // Navigation only - the page path has no place in the document itself
+            return null;
+
+        case 'column_list':
+        case 'column':
+        case 'synced_block': {
+            // Layout containers are flattened: their content is rendered in place, at the same level
+            if (block.type === 'synced_block' && childBlocks.length === 0) {
+                const original = (block.synced_block as { synced_from?: { block_id?: string } | null } | undefined)?.synced_from?.block_id;
+                if (original !== undefined) {
+                    warnings.push(`Synced block ${original} could not be resolved`);
+                    return `<!-- Synced block ${original} is not shared with this integration -->`;
+                }
+            }
+            const childrenMarkdown = convertChildBlocks(childBlocks, options, warnings, errors, unsupportedBlocks, indentLevel, processedBlockIds, tableOfContents);
+            return childrenMarkdown.length > 0 ? joinBlockMarkdown(childrenMarkdown) : null;
+        }
+
         default:
             unsupportedBlocks.push(block.type);
             warnings.push(`Unsupported block type: ${block.type}`);
@@ -251,48 +327,135 @@ function convertNotionBlock(
             }
     }
 
+    // Notion-only attributes ride along as a trailing comment on the block's own line
+    if (options.fidelity && MARKED_TYPES.has(block.type) && result !== '') {
+        const data = block[block.type] as { rich_text?: NotionRichText[]; color?: string } | undefined;
+        if ((data?.rich_text ?? []).some(text => (text.plain_text ?? '') !== '')) {
+            result += formatMarker({ color: getMarkedColor(data) });
+        }
+    }
+
     // Handle nested children if they exist
-    const children = block.children as (NotionBlock | NotionBlockData)[] | undefined;
-    if (children && Array.isArray(children) && children.length > 0) {
-        const childrenMarkdown: string[] = [];
-        let childNumberedCounter = 0;
-        let lastChildType = '';
-
-        for (const child of children) {
-            // Track numbered list continuity for children
-            if (child.type === 'numbered_list_item') {
-                if (lastChildType !== 'numbered_list_item') {
-                    childNumberedCounter = 1; // Start new list
-                } else {
-                    childNumberedCounter++; // Continue existing list
-                }
+    if (childBlocks.length > 0) {
+        const childrenMarkdown = convertChildren();
+        if (childrenMarkdown.length > 0) {
+            const nested = joinBlockMarkdown(childrenMarkdown);
+            if (LIST_TYPES.has(block.type)) {
+                // Content nested under a list item is indented; a blank line keeps paragraphs from joining the item's text
+                const markerWidth = block.type === 'numbered_list_item' ? `${numberedListCounter}. `.length : 2;
+                const indent = ' '.repeat(Math.max(options.indentSize, markerWidth));
+                result += `${LIST_TYPES.has(childrenMarkdown[0].type) ? '\n' : '\n\n'}${indentLines(nested, indent)}`;
             } else {
-                childNumberedCounter = 0; // Reset for non-list items
+                // Markdown can't nest under other blocks, so their children follow them
+                result = result !== '' ? `${result}\n\n${nested}` : nested;
             }
+        }
+    }
 
-            const childMarkdown = convertNotionBlock(
-                child,
-                options,
-                warnings,
-                errors,
-                unsupportedBlocks,
-                childNumberedCounter,
-                indentLevel + 1,
-                processedBlockIds,
-            );
-            if (childMarkdown !== null) {
-                childrenMarkdown.push(childMarkdown);
-            }
+    return result || null;
+}
 
-            lastChildType = child.type;
+/**
+ * Convert a list of child blocks, keeping numbered list continuity
+ */
+function convertChildBlocks(
+    children: (NotionBlock | NotionBlockData)[],
+    options: ConversionOptions,
+    warnings: string[],
+    errors: string[],
+    unsupportedBlocks: string[],
+    indentLevel: number,
+    processedBlockIds?: Set<string>,
+    tableOfContents = '',
+): BlockMarkdown[] {
+    const childrenMarkdown: BlockMarkdown[] = [];
+    let childNumberedCounter = 0;
+    let lastChildType = '';
+
+    for (const child of children) {
+        // Track numbered list continuity for children
+        if (child.type === 'numbered_list_item') {
+            if (lastChildType !== 'numbered_list_item') {
+                childNumberedCounter = 1; // Start new list
+            } else {
+                childNumberedCounter++; // Continue existing list
+            }
+        } else {
+            childNumberedCounter = 0; // Reset for non-list items
         }
 
-        if (childrenMarkdown.length > 0) {
-            result += '\n' + childrenMarkdown.join('\n');
+        const childMarkdown = convertNotionBlock(
+            child,
+            options,
+            warnings,
+            errors,
+            unsupportedBlocks,
+            childNumberedCounter,
+            indentLevel,
+            processedBlockIds,
+            tableOfContents,
+        );
+        if (childMarkdown !== null) {
+            childrenMarkdown.push({ type: child.type, markdown: childMarkdown });
         }
+
+        lastChildType = child.type;
     }
 
-    return result || null;
+    return childrenMarkdown;
+}
+
+/**
+ * Join converted blocks: items of a list stay on consecutive lines, every other block is
+ * separated by a blank line so it parses back as a block of its own
+ */
+function joinBlockMarkdown(blocks: BlockMarkdown[]): string {
+    return blocks
+        .map((block, index) => {
+            if (index === 0) {
+                return block.markdown;
+            }
+            const previous = blocks[index - 1].type;
+            const inList = LIST_TYPES.has(block.type) && LIST_TYPES.has(previous) &&
+                (block.type === 'numbered_list_item') === (previous === 'numbered_list_item');
+            return `${inList ? '\n' : '\n\n'}${block.markdown}`;
+        })
+        .join('');
+}
+
+/**
+ * Prefix every non-empty line
+ */
+function indentLines(markdown: string, prefix: string): string {
+    return markdown
+        .split('\n')
+        .map(line => (line === '' ? line : `${prefix}${line}`))
+        .join('\n');
+}
+
+/**
+ * A block color worth recording (anything but the default)
+ */
+function getMarkedColor(data: { color?: string } | undefined): string | undefined {
+    return data?.color !== undefined && data.color !== 'default' ? data.color : undefined;
+}
+
+/**
+ * Serialize fidelity attributes as compact `key=value` pairs (flags without a value)
+ */
+function serializeAttributes(attributes: Record<string, string | boolean | undefined>): string {
+    return Object.entries(attributes)
+        .filter(([, value]) => value !== undefined && value !== false && value !== '')
+        .map(([key, value]) => (value === true ? key : `${key}=${String(value)}`))
+        .join(' ');
+}
+
+/**
+ * Fidelity marker appended to a block's text, e.g. ` <!-- notion: color=red_background -->`
+ */
+function formatMarker(attributes: Record<string, string | boolean | undefined>): string {
+    const serialized = serializeAttributes(attributes);
+    return serialized !== '' ? ` <!-- notion: ${serialized} -->` : '';
 }
 
 /**
@@ -318,17 +481,48 @@ function convertHeading(
     const text = convertRichTextToMarkdown(headingContent?.rich_text ?? [], options);
 
     const headingPrefix = '#'.repeat(level);
+    const anchor = createHeadingAnchor(text);
 
-    // Create anchor from heading text (lowercase, spaces to hyphens, remove special chars)
-    const anchor = text
+    // Add heading with anchor comment for positioning reference
+    return `${headingPrefix} ${text} {#${anchor}}`;
+}
+
+/**
+ * Create anchor from heading text (lowercase, spaces to hyphens, remove special chars)
+ */
+function createHeadingAnchor(text: string): string {
+    return text
         .toLowerCase()
         .replace(/[^\w\s-]/g, '') // Remove special characters except hyphens
         .replace(/\s+/g, '-')     // Replace spaces with hyphens
         .replace(/-+/g, '-')      // Replace multiple hyphens with single
         .replace(/^-|-$/g, '');   // Remove leading/trailing hyphens
+}
 
-    // Add heading with anchor comment for positioning reference
-    return `${headingPrefix} ${text} {#${anchor}}`;
+/**
+ * Build a nested list of links to every heading, for table_of_contents blocks
+ */
+function buildTableOfContents(blocks: (NotionBlock | NotionBlockData)[], options: ConversionOptions): string {
+    const entries: string[] = [];
+
+    const collect = (list: (NotionBlock | NotionBlockData)[]): void => {
+        for (const block of list) {
+            if (block.type.startsWith('heading_')) {
+                const richText = (block[block.type] as { rich_text?: NotionRichText[] } | undefined)?.rich_text ?? [];
+                const label = richText.map(text => text.plain_text ?? '').join('');
+                const anchor = createHeadingAnchor(convertRichTextToMarkdown(richText, options));
+                const indent = ' '.repeat(Math.max(options.indentSize, 2) * (getHeadingLevel(block.type) - 1));
+                entries.push(`${indent}${options.listMarker} [${label}](#${anchor})`);
+            }
+            // Headings inside columns, toggles and synced blocks are part of the page too
+            if (Array.isArray(block.children)) {
+                collect(block.children as (NotionBlock | NotionBlockData)[]);
+            }
+        }
+    };
+    collect(blocks);
+
+    return entries.join('\n');
 }
 
 /**
@@ -342,8 +536,7 @@ function convertBulletedListItem(
     const text = convertRichTextToMarkdown(block.bulleted_list_item?.rich_text ?? [], options);
     const marker = options.listMarker;
 
-    // Use 3 spaces for proper markdown indentation
-    const indent = indentLevel === 0 ? '' : '   '.repeat(indentLevel);
+    const indent = ' '.repeat(options.indentSize * indentLevel);
     return `${indent}${marker} ${text}`;
 }
 
@@ -358,8 +551,7 @@ function convertNumberedListItem(
 ): string {
     const text = convertRichTextToMarkdown(block.numbered_list_item?.rich_text ?? [], options);
 
-    // Use 3 spaces for proper markdown indentation
-    const indent = indentLevel === 0 ? '' : '   '.repeat(indentLevel);
+    const indent = ' '.repeat(options.indentSize * indentLevel);
     return `${indent}${numberedListIndex}. ${text}`;
 }
 
@@ -374,9 +566,8 @@ function convertToDoItem(
     const text = convertRichTextToMarkdown(block.to_do?.rich_text ?? [], options);
     const checked = block.to_do?.checked === true ? 'x' : ' ';
 
-    // Use 3 spaces for proper markdown indentation
-    const indent = indentLevel === 0 ? '' : '   '.repeat(indentLevel);
-    return `${indent}- [${checked}] ${text}`;
+    const indent = ' '.repeat(options.indentSize * indentLevel);
+    return `${indent}${options.listMarker} [${checked}] ${text}`;
 }
 
 /**
@@ -402,15 +593,15 @@ function convertCodeBlock(
 }
 
 /**
- * Convert quote block
+ * Convert quote block - the text and any nested blocks all go inside the blockquote
  */
-function convertQuote(
-    block: { quote?: { rich_text?: NotionRichText[] } },
-    options: ConversionOptions,
-): string {
-    const text = convertRichTextToMarkdown(block.quote?.rich_text ?? [], options);
+function convertQuote(text: string, children: BlockMarkdown[]): string {
+    const content = joinBlockMarkdown([{ type: 'paragraph', markdown: text }, ...children]);
 
-    return `> ${text}`;
+    return content
+        .split('\n')
+        .map(line => (line === '' ? '>' : `> ${line}`))
+        .join('\n');
 }
 
 /**
@@ -477,50 +668,56 @@ function convertTable(
     return rows.join('\n');
 }
 
+// Local files (not uploaded yet) keep the path they were referenced by
+type NotionFileData = { external?: { url?: string }; file?: { url?: string }; local_file?: { path?: string }; caption?: NotionRichText[]; name?: string };
+
+type NotionCalloutData = { rich_text?: NotionRichText[]; icon?: { emoji?: string; external?: { url?: string } }; color?: string };
+
 /**
  * Convert callout block
  */
 function convertCallout(
-    block: { callout?: { rich_text?: NotionRichText[]; icon?: { emoji?: string } } },
+    block: { callout?: NotionCalloutData },
+    children: BlockMarkdown[],
     options: ConversionOptions,
-    warnings: string[],
 ): string {
-    if (!options.convertCallouts) {
-        warnings.push('Callout block skipped (convertCallouts disabled)');
-        return '';
-    }
-
     const text = convertRichTextToMarkdown(block.callout?.rich_text ?? [], options);
-    const icon = block.callout?.icon?.emoji ?? '';
+    const icon = block.callout?.icon?.emoji ?? block.callout?.icon?.external?.url ?? '';
+
+    if (options.fidelity) {
+        // Icon and color are recorded in full so the callout can be rebuilt exactly
+        return convertQuote(`${text}${formatMarker({ callout: true, icon, color: block.callout?.color ?? 'default' })}`, children);
+    }
 
     // Convert to blockquote with icon
-    return `> ${icon} ${text}`;
+    return convertQuote(`${icon} ${text}`, children);
 }
 
 /**
- * Convert toggle block
+ * Convert toggle block to an HTML details element with the nested blocks inside
+ * Fidelity attributes go on the details tag
  */
 function convertToggle(
-    block: { toggle?: { rich_text?: NotionRichText[] } },
+    toggle: { rich_text?: NotionRichText[] } | undefined,
+    attributes: Record<string, string | undefined>,
+    children: BlockMarkdown[],
     options: ConversionOptions,
-    warnings: string[],
 ): string {
-    const text = convertRichTextToMarkdown(block.toggle?.rich_text ?? [], options);
-
-    if (!options.convertToggles) {
-        warnings.push('Toggle block converted to paragraph (convertToggles disabled)');
-        return text;
-    }
-
-    // Convert to HTML details element
-    return `<details>\n<summary>${text}</summary>\n\n<!-- Nested content would go here -->\n</details>`;
+    const text = convertRichTextToMarkdown(toggle?.rich_text ?? [], options);
+    const serialized = serializeAttributes(attributes);
+    const open = serialized !== '' ? `<details data-notion="${serialized}">` : '<details>';
+    const body = joinBlockMarkdown(children);
+
+    return body !== ''
+        ? `${open}\n<summary>${text}</summary>\n\n${body}\n\n</details>`
+        : `${open}\n<summary>${text}</summary>\n</details>`;
 }
 
 /**
  * Convert image block
  */
 function convertImage(
-    block: { image?: { external?: { url?: string }; file?: { url?: string }; caption?: NotionRichText[] } },
+    block: { image?: NotionFileData },
     options: ConversionOptions,
     warnings: string[],
 ): string {
@@ -530,14 +727,24 @@ function convertImage(
         return '';
     }
 
-    const url = image.external?.url ?? image.file?.url ?? '';
-    const caption = convertRichTextToMarkdown(image.caption ?? [], options);
+    if (options.imageHandling === 'ignore') {
+        return '';
+    }
+
+    let url = image.external?.url ?? image.file?.url ?? image.local_file?.path ?? '';
+    const caption = options.preserveImageCaptions ? convertRichTextToMarkdown(image.caption ?? [], options) : '';
 
     if (!url) {
         warnings.push('Image block missing URL');
         return '';
     }
 
+    // Images under imageBaseUrl are written relative to it, the way the importer resolves them
+    const imageBaseUrl = options.imageBaseUrl?.replace(/\/$/, '') ?? '';
+    if (imageBaseUrl !== '' && url.startsWith(`${imageBaseUrl}/`)) {
+        url = url.substring(imageBaseUrl.length + 1);
+    }
+
     return `![${caption}](${url})`;
 }
 
@@ -568,6 +775,89 @@ function convertBookmark(
     return caption ? `[${caption}](${url})` : url;
 }
 
+/**
+ * Convert equation block to display math
+ */
+function convertEquation(block: { equation?: { expression?: string } }): string {
+    const expression = block.equation?.expression ?? '';
+    return expression !== '' ? `$$\n${expression}\n$$` : '';
+}
+
+/**
+ * Convert file, pdf, video and audio blocks to a link labelled with the caption or file name
+ */
+function convertFileBlock(
+    block: { type: string; [key: string]: unknown },
+    options: ConversionOptions,
+    warnings: string[],
+): string {
+    const data = block[block.type] as NotionFileData | undefined;
+    const url = data?.external?.url ?? data?.file?.url ?? data?.local_file?.path ?? '';
+    if (url === '') {
+        warnings.push(`${block.type} block missing URL`);
+        return '';
+    }
+
+    const caption = convertRichTextToMarkdown(data?.caption ?? [], options);
+    const fileName = decodeURIComponent(url.split(/[?#]/)[0].split('/').pop() ?? '');
+    const label = caption !== '' ? caption : data?.name ?? (fileName !== '' ? fileName : block.type);
+
+    return `[${label}](${url})`;
+}
+
+/**
+ * Convert child page/database blocks to wiki-style links with their titles
+ */
+function convertChildPage(block: { type: string; [key: string]: unknown }): string {
+    const title = (block[block.type] as { title?: string } | undefined)?.title ?? '';
+    return `[[${title !== '' ? title : 'Untitled'}]]`;
+}
+
+/**
+ * Convert link_to_page block to a link to the page, titled when the title has been resolved
+ */
+function convertLinkToPage(
+    block: { link_to_page?: { type?: string; page_id?: string; database_id?: string; title?: string } },
+    options: ConversionOptions,
+): string {
+    const target = block.link_to_page;
+    const id = target?.page_id ?? target?.database_id;
+    if (id === undefined) {
+        return '';
+    }
+
+    const title = target?.title ?? '';
+    const url = resolveNotionLink(getNotionPageUrl(id), options);
+    if (url === undefined) {
+        return title;
+    }
+    return title !== '' ? `[${title}](${url})` : url;
+}
+
+/**
+ * Where a link should point: links to Notion pages become relative links to their local files
+ * (linkResolver), internal links under linkBaseUrl (convertInternalLinks), or are dropped (undefined)
+ * unless preserveNotionLinks is set
+ */
+function resolveNotionLink(url: string, options: ConversionOptions): string | undefined {
+    if (!isNotionUrl(url)) {
+        return url;
+    }
+
+    const pageId = getNotionPageId(url);
+    const localLink = pageId !== undefined ? options.linkResolver?.toLocalLink(pageId) : undefined;
+    if (localLink !== undefined) {
+        return localLink;
+    }
+
+    const linkBaseUrl = options.linkBaseUrl ?? '';
+    if (options.convertInternalLinks && linkBaseUrl !== '' && pageId !== undefined) {
+        return toInternalLink(pageId, linkBaseUrl);
+    }
+
+    return options.preserveNotionLinks ? url : undefined;
+}
+
 /**
  * Convert Notion rich text to markdown
  */
@@ -597,7 +887,15 @@ function convertSingleRichText(
         return '';
     }
 
-    const annotations = text.annotations;
+    // Inline math
+    if (text.type === 'equation' && text.equation !== undefined) {
+        return `$${text.equation.expression}$`;
+    }
+
+    // Without preserveFormatting only links and colors are kept
+    const annotations = options.preserveFormatting || text.annotations === undefined
+        ? text.annotations
+        : { ...text.annotations, bold: false, italic: false, strikethrough: false, code: false };
 
     // Apply formatting
     if (annotations?.code) {
@@ -618,17 +916,23 @@ function convertSingleRichText(
         content = `~~${content}~~`;
     }
 
-    // Handle links
-    if ((text.href ?? text.text?.link?.url) !== null) {
-        const url = text.href ?? text.text?.link?.url;
-        if (url !== null) {
-            content = `[${content}](${url})`;
-        }
+    if (options.fidelity && annotations?.underline) {
+        content = `<u>${content}</u>`;
     }
 
-    // Handle colors (if preserving)
-    if (options.preserveColors && annotations?.color && annotations.color !== 'default') {
-        content = `<span style="color: ${getColorValue(annotations.color)}">${content}</span>`;
+    // Handle links (page mentions carry their notion.so URL in href)
+    const href = text.href ?? text.text?.link?.url;
+    const url = href !== null && href !== undefined ? resolveNotionLink(href, options) : undefined;
+    if (url !== undefined) {
+        content = `[${content}](${url})`;
+    }
+
+    // Handle colors (if preserving) - fidelity keeps the Notion color name so it can be restored
+    const style = annotations?.color !== undefined ? getColorStyle(annotations.color) : undefined;
+    if (options.fidelity && annotations?.color && annotations.color !== 'default') {
+        content = `<span data-notion-color="${annotations.color}">${content}</span>`;
+    } else if (options.preserveColors && style !== undefined) {
+        content = `<span style="${style}">${content}</span>`;
     }
 
     return content;
@@ -645,23 +949,3 @@ function getHeadingLevel(blockType: string): number {
         default: return 1;
     }
 }
-
-/**
- * Convert Notion color to CSS color value
- */
-function getColorValue(color: NotionColor): string {
-    const colorMap: Record<string, string> = {
-        'gray': '#9B9A97',
-        'brown': '#64473A',
-        'orange': '#D9730D',
-        'yellow': '#DFAB01',
-        'green': '#0F7B6C',
-        'blue': '#0B6E99',
-        'purple': '#6940A5',
-        'pink': '#AD1A72',
-        'red': '#E03E3E',
-        'default': 'inherit',
-    };
-
-    return colorMap[color] ?? colorMap['default'];
-}
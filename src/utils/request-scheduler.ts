@@ -0,0 +1,194 @@
+/**
+ * Request scheduling for rate-limited HTTP APIs
+ * Spaces requests to an average rate, pauses every caller while the API asks to back off (429 Retry-After),
+ * retries failed attempts with jittered exponential backoff, and aborts attempts that take too long
+ */
+
+export interface RequestSchedulerOptions {
+    requestsPerSecond: number;
+    // Retries after the first attempt
+    maxRetries: number;
+    // Per attempt, including reading the response body
+    timeoutMs: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: RequestSchedulerOptions = {
+    requestsPerSecond: 3,
+    maxRetries: 5,
+    timeoutMs: 60_000,
+    baseDelayMs: 500,
+    maxDelayMs: 30_000,
+};
+
+export interface RequestStats {
+    requests: number;
+    retries: number;
+    // 429 responses
+    throttled: number;
+    timeouts: number;
+    // Requests that still failed after their last attempt
+    failures: number;
+}
+
+export interface ScheduledRequest {
+    // Safe to send again when the outcome of an attempt is unknown (5xx, timeout, network error)
+    idempotent: boolean;
+}
+
+// The API rejected the request without applying it - always safe to send again
+const REJECTED_STATUSES = new Set([409, 429]);
+
+// Transient server failures - the request may have been applied
+const TRANSIENT_STATUSES = new Set([500, 502, 503, 504]);
+
+// Responses that can't carry a body
+const NULL_BODY_STATUSES = new Set([204, 205, 304]);
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Retry-After in milliseconds (seconds or an HTTP date)
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+    if (value === null || value.trim() === '') {
+        return undefined;
+    }
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export class RequestScheduler {
+    private readonly options: RequestSchedulerOptions;
+    private readonly stats: RequestStats = { requests: 0, retries: 0, throttled: 0, timeouts: 0, failures: 0 };
+
+    // Earliest start of the next attempt, and the end of a Retry-After pause
+    private nextSlot = 0;
+    private pausedUntil = 0;
+
+    constructor(options: Partial<RequestSchedulerOptions> = {}) {
+        this.options = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+    }
+
+    getStats(): RequestStats {
+        return { ...this.stats };
+    }
+
+    /**
+     * Send a request through the scheduler. send gets the abort signal of each attempt; the returned
+     * response is fully read, so non-OK responses after the last retry are left to the caller.
+     */
+    async run(send: (signal: AbortSignal) => Promise<Response>, request: ScheduledRequest): Promise<Response> {
+        this.stats.requests++;
+
+        for (let attempt = 0; ; attempt++) {
+            await this.waitForSlot();
+
+            let response: Response | undefined;
+            let failure: unknown;
+            const controller = new AbortController();
+            const timer = setTimeout(() => controller.abort(), this.options.timeoutMs);
+            try {
+                const received = await send(controller.signal);
+                // Read the body within the timeout, so a stalled transfer is retried too
+                const body = NULL_BODY_STATUSES.has(received.status) ? null : await received.arrayBuffer();
+                response = new Response(body, {
+                    status: received.status,
+                    statusText: received.statusText,
+                    headers: received.headers,
+                });
+            } catch (error) {
+                if (controller.signal.aborted) {
+                    this.stats.timeouts++;
+                    failure = new Error(`Request timed out after ${this.options.timeoutMs} ms`);
+                } else {
+                    failure = error;
+                }
+            } finally {
+                clearTimeout(timer);
+            }
+
+            const retryable = response !== undefined
+                ? REJECTED_STATUSES.has(response.status) || (request.idempotent && TRANSIENT_STATUSES.has(response.status))
+                : request.idempotent;
+
+            if (!retryable || attempt >= this.options.maxRetries) {
+                if (response?.ok !== true) {
+                    this.stats.failures++;
+                }
+                if (response !== undefined) {
+                    return response;
+                }
+                throw failure instanceof Error ? failure : new Error(`Request failed: ${String(failure)}`);
+            }
+
+            let delay = this.getBackoffDelay(attempt);
+            if (response?.status === 429) {
+                this.stats.throttled++;
+                delay = parseRetryAfter(response.headers.get('retry-after')) ?? delay;
+                // The limit is shared, so every caller waits
+                this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+            }
+
+            this.stats.retries++;
+            await sleep(delay);
+        }
+    }
+
+    /**
+     * Full-jitter exponential backoff
+     */
+    private getBackoffDelay(attempt: number): number {
+        const ceiling = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+        return Math.round(Math.random() * ceiling);
+    }
+
+    /**
+     * Wait for this attempt's turn: attempts are spaced to the average rate and held during a Retry-After pause
+     */
+    private async waitForSlot(): Promise<void> {
+        const interval = 1000 / this.options.requestsPerSecond;
+
+        for (;;) {
+            const now = Date.now();
+            const slot = Math.max(now, this.nextSlot, this.pausedUntil);
+            this.nextSlot = slot + interval;
+            if (slot > now) {
+                await sleep(slot - now);
+            }
+            // A pause that started while waiting moves this attempt behind it
+            if (Date.now() >= this.pausedUntil) {
+                return;
+            }
+        }
+    }
+}
+
+const sharedSchedulers = new Map<string, RequestScheduler>();
+
+/**
+ * The scheduler shared by every client of one API (rate limits apply per integration, not per client)
+ * Options only apply when the scheduler is first created.
+ */
+export function getSharedScheduler(name: string, options: Partial<RequestSchedulerOptions> = {}): RequestScheduler {
+    let scheduler = sharedSchedulers.get(name);
+    if (scheduler === undefined) {
+        scheduler = new RequestScheduler(options);
+        sharedSchedulers.set(name, scheduler);
+    }
+    return scheduler;
+}
+
+/**
+ * Counters of every shared scheduler, by API name
+ */
+export function getRequestStats(): Record<string, RequestStats> {
+    return Object.fromEntries([...sharedSchedulers].map(([name, scheduler]) => [name, scheduler.getStats()]));
+}
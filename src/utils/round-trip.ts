@@ -0,0 +1,134 @@
+/**
+ * Round-trip checks for the markdown <-> Notion converters
+ * A document is stable when converting it to the other format and back changes nothing
+ */
+
+import fs from 'fs-extra';
+import { basename, extname, join } from 'path';
+import { NotionBlock } from '../types/notion.js';
+import { markdownToNotion, notionToMarkdown } from './converters.js';
+import { NotionBlockData } from './notion-blocks.js';
+import { blockContentSignature, withAttachedChildren } from './block-diff.js';
+import { diffLines } from './line-diff.js';
+
+// Fixtures: *.md documents and *.json Notion block lists (children attached, as fetched for export)
+export const ROUND_TRIP_FIXTURE_EXTENSIONS = ['.md', '.json'];
+
+export interface RoundTripCheck {
+    direction: 'md -> notion -> md' | 'notion -> md -> notion';
+    stable: boolean;
+    // Line diff between the first and second pass (empty when stable)
+    diff: string;
+}
+
+export interface RoundTripResult {
+    name: string;
+    stable: boolean;
+    checks: RoundTripCheck[];
+    warnings: string[];
+}
+
+type RoundTripBlock = (NotionBlock | NotionBlockData) & { children?: RoundTripBlock[] };
+
+function toBlocks(markdown: string, warnings: string[]): RoundTripBlock[] {
+    const result = markdownToNotion(markdown);
+    warnings.push(...result.warnings, ...result.errors);
+    return withAttachedChildren(result.content as NotionBlockData[]);
+}
+
+function toMarkdown(blocks: RoundTripBlock[], warnings: string[]): string {
+    const result = notionToMarkdown(blocks, { includeMetadata: false, fidelity: true });
+    warnings.push(...result.warnings, ...result.errors);
+    return result.content as string;
+}
+
+/**
+ * One line per block with its normalized content, indented by depth, so block trees can be line-diffed
+ */
+function outlineBlocks(blocks: RoundTripBlock[], depth = 0): string[] {
+    return blocks.flatMap(block => [
+        `${'  '.repeat(depth)}${blockContentSignature(block)}`,
+        ...outlineBlocks(block.children ?? [], depth + 1),
+    ]);
+}
+
+function compare(direction: RoundTripCheck['direction'], first: string, second: string): RoundTripCheck {
+    return { direction, stable: first === second, diff: diffLines(first, second) };
+}
+
+/**
+ * Check a markdown document: its markdown must come back unchanged after a pass through Notion blocks,
+ * and the blocks it converts to must come back unchanged after a pass through markdown
+ */
+export function checkMarkdownRoundTrip(name: string, markdown: string): RoundTripResult {
+    const warnings: string[] = [];
+
+    const blocks = toBlocks(markdown, warnings);
+    const exported = toMarkdown(blocks, warnings);
+    const reimported = toBlocks(exported, warnings);
+    const reexported = toMarkdown(reimported, warnings);
+
+    const checks = [
+        compare('md -> notion -> md', exported, reexported),
+        compare('notion -> md -> notion', outlineBlocks(blocks).join('\n'), outlineBlocks(reimported).join('\n')),
+    ];
+
+    return { name, stable: checks.every(check => check.stable), checks, warnings };
+}
+
+/**
+ * Check Notion blocks: they must come back unchanged after a pass through markdown,
+ * and the markdown they export to must be stable
+ */
+export function checkNotionRoundTrip(name: string, blocks: RoundTripBlock[]): RoundTripResult {
+    const warnings: string[] = [];
+
+    const exported = toMarkdown(blocks, warnings);
+    const reimported = toBlocks(exported, warnings);
+    const reexported = toMarkdown(reimported, warnings);
+
+    const checks = [
+        compare('notion -> md -> notion', outlineBlocks(blocks).join('\n'), outlineBlocks(reimported).join('\n')),
+        compare('md -> notion -> md', exported, reexported),
+    ];
+
+    return { name, stable: checks.every(check => check.stable), checks, warnings };
+}
+
+/**
+ * Run the round-trip checks for every fixture in a directory
+ */
+export async function runRoundTripFixtures(directory: string): Promise<RoundTripResult[]> {
+    const files = (await fs.readdir(directory))
+        .filter(file => ROUND_TRIP_FIXTURE_EXTENSIONS.includes(extname(file)))
+        .sort();
+
+    const results: RoundTripResult[] = [];
+    for (const file of files) {
+        const content = await fs.readFile(join(directory, file), 'utf-8');
+        results.push(extname(file) === '.json'
+            ? checkNotionRoundTrip(basename(file), JSON.parse(content) as RoundTripBlock[])
+            : checkMarkdownRoundTrip(basename(file), content));
+    }
+
+    return results;
+}
+
+/**
+ * Format round-trip results (used by the round-trip CLI command)
+ */
+export function formatRoundTripReport(results: RoundTripResult[]): string {
+    const lines: string[] = [];
+
+    for (const result of results) {
+        lines.push(`${result.stable ? '✅' : '❌'} ${result.name}`);
+        for (const check of result.checks.filter(item => !item.stable)) {
+            lines.push(`   ${check.direction} is not stable:`, ...check.diff.split('\n').map(line => `   ${line}`));
+        }
+    }
+
+    const unstable = results.filter(result => !result.stable).length;
+    lines.push('', `${results.length - unstable}/${results.length} fixtures stable`);
+
+    return lines.join('\n');
+}
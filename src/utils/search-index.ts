@@ -0,0 +1,338 @@
+/**
+ * Persistent inverted index with BM25 ranking
+ * Documents are split into heading sections so hits can report where the text lives
+ */
+
+import fs from 'fs-extra';
+import { dirname } from 'path';
+
+// BM25 tuning (standard defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Term frequency multipliers - a term in a title or heading says more than one in body text
+const TITLE_BOOST = 3;
+const HEADING_BOOST = 2;
+
+const SNIPPET_RADIUS = 80;
+const INDEX_FORMAT_VERSION = 1;
+
+const STOPWORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it',
+    'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'with',
+]);
+
+export interface IndexedSection {
+    headingPath: string[];
+    text: string;
+}
+
+export interface IndexedDocument<TMeta = unknown> {
+    id: string;
+    title: string;
+    lastModified: string;
+    sections: IndexedSection[];
+    metadata?: TMeta;
+}
+
+export interface SearchIndexHit {
+    id: string;
+    score: number;
+    matchedTerms: string[];
+    snippet: string;
+    headingPath: string[];
+}
+
+interface SerializedIndex<TMeta> {
+    version: number;
+    documents: Array<IndexedDocument<TMeta>>;
+    lengths: Record<string, number>;
+    postings: Record<string, Record<string, number>>;
+}
+
+/**
+ * Lowercase word tokens with stopwords removed and plural "s" folded
+ */
+export function tokenize(text: string): string[] {
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    return words
+        .filter(word => !STOPWORDS.has(word))
+        .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+}
+
+/**
+ * Split markdown into sections keyed by their heading path
+ * Exported Notion headings carry a "{#anchor}" suffix which is dropped
+ */
+export function splitMarkdownSections(markdown: string): IndexedSection[] {
+    const sections: IndexedSection[] = [];
+    const headingStack: Array<{ level: number; text: string }> = [];
+    let current: string[] = [];
+    let inCodeBlock = false;
+
+    const flush = (): void => {
+        const text = current.join('\n').trim();
+        if (text !== '') {
+            sections.push({ headingPath: headingStack.map(heading => heading.text), text });
+        }
+        current = [];
+    };
+
+    for (const line of markdown.split('\n')) {
+        if (/^\s*(```|~~~)/.test(line)) {
+            inCodeBlock = !inCodeBlock;
+        }
+
+        const heading = inCodeBlock ? null : /^(#{1,6})\s+(.+?)\s*$/.exec(line);
+        if (!heading) {
+            current.push(line);
+            continue;
+        }
+
+        flush();
+        const level = heading[1].length;
+        while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+            headingStack.pop();
+        }
+        headingStack.push({ level, text: heading[2].replace(/\s*\{#[^}]*\}$/, '') });
+    }
+    flush();
+
+    return sections;
+}
+
+export class SearchIndex<TMeta = unknown> {
+    private readonly documents = new Map<string, IndexedDocument<TMeta>>();
+    private readonly lengths = new Map<string, number>();
+    private readonly postings = new Map<string, Map<string, number>>();
+    private readonly filePath?: string;
+
+    constructor(filePath?: string) {
+        this.filePath = filePath;
+    }
+
+    /**
+     * Load an index from disk, or start an empty one if the file is missing or unreadable
+     */
+    static async load<TMeta = unknown>(filePath: string): Promise<SearchIndex<TMeta>> {
+        const index = new SearchIndex<TMeta>(filePath);
+
+        try {
+            if (!(await fs.pathExists(filePath))) {
+                return index;
+            }
+
+            const data = await fs.readJson(filePath) as SerializedIndex<TMeta>;
+            if (data.version !== INDEX_FORMAT_VERSION) {
+                // Older format - rebuild from scratch
+                return index;
+            }
+
+            for (const document of data.documents) {
+                index.documents.set(document.id, document);
+            }
+            for (const [id, length] of Object.entries(data.lengths)) {
+                index.lengths.set(id, length);
+            }
+            for (const [term, docs] of Object.entries(data.postings)) {
+                index.postings.set(term, new Map(Object.entries(docs)));
+            }
+        } catch {
+            // Corrupt index file - start over, the next sync rebuilds it
+            index.documents.clear();
+            index.lengths.clear();
+            index.postings.clear();
+        }
+
+        return index;
+    }
+
+    /**
+     * Write the index to disk (atomically, via a temp file)
+     */
+    async save(): Promise<void> {
+        if (this.filePath === undefined) {
+            return;
+        }
+
+        const data: SerializedIndex<TMeta> = {
+            version: INDEX_FORMAT_VERSION,
+            documents: Array.from(this.documents.values()),
+            lengths: Object.fromEntries(this.lengths),
+            postings: Object.fromEntries(
+                Array.from(this.postings.entries()).map(([term, docs]) => [term, Object.fromEntries(docs)]),
+            ),
+        };
+
+        await fs.ensureDir(dirname(this.filePath));
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.writeJson(tempPath, data);
+        await fs.move(tempPath, this.filePath, { overwrite: true });
+    }
+
+    get size(): number {
+        return this.documents.size;
+    }
+
+    getDocument(id: string): IndexedDocument<TMeta> | undefined {
+        return this.documents.get(id);
+    }
+
+    getDocumentIds(): string[] {
+        return Array.from(this.documents.keys());
+    }
+
+    /**
+     * Add or replace a document
+     */
+    upsert(document: IndexedDocument<TMeta>): void {
+        this.remove(document.id);
+
+        const weights = new Map<string, number>();
+        let length = 0;
+        const addTokens = (text: string, boost: number): void => {
+            for (const token of tokenize(text)) {
+                weights.set(token, (weights.get(token) ?? 0) + boost);
+                length++;
+            }
+        };
+
+        addTokens(document.title, TITLE_BOOST);
+        for (const section of document.sections) {
+            // Only the innermost heading is indexed per section, parents are counted in their own sections
+            const heading = section.headingPath[section.headingPath.length - 1];
+            if (heading !== undefined) {
+                addTokens(heading, HEADING_BOOST);
+            }
+            addTokens(section.text, 1);
+        }
+
+        for (const [term, weight] of weights) {
+            let docs = this.postings.get(term);
+            if (!docs) {
+                docs = new Map();
+                this.postings.set(term, docs);
+            }
+            docs.set(document.id, weight);
+        }
+
+        this.documents.set(document.id, document);
+        this.lengths.set(document.id, length);
+    }
+
+    /**
+     * Remove a document and its postings
+     */
+    remove(id: string): void {
+        if (!this.documents.has(id)) {
+            return;
+        }
+
+        for (const [term, docs] of this.postings) {
+            docs.delete(id);
+            if (docs.size === 0) {
+                this.postings.delete(term);
+            }
+        }
+
+        this.documents.delete(id);
+        this.lengths.delete(id);
+    }
+
+    /**
+     * Rank documents for a query with BM25
+     */
+    search(
+        query: string,
+        options: { limit?: number; filter?: (document: IndexedDocument<TMeta>) => boolean } = {},
+    ): SearchIndexHit[] {
+        const terms = Array.from(new Set(tokenize(query)));
+        if (terms.length === 0 || this.documents.size === 0) {
+            return [];
+        }
+
+        const totalDocuments = this.documents.size;
+        const averageLength = Array.from(this.lengths.values()).reduce((sum, length) => sum + length, 0) / totalDocuments;
+
+        const scores = new Map<string, { score: number; matchedTerms: string[] }>();
+        for (const term of terms) {
+            const docs = this.postings.get(term);
+            if (!docs) {
+                continue;
+            }
+
+            const idf = Math.log(1 + (totalDocuments - docs.size + 0.5) / (docs.size + 0.5));
+            for (const [id, frequency] of docs) {
+                const length = this.lengths.get(id) ?? averageLength;
+                const termScore = idf * (frequency * (BM25_K1 + 1)) /
+                    (frequency + BM25_K1 * (1 - BM25_B + BM25_B * (length / averageLength)));
+
+                const entry = scores.get(id) ?? { score: 0, matchedTerms: [] };
+                entry.score += termScore;
+                entry.matchedTerms.push(term);
+                scores.set(id, entry);
+            }
+        }
+
+        const ranked = Array.from(scores.entries())
+            .filter(([id]) => options.filter === undefined || options.filter(this.documents.get(id)!))
+            .sort((a, b) => b[1].score - a[1].score)
+            .slice(0, options.limit ?? 10);
+
+        return ranked.map(([id, { score, matchedTerms }]) => {
+            const { snippet, headingPath } = this.buildSnippet(this.documents.get(id)!, matchedTerms);
+            return { id, score, matchedTerms, snippet, headingPath };
+        });
+    }
+
+    /**
+     * Pick the section with the most matches and highlight them
+     */
+    private buildSnippet(document: IndexedDocument<TMeta>, terms: string[]): { snippet: string; headingPath: string[] } {
+        const termSet = new Set(terms);
+        let best: IndexedSection | undefined;
+        let bestCount = 0;
+
+        for (const section of document.sections) {
+            const heading = section.headingPath[section.headingPath.length - 1] ?? '';
+            const count = tokenize(section.text).filter(token => termSet.has(token)).length +
+                tokenize(heading).filter(token => termSet.has(token)).length * HEADING_BOOST;
+            if (count > bestCount) {
+                best = section;
+                bestCount = count;
+            }
+        }
+
+        if (!best) {
+            // Only the title matched
+            return { snippet: this.highlight(document.sections[0]?.text.substring(0, SNIPPET_RADIUS * 2) ?? '', terms), headingPath: [] };
+        }
+
+        const text = best.text.replace(/\s+/g, ' ');
+        const pattern = this.buildTermPattern(terms);
+        const firstMatch = pattern.exec(text);
+        const center = firstMatch?.index ?? 0;
+        const start = Math.max(0, center - SNIPPET_RADIUS);
+        const end = Math.min(text.length, center + SNIPPET_RADIUS);
+
+        let snippet = text.substring(start, end).trim();
+        if (start > 0) {
+            snippet = `...${snippet}`;
+        }
+        if (end < text.length) {
+            snippet = `${snippet}...`;
+        }
+
+        return { snippet: this.highlight(snippet, terms), headingPath: best.headingPath };
+    }
+
+    private highlight(text: string, terms: string[]): string {
+        return text.replace(new RegExp(this.buildTermPattern(terms).source, 'giu'), match => `**${match}**`);
+    }
+
+    // Matches words starting with any term, so "test" also highlights "tests" and "testing"
+    private buildTermPattern(terms: string[]): RegExp {
+        const escaped = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+        return new RegExp(`(?<![\\p{L}\\p{N}])(?:${escaped.join('|')})[\\p{L}\\p{N}]*`, 'iu');
+    }
+}
@@ -0,0 +1,172 @@
+/**
+ * Heading-based section extraction for markdown documents
+ * Lets tools return one section instead of a whole page
+ */
+
+import { extractHeadings, getWordCount, removeFrontmatter } from './converters.js';
+import { tokenize } from './search-index.js';
+
+export interface MarkdownSection {
+    level: number;
+    title: string;
+    anchor: string;
+    // Titles of the parent headings, outermost first (excluding this section)
+    breadcrumb: string[];
+    // Section markdown including its heading and all sub-sections
+    content: string;
+    // Text directly under this heading, before the first sub-heading
+    ownContent: string;
+    wordCount: number;
+}
+
+export interface SectionSelector {
+    headingPath?: string[];
+    anchor?: string;
+    query?: string;
+}
+
+// Exported Notion headings end with an explicit "{#anchor}" marker
+const EXPLICIT_ANCHOR_PATTERN = /\s*\{#([^}]*)\}\s*$/;
+
+/**
+ * Normalize an anchor or heading so the different anchor styles compare equal
+ */
+function normalizeAnchor(value: string): string {
+    return value
+        .toLowerCase()
+        .replace(/^#/, '')
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-|-$/g, '');
+}
+
+/**
+ * Drop "{#anchor}" markers from heading lines
+ */
+export function stripHeadingAnchors(markdown: string): string {
+    return markdown
+        .split('\n')
+        .map(line => (/^#{1,6}\s/.test(line) ? line.replace(EXPLICIT_ANCHOR_PATTERN, '') : line))
+        .join('\n');
+}
+
+/**
+ * Split markdown into a flat, document-ordered list of heading sections
+ */
+export function parseSections(markdown: string): MarkdownSection[] {
+    const lines = removeFrontmatter(markdown).split('\n');
+    const headings: Array<{ line: number; level: number; title: string; explicitAnchor?: string }> = [];
+    let inCodeBlock = false;
+
+    lines.forEach((line, index) => {
+        if (/^\s*(```|~~~)/.test(line)) {
+            inCodeBlock = !inCodeBlock;
+            return;
+        }
+        const match = inCodeBlock ? null : /^(#{1,6})\s+(.+?)\s*$/.exec(line);
+        if (!match) {
+            return;
+        }
+
+        const explicit = EXPLICIT_ANCHOR_PATTERN.exec(match[2]);
+        headings.push({
+            line: index,
+            level: match[1].length,
+            title: match[2].replace(EXPLICIT_ANCHOR_PATTERN, ''),
+            explicitAnchor: explicit?.[1],
+        });
+    });
+
+    // Reuse the anchors extractHeadings computes for listings, when both parsers agree on the headings
+    const parsedHeadings = extractHeadings(headings.map(heading => `${'#'.repeat(heading.level)} ${heading.title}`).join('\n\n'));
+    const anchorsMatch = parsedHeadings.length === headings.length;
+
+    const stack: Array<{ level: number; title: string }> = [];
+    return headings.map((heading, i) => {
+        while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+            stack.pop();
+        }
+        const breadcrumb = stack.map(parent => parent.title);
+        stack.push(heading);
+
+        // Section ends at the next heading of the same or a higher level
+        const next = headings.slice(i + 1).find(candidate => candidate.level <= heading.level);
+        const end = next?.line ?? lines.length;
+        const ownEnd = headings[i + 1]?.line ?? lines.length;
+
+        const content = stripHeadingAnchors(lines.slice(heading.line, end).join('\n')).trim();
+        const ownContent = lines.slice(heading.line + 1, ownEnd).join('\n').trim();
+
+        return {
+            level: heading.level,
+            title: heading.title,
+            anchor: heading.explicitAnchor ?? (anchorsMatch ? parsedHeadings[i].anchor : normalizeAnchor(heading.title)),
+            breadcrumb,
+            content,
+            ownContent,
+            wordCount: getWordCount(content) - getWordCount(heading.title),
+        };
+    });
+}
+
+/**
+ * Find a section by heading path, anchor or query (in that order of precedence)
+ * Heading paths may skip levels and match case-insensitively, e.g. ["Testing", "Mocks"]
+ */
+export function findSection(sections: MarkdownSection[], selector: SectionSelector): MarkdownSection | undefined {
+    if (selector.headingPath && selector.headingPath.length > 0) {
+        const wanted = selector.headingPath.map(part => normalizeAnchor(part));
+        const target = wanted[wanted.length - 1];
+
+        return sections.find(section => {
+            if (normalizeAnchor(section.title) !== target) {
+                return false;
+            }
+            // Every requested parent must appear in the breadcrumb, in order
+            const breadcrumb = section.breadcrumb.map(part => normalizeAnchor(part));
+            let position = 0;
+            for (const parent of wanted.slice(0, -1)) {
+                position = breadcrumb.indexOf(parent, position);
+                if (position === -1) {
+                    return false;
+                }
+                position++;
+            }
+            return true;
+        });
+    }
+
+    if (selector.anchor !== undefined && selector.anchor !== '') {
+        const wanted = normalizeAnchor(selector.anchor);
+        return sections.find(section => normalizeAnchor(section.anchor) === wanted)
+            ?? sections.find(section => normalizeAnchor(section.title) === wanted);
+    }
+
+    if (selector.query !== undefined && selector.query !== '') {
+        const terms = new Set(tokenize(selector.query));
+        let best: MarkdownSection | undefined;
+        let bestScore = 0;
+
+        for (const section of sections) {
+            // Score only the section's own text so parents don't win on their children's content
+            const score = tokenize(section.title).filter(token => terms.has(token)).length * 3 +
+                tokenize(section.ownContent).filter(token => terms.has(token)).length;
+            if (score > bestScore) {
+                best = section;
+                bestScore = score;
+            }
+        }
+        return best;
+    }
+
+    return undefined;
+}
+
+/**
+ * Render an indented table of contents with anchors and word counts
+ */
+export function formatTableOfContents(sections: MarkdownSection[]): string {
+    const minLevel = Math.min(...sections.map(section => section.level));
+    return sections
+        .map(section => `${'  '.repeat(section.level - minLevel)}- ${section.title} (\`#${section.anchor}\`, ${section.wordCount} words)`)
+        .join('\n');
+}
@@ -0,0 +1,245 @@
+/**
+ * Persistent vector index for semantic search
+ * Documents are chunked by heading and each chunk is embedded separately
+ */
+
+import fs from 'fs-extra';
+import { dirname } from 'path';
+import { MarkdownNode } from '../types/markdown.js';
+import { cosineSimilarity } from './embeddings.js';
+import { MarkdownParser } from './markdown-parser.js';
+
+// Long sections are split so one vector doesn't average away the details
+const MAX_CHUNK_CHARACTERS = 1200;
+const SNIPPET_LENGTH = 200;
+const INDEX_FORMAT_VERSION = 1;
+
+// Reciprocal rank fusion constant for hybrid search
+const RRF_K = 60;
+
+export interface SemanticChunk {
+    headingPath: string[];
+    text: string;
+}
+
+export interface SemanticDocument<TMeta = unknown> {
+    id: string;
+    title: string;
+    lastModified: string;
+    metadata?: TMeta;
+}
+
+export interface SemanticHit {
+    id: string;
+    score: number;
+    headingPath: string[];
+    snippet: string;
+}
+
+interface StoredChunk extends SemanticChunk {
+    documentId: string;
+    vector: number[];
+}
+
+interface SerializedSemanticIndex<TMeta> {
+    version: number;
+    providerId: string;
+    documents: Array<SemanticDocument<TMeta>>;
+    chunks: StoredChunk[];
+}
+
+/**
+ * Plain text of an AST node
+ */
+function nodeText(node: MarkdownNode): string {
+    if (node.type === 'code' || (node.children === undefined || node.children.length === 0)) {
+        return node.content ?? '';
+    }
+    if (node.type === 'paragraph' || node.type === 'heading' || node.type === 'table_cell') {
+        return node.content ?? node.children.map(nodeText).join('');
+    }
+    return node.children.map(nodeText).filter(text => text !== '').join('\n');
+}
+
+/**
+ * Split markdown into heading-scoped chunks using the markdown AST
+ */
+export function chunkMarkdownByHeading(markdown: string, maxCharacters = MAX_CHUNK_CHARACTERS): SemanticChunk[] {
+    const ast = new MarkdownParser().parseToAST(markdown);
+    const chunks: SemanticChunk[] = [];
+    const headingStack: Array<{ level: number; text: string }> = [];
+    let current: string[] = [];
+    let currentLength = 0;
+
+    const flush = (): void => {
+        const text = current.join('\n').trim();
+        if (text !== '') {
+            chunks.push({ headingPath: headingStack.map(heading => heading.text), text });
+        }
+        current = [];
+        currentLength = 0;
+    };
+
+    for (const node of ast) {
+        if (node.type === 'heading') {
+            flush();
+            const level = node.level ?? 1;
+            while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+                headingStack.pop();
+            }
+            // Exported Notion headings end with a "{#anchor}" marker
+            headingStack.push({ level, text: nodeText(node).replace(/\s*\{#[^}]*\}$/, '') });
+            continue;
+        }
+
+        const text = nodeText(node);
+        if (text === '') {
+            continue;
+        }
+        if (currentLength > 0 && currentLength + text.length > maxCharacters) {
+            flush();
+        }
+        current.push(text);
+        currentLength += text.length;
+    }
+    flush();
+
+    return chunks;
+}
+
+/**
+ * Fuse several ranked ID lists into one score per ID
+ */
+export function reciprocalRankFusion(rankings: string[][]): Map<string, number> {
+    const scores = new Map<string, number>();
+    for (const ranking of rankings) {
+        ranking.forEach((id, rank) => {
+            scores.set(id, (scores.get(id) ?? 0) + 1 / (RRF_K + rank + 1));
+        });
+    }
+    return scores;
+}
+
+export class SemanticIndex<TMeta = unknown> {
+    private readonly documents = new Map<string, SemanticDocument<TMeta>>();
+    private chunks: StoredChunk[] = [];
+    private readonly filePath?: string;
+    private readonly providerId: string;
+
+    constructor(providerId: string, filePath?: string) {
+        this.providerId = providerId;
+        this.filePath = filePath;
+    }
+
+    /**
+     * Load an index from disk. Starts empty if the file is missing, unreadable or built by another provider.
+     */
+    static async load<TMeta = unknown>(filePath: string, providerId: string): Promise<SemanticIndex<TMeta>> {
+        const index = new SemanticIndex<TMeta>(providerId, filePath);
+
+        try {
+            if (!(await fs.pathExists(filePath))) {
+                return index;
+            }
+
+            const data = await fs.readJson(filePath) as SerializedSemanticIndex<TMeta>;
+            if (data.version !== INDEX_FORMAT_VERSION || data.providerId !== providerId) {
+                return index;
+            }
+
+            for (const document of data.documents) {
+                index.documents.set(document.id, document);
+            }
+            index.chunks = data.chunks;
+        } catch {
+            // Corrupt index file - start over, the next sync rebuilds it
+            index.documents.clear();
+            index.chunks = [];
+        }
+
+        return index;
+    }
+
+    /**
+     * Write the index to disk (atomically, via a temp file)
+     */
+    async save(): Promise<void> {
+        if (this.filePath === undefined) {
+            return;
+        }
+
+        const data: SerializedSemanticIndex<TMeta> = {
+            version: INDEX_FORMAT_VERSION,
+            providerId: this.providerId,
+            documents: Array.from(this.documents.values()),
+            // Four decimals is plenty for cosine ranking and keeps the file small
+            chunks: this.chunks.map(chunk => ({ ...chunk, vector: chunk.vector.map(value => Math.round(value * 1e4) / 1e4) })),
+        };
+
+        await fs.ensureDir(dirname(this.filePath));
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.writeJson(tempPath, data);
+        await fs.move(tempPath, this.filePath, { overwrite: true });
+    }
+
+    get size(): number {
+        return this.documents.size;
+    }
+
+    getDocument(id: string): SemanticDocument<TMeta> | undefined {
+        return this.documents.get(id);
+    }
+
+    getDocumentIds(): string[] {
+        return Array.from(this.documents.keys());
+    }
+
+    /**
+     * Add or replace a document with its embedded chunks
+     */
+    upsert(document: SemanticDocument<TMeta>, chunks: Array<SemanticChunk & { vector: number[] }>): void {
+        this.remove(document.id);
+        this.documents.set(document.id, document);
+        this.chunks.push(...chunks.map(chunk => ({ ...chunk, documentId: document.id })));
+    }
+
+    remove(id: string): void {
+        if (!this.documents.delete(id)) {
+            return;
+        }
+        this.chunks = this.chunks.filter(chunk => chunk.documentId !== id);
+    }
+
+    /**
+     * Rank documents by their best-matching chunk
+     */
+    search(
+        queryVector: number[],
+        options: { limit?: number; minScore?: number; filter?: (document: SemanticDocument<TMeta>) => boolean } = {},
+    ): SemanticHit[] {
+        const best = new Map<string, { score: number; chunk: StoredChunk }>();
+
+        for (const chunk of this.chunks) {
+            const score = cosineSimilarity(queryVector, chunk.vector);
+            const current = best.get(chunk.documentId);
+            if (!current || score > current.score) {
+                best.set(chunk.documentId, { score, chunk });
+            }
+        }
+
+        return Array.from(best.entries())
+            .filter(([id, { score }]) => score >= (options.minScore ?? 0) &&
+                (options.filter === undefined || options.filter(this.documents.get(id)!)))
+            .sort((a, b) => b[1].score - a[1].score)
+            .slice(0, options.limit ?? 10)
+            .map(([id, { score, chunk }]) => {
+                const text = chunk.text.replace(/\s+/g, ' ');
+                return {
+                    id,
+                    score,
+                    headingPath: chunk.headingPath,
+                    snippet: text.length > SNIPPET_LENGTH ? `${text.substring(0, SNIPPET_LENGTH)}...` : text,
+                };
+            });
+    }
+}